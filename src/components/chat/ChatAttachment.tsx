@@ -0,0 +1,164 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { FilePlus, FileText } from 'lucide-react';
+import { format } from 'date-fns';
+import { formatFileSize, getAttachmentUrl, isImageAttachment, type ChatMessage } from '@/lib/chat';
+
+interface ChatAttachmentProps {
+  message: ChatMessage;
+  // Set when the viewer is the room's doctor, who can file the attachment for this patient
+  patientId?: string;
+  doctorId?: string;
+}
+
+const ChatAttachment = ({ message, patientId, doctorId }: ChatAttachmentProps) => {
+  const { toast } = useToast();
+  const [url, setUrl] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [title, setTitle] = useState('');
+  const [recordType, setRecordType] = useState('document');
+  const [description, setDescription] = useState('');
+
+  const isImage = isImageAttachment(message.attachment_type);
+
+  useEffect(() => {
+    if (!message.attachment_path) return;
+    getAttachmentUrl(message.attachment_path)
+      .then(setUrl)
+      .catch((error) => console.error('Error signing attachment URL:', error));
+  }, [message.attachment_path]);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setTitle(message.attachment_name ?? '');
+      setRecordType(isImage ? 'imaging' : 'document');
+      setDescription(message.message);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    const { error } = await supabase.from('medical_records').insert({
+      patient_id: patientId!,
+      uploaded_by: doctorId!,
+      record_type: recordType,
+      title: title.trim(),
+      description: description.trim() || null,
+      file_path: message.attachment_path,
+      recorded_date: format(new Date(message.created_at), 'yyyy-MM-dd'),
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+      setSaving(false);
+      return;
+    }
+
+    toast({
+      title: 'Success',
+      description: 'Attachment saved to medical records',
+    });
+    setOpen(false);
+    setSaving(false);
+  };
+
+  if (!message.attachment_path) return null;
+
+  return (
+    <div className="space-y-1">
+      {isImage ? (
+        url ? (
+          <a href={url} target="_blank" rel="noopener noreferrer">
+            <img
+              src={url}
+              alt={message.attachment_name ?? 'Attachment'}
+              className="rounded-md max-h-48 max-w-full object-contain"
+            />
+          </a>
+        ) : (
+          <div className="h-24 w-40 rounded-md bg-background/30 animate-pulse" />
+        )
+      ) : (
+        <a
+          href={url ?? undefined}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 rounded-md border border-current p-2 text-sm underline-offset-2 hover:underline"
+        >
+          <FileText className="w-4 h-4 shrink-0" />
+          <span className="truncate">{message.attachment_name}</span>
+          {message.attachment_size != null && (
+            <span className="text-xs opacity-70 shrink-0">{formatFileSize(message.attachment_size)}</span>
+          )}
+        </a>
+      )}
+
+      {patientId && doctorId && (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+          <DialogTrigger asChild>
+            <Button size="sm" variant="ghost" className="h-6 px-1 text-xs">
+              <FilePlus className="w-3 h-3 mr-1" />
+              Save to records
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Save to Medical Records</DialogTitle>
+              <DialogDescription>
+                File {message.attachment_name} in this patient's medical records.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSave} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="record-title">Title</Label>
+                <Input id="record-title" value={title} onChange={(e) => setTitle(e.target.value)} required />
+              </div>
+              <div className="space-y-2">
+                <Label>Record type</Label>
+                <Select value={recordType} onValueChange={setRecordType}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="document">Document</SelectItem>
+                    <SelectItem value="imaging">Imaging</SelectItem>
+                    <SelectItem value="lab_result">Lab result</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="record-description">Description (Optional)</Label>
+                <Textarea
+                  id="record-description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  rows={3}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={saving || !title.trim()}>
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+};
+
+export default ChatAttachment;
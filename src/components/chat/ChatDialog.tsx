@@ -1,9 +1,11 @@
 import { useState, useEffect, useRef } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { MessageSquare } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useUnreadChats } from '@/hooks/use-unread-chats';
 import ChatInterface from './ChatInterface';
 import VideoCall from '../video/VideoCall';
 
@@ -15,6 +17,7 @@ interface ChatDialogProps {
   currentUserId: string;
   otherUserName: string;
   variant?: 'default' | 'outline' | 'ghost';
+  focusMessage?: { id: string; created_at: string };
   onBookGeneralPhysician?: () => void;
 }
 
@@ -25,9 +28,12 @@ export default function ChatDialog({
   currentUserId,
   otherUserName,
   variant = 'default',
+  focusMessage,
   onBookGeneralPhysician
 }: ChatDialogProps) {
   const { toast } = useToast();
+  const { countFor } = useUnreadChats();
+  const unread = countFor(patientId, doctorId, appointmentId);
 
   const [open, setOpen] = useState(false);
   const [chatRoomId, setChatRoomId] = useState<string | null>(null);
@@ -171,6 +177,11 @@ export default function ChatDialog({
           <Button variant={variant} size="sm">
             <MessageSquare className="w-4 h-4 mr-2" />
             Open Chat
+            {unread > 0 && (
+              <Badge variant="destructive" className="ml-2 h-5 px-1.5">
+                {unread}
+              </Badge>
+            )}
           </Button>
         </DialogTrigger>
 
@@ -185,6 +196,10 @@ export default function ChatDialog({
               currentUserId={currentUserId}
               otherUserName={otherUserName}
               otherUserId={currentUserId === patientId ? doctorId : patientId}
+              appointmentId={appointmentId}
+              patientId={patientId}
+              doctorId={doctorId}
+              focusMessage={focusMessage}
               onBookGeneralPhysician={onBookGeneralPhysician}
             />
           )}
@@ -1,36 +1,78 @@
 // ChatInterface.tsx
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Send, Video } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Command, CommandGroup, CommandItem, CommandList } from '@/components/ui/command';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { AlertCircle, Check, CheckCheck, Clock, MoreVertical, Paperclip, Pencil, Reply, Search, Send, Trash2, Video, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useChatOutbox } from '@/hooks/use-chat-outbox';
 import { format } from 'date-fns';
 import VideoCall from '../video/VideoCall';
+import ChatAttachment from './ChatAttachment';
+import HighlightedText from './HighlightedText';
+import MessageHistory from './MessageHistory';
+import {
+  ATTACHMENT_TYPES,
+  CHAT_PAGE_SIZE,
+  canEditMessage,
+  formatFileSize,
+  highlightTerms,
+  matchedTerms,
+  mergeMessages,
+  messagePreview,
+  parseHeadline,
+  uploadChatAttachment,
+  validateAttachment,
+  type ChatMessage,
+  type ChatSearchHit,
+} from '@/lib/chat';
+import {
+  PRESENCE_DOT_CLASSES,
+  TYPING_THROTTLE_MS,
+  TYPING_TIMEOUT_MS,
+  currentPresenceStatus,
+  describePresence,
+  presenceStatusOf,
+  type PresencePayload,
+  type PresenceStatus,
+} from '@/lib/presence';
+import { fillTemplate, matchTemplates, type MessageTemplate } from '@/lib/templates';
+import { formatInTimeZone } from '@/lib/timezone';
 
 console.log("[CHAT] Component Loaded");
 
-interface Message {
-  id: string;
-  sender_id: string;
-  message: string;
-  created_at: string;
-}
-
 interface ChatInterfaceProps {
   chatRoomId: string;
   currentUserId: string;
   otherUserName: string;
   otherUserId: string;
+  appointmentId?: string;
+  patientId?: string;
+  doctorId?: string;
+  // Scroll to this message once the chat opens, e.g. from a dashboard search hit
+  focusMessage?: { id: string; created_at: string };
   onBookGeneralPhysician?: () => void;
 }
 
+interface RoomReadPositions {
+  patient_id: string;
+  patient_last_read_at: string | null;
+  doctor_last_read_at: string | null;
+}
+
 const ChatInterface: React.FC<ChatInterfaceProps> = ({
   chatRoomId,
   currentUserId,
   otherUserName,
   otherUserId,
+  appointmentId,
+  patientId,
+  doctorId,
+  focusMessage,
   onBookGeneralPhysician,
 }) => {
 
@@ -41,11 +83,49 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     otherUserId
   });
 
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
   const [newMessage, setNewMessage] = useState('');
   const [loading, setLoading] = useState(false);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  // When the other participant last read this room; drives the read ticks
+  const [otherLastReadAt, setOtherLastReadAt] = useState<string | null>(null);
+  const [otherPresence, setOtherPresence] = useState<PresenceStatus>('offline');
+  const [otherLastSeenAt, setOtherLastSeenAt] = useState<string | null>(null);
+  const [otherTyping, setOtherTyping] = useState(false);
+  const typingTimeoutRef = useRef<number | null>(null);
+  const lastTypingSentRef = useRef(0);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<ChatSearchHit[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [searchedFor, setSearchedFor] = useState<string | null>(null);
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const [replyTo, setReplyTo] = useState<ChatMessage | null>(null);
+  const [editing, setEditing] = useState<ChatMessage | null>(null);
+  // Quoted messages that are older than the loaded pages
+  const [replyTargets, setReplyTargets] = useState<Record<string, ChatMessage>>({});
+  // Doctor quick replies, picked by typing "/" in the input
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  const [templateIndex, setTemplateIndex] = useState(0);
+  const [templatePickerDismissed, setTemplatePickerDismissed] = useState(false);
+  const isDoctor = !!doctorId && currentUserId === doctorId;
   const { toast } = useToast();
+  // Sent messages show straight away from the outbox and move to `messages` once stored
+  const { outbox, enqueue, retry, discard } = useChatOutbox(
+    chatRoomId,
+    currentUserId,
+    useCallback((msg: ChatMessage) => setMessages((cur) => mergeMessages(cur, [msg])), []),
+  );
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
   const scrollAreaRef = useRef<HTMLDivElement | null>(null);
+  // Follow new messages only while the user is reading the bottom of the chat
+  const stickToBottomRef = useRef(true);
+  // Distance from the bottom to keep while older messages are prepended
+  const restoreFromBottomRef = useRef<number | null>(null);
 
   // call states
   const [incomingCall, setIncomingCall] = useState<any | null>(null);
@@ -77,17 +157,20 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     ringtoneRef.current = null;
   }
 
+  // The Radix viewport is the element that actually scrolls
+  const getViewport = () =>
+    scrollAreaRef.current?.querySelector<HTMLDivElement>('[data-radix-scroll-area-viewport]') ?? null;
+
   // ----------------------------------
-  // FETCH MESSAGES
+  // FETCH MESSAGES (latest page)
   // ----------------------------------
   const fetchMessages = useCallback(async () => {
-    console.log("[CHAT] Fetching messages...");
+    console.log("[CHAT] Fetching latest messages...");
 
-    const { data, error } = await supabase
-      .from('messages')
-      .select('*')
-      .eq('chat_room_id', chatRoomId)
-      .order('created_at', { ascending: true });
+    const { data, error } = await supabase.rpc('get_chat_messages', {
+      _chat_room_id: chatRoomId,
+      _limit: CHAT_PAGE_SIZE,
+    });
 
     if (error) {
       console.error("[CHAT] fetchMessages ERROR", error);
@@ -95,19 +178,232 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
 
     console.log("[CHAT] Messages fetched:", data?.length);
-    setMessages((data as Message[]) || []);
+    stickToBottomRef.current = true;
+    setHasMore((data?.length ?? 0) === CHAT_PAGE_SIZE);
+    // Merge rather than replace: realtime INSERTs may have arrived first
+    setMessages((cur) => mergeMessages(cur, data || []));
+  }, [chatRoomId]);
+
+  // ----------------------------------
+  // READ RECEIPTS
+  // ----------------------------------
+  const markRead = useCallback(async () => {
+    // Only count messages as read while the chat is actually on screen
+    if (document.visibilityState !== 'visible') return;
+
+    const { error } = await supabase.rpc('mark_chat_room_read', { _chat_room_id: chatRoomId });
+    if (error) console.error("[CHAT] markRead ERROR", error);
   }, [chatRoomId]);
 
+  const applyReadPositions = useCallback((room: RoomReadPositions) => {
+    setOtherLastReadAt(room.patient_id === currentUserId ? room.doctor_last_read_at : room.patient_last_read_at);
+  }, [currentUserId]);
+
+  const fetchReadPositions = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('chat_rooms')
+      .select('patient_id, patient_last_read_at, doctor_last_read_at')
+      .eq('id', chatRoomId)
+      .single();
+
+    if (error) {
+      console.error("[CHAT] fetchReadPositions ERROR", error);
+      return;
+    }
+    applyReadPositions(data);
+  }, [chatRoomId, applyReadPositions]);
+
+  // ----------------------------------
+  // FETCH OLDER MESSAGES (on scroll-up)
+  // ----------------------------------
+  const loadOlderMessages = useCallback(async () => {
+    const oldest = messages[0];
+    if (!oldest || !hasMore || loadingOlder) return;
+
+    console.log("[CHAT] Fetching messages before", oldest.created_at);
+    setLoadingOlder(true);
+
+    const { data, error } = await supabase.rpc('get_chat_messages', {
+      _chat_room_id: chatRoomId,
+      _before_created_at: oldest.created_at,
+      _before_id: oldest.id,
+      _limit: CHAT_PAGE_SIZE,
+    });
+
+    if (error) {
+      console.error("[CHAT] loadOlderMessages ERROR", error);
+      setLoadingOlder(false);
+      return;
+    }
+
+    const viewport = getViewport();
+    if (viewport) restoreFromBottomRef.current = viewport.scrollHeight - viewport.scrollTop;
+
+    console.log("[CHAT] Older messages fetched:", data?.length);
+    setHasMore((data?.length ?? 0) === CHAT_PAGE_SIZE);
+    setMessages((cur) => mergeMessages(cur, data || []));
+    setLoadingOlder(false);
+  }, [chatRoomId, messages, hasMore, loadingOlder]);
+
+  // ----------------------------------
+  // SEARCH
+  // ----------------------------------
+  const searchMessages = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!searchQuery.trim()) return;
+
+    console.log("[CHAT] Searching messages:", searchQuery);
+    setSearching(true);
+
+    const { data, error } = await supabase.rpc('search_chat_messages', {
+      _query: searchQuery.trim(),
+      _chat_room_id: chatRoomId,
+    });
+
+    if (error) {
+      console.error("[CHAT] searchMessages ERROR", error);
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      setSearchResults(data || []);
+      setSearchedFor(searchQuery.trim());
+    }
+    setSearching(false);
+  };
+
+  const closeSearch = () => {
+    setSearchOpen(false);
+    setSearchQuery('');
+    setSearchResults([]);
+    setSearchedFor(null);
+    setFocusedId(null);
+  };
+
+  // Load everything between the hit and the oldest loaded message, then scroll to it
+  const jumpToMessage = useCallback(async (target: { id: string; created_at: string }) => {
+    console.log("[CHAT] Jumping to message", target.id);
+    stickToBottomRef.current = false;
+
+    const oldest = messages[0];
+    if (!messages.some((msg) => msg.id === target.id)) {
+      let query = supabase
+        .from('messages')
+        .select('*')
+        .eq('chat_room_id', chatRoomId)
+        .gte('created_at', target.created_at)
+        .order('created_at', { ascending: true });
+      if (oldest) query = query.lte('created_at', oldest.created_at);
+
+      const { data, error } = await query;
+      if (error) {
+        console.error("[CHAT] jumpToMessage ERROR", error);
+        return;
+      }
+      // Anything before the hit is still reachable by scrolling up
+      setHasMore(true);
+      setMessages((cur) => mergeMessages(cur, data || []));
+    }
+
+    setFocusedId(target.id);
+  }, [chatRoomId, messages]);
+
+  useEffect(() => {
+    if (!focusedId) return;
+    const el = scrollAreaRef.current?.querySelector(`[data-message-id="${focusedId}"]`);
+    el?.scrollIntoView({ block: 'center' });
+  }, [focusedId, messages]);
+
+  useEffect(() => {
+    const missing = messages
+      .map((msg) => msg.reply_to_id)
+      .filter((id): id is string => !!id && !replyTargets[id] && !messages.some((msg) => msg.id === id));
+    if (missing.length === 0) return;
+
+    supabase
+      .from('messages')
+      .select('*')
+      .in('id', Array.from(new Set(missing)))
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("[CHAT] fetch reply targets ERROR", error);
+          return;
+        }
+        setReplyTargets((cur) => ({ ...cur, ...Object.fromEntries((data || []).map((msg) => [msg.id, msg])) }));
+      });
+  }, [messages, replyTargets]);
+
+  // ----------------------------------
+  // QUICK REPLY TEMPLATES
+  // ----------------------------------
+  useEffect(() => {
+    if (!isDoctor) return;
+
+    const loadTemplates = async () => {
+      const [templatesRes, doctorRes, appointmentRes] = await Promise.all([
+        supabase.from('message_templates').select('id, doctor_id, shortcut, title, body').order('shortcut'),
+        supabase.from('profiles').select('full_name').eq('id', currentUserId).single(),
+        appointmentId
+          ? supabase
+              .from('appointments')
+              .select('appointment_date, patient:profiles!appointments_patient_id_fkey(time_zone)')
+              .eq('id', appointmentId)
+              .single()
+          : Promise.resolve({ data: null }),
+      ]);
+
+      if (templatesRes.error) console.error("[CHAT] loadTemplates ERROR", templatesRes.error);
+      setTemplates(templatesRes.data || []);
+
+      // Placeholders without a value are left in the text for the doctor to fill in
+      const values: Record<string, string> = { patient_name: otherUserName };
+      if (doctorRes.data?.full_name) values.doctor_name = doctorRes.data.full_name;
+      const appointment = appointmentRes.data;
+      if (appointment) {
+        // In the patient's time zone, since they are the one reading it
+        values.appointment_date = formatInTimeZone(appointment.appointment_date, appointment.patient?.time_zone ?? 'UTC');
+      }
+      setTemplateValues(values);
+    };
+
+    loadTemplates();
+  }, [isDoctor, currentUserId, appointmentId, otherUserName]);
+
+  const templateQuery =
+    isDoctor && !editing && !templatePickerDismissed && /^\/\S*$/.test(newMessage) ? newMessage.slice(1) : null;
+  const templateMatches = templateQuery !== null ? matchTemplates(templates, templateQuery).slice(0, 8) : [];
+  const activeTemplate = templateMatches[Math.min(templateIndex, templateMatches.length - 1)];
+
+  const applyTemplate = (template: MessageTemplate) => {
+    setNewMessage(fillTemplate(template.body, templateValues));
+    setTemplateIndex(0);
+  };
+
   // ----------------------------------
   // SUBSCRIBE TO MESSAGES
   // ----------------------------------
   useEffect(() => {
     console.log("[CHAT] Subscribing to messages realtime...");
 
-    fetchMessages();
+    setMessages([]);
+    setHasMore(false);
+    setOtherLastReadAt(null);
+    fetchMessages().then(markRead);
+    setFocusedId(null);
+    setReplyTo(null);
+    setEditing(null);
+    setReplyTargets({});
+    fetchReadPositions();
+
+    setOtherPresence('offline');
+    setOtherTyping(false);
+    supabase
+      .from('profiles')
+      .select('last_seen_at')
+      .eq('id', otherUserId)
+      .single()
+      .then(({ data }) => setOtherLastSeenAt(data?.last_seen_at ?? null));
 
     const msgChannel = supabase
-      .channel(`chat-${chatRoomId}`)
+      .channel(`chat-${chatRoomId}`, { config: { presence: { key: currentUserId } } })
       .on(
         'postgres_changes',
         {
@@ -118,11 +414,67 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         },
         (payload: any) => {
           console.log("[CHAT] New message realtime:", payload);
-          setMessages((cur) => [...cur, payload.new as Message]);
+          setMessages((cur) => mergeMessages(cur, [payload.new as ChatMessage]));
+          if (payload.new.sender_id !== currentUserId) {
+            setOtherTyping(false);
+            markRead();
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `chat_room_id=eq.${chatRoomId}`
+        },
+        (payload: { new: ChatMessage }) => {
+          console.log("[CHAT] Message edited/deleted realtime:", payload.new);
+          // Only replace messages already on screen; older ones load fresh when scrolled to
+          setMessages((cur) => (cur.some((msg) => msg.id === payload.new.id) ? mergeMessages(cur, [payload.new]) : cur));
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'chat_rooms',
+          filter: `id=eq.${chatRoomId}`
+        },
+        (payload: { new: RoomReadPositions }) => {
+          console.log("[CHAT] Read positions updated:", payload.new);
+          applyReadPositions(payload.new);
+        }
+      )
+      .on('presence', { event: 'sync' }, () => {
+        const status = presenceStatusOf(msgChannel.presenceState<PresencePayload>(), otherUserId);
+        setOtherPresence((prev) => {
+          // They just left the room, which is when they were last seen
+          if (prev !== 'offline' && status === 'offline') setOtherLastSeenAt(new Date().toISOString());
+          return status;
+        });
+      })
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        if (payload.user_id !== otherUserId) return;
+
+        if (typingTimeoutRef.current) window.clearTimeout(typingTimeoutRef.current);
+        setOtherTyping(payload.typing);
+        // A lost "stopped typing" event must not leave the indicator up
+        if (payload.typing) {
+          typingTimeoutRef.current = window.setTimeout(() => setOtherTyping(false), TYPING_TIMEOUT_MS);
+        }
+      })
       .subscribe((status) => {
         console.log("[CHAT] Messages channel status:", status);
+        if (status === 'SUBSCRIBED') {
+          msgChannel.track({
+            user_id: currentUserId,
+            status: currentPresenceStatus(),
+            online_at: new Date().toISOString(),
+          } satisfies PresencePayload);
+        }
       });
 
     messagesChannelRef.current = msgChannel;
@@ -134,8 +486,50 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       } catch (e) {
         console.error("[CHAT] removeChannel messages ERROR", e);
       }
+      if (typingTimeoutRef.current) window.clearTimeout(typingTimeoutRef.current);
+      supabase.rpc('touch_last_seen').then(({ error }) => {
+        if (error) console.error("[CHAT] touch_last_seen ERROR", error);
+      });
     };
-  }, [chatRoomId, fetchMessages]);
+  }, [chatRoomId, currentUserId, otherUserId, fetchMessages, fetchReadPositions, markRead, applyReadPositions]);
+
+  // Opened from a search hit: jump once the latest page is in
+  const focusedOnOpenRef = useRef(false);
+  useEffect(() => {
+    if (!focusMessage || focusedOnOpenRef.current || messages.length === 0) return;
+    focusedOnOpenRef.current = true;
+    jumpToMessage(focusMessage);
+  }, [focusMessage, messages.length, jumpToMessage]);
+
+  // Hidden tab shows as away; messages that arrived meanwhile are read once it comes back
+  useEffect(() => {
+    const onVisibilityChange = () => {
+      messagesChannelRef.current?.track({
+        user_id: currentUserId,
+        status: currentPresenceStatus(),
+        online_at: new Date().toISOString(),
+      } satisfies PresencePayload);
+      if (document.visibilityState === 'visible') markRead();
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, [currentUserId, markRead]);
+
+  // ----------------------------------
+  // TYPING INDICATOR
+  // ----------------------------------
+  const sendTyping = (typing: boolean) => {
+    const now = Date.now();
+    // Throttled while typing; "stopped" always goes out so the indicator clears at once
+    if (typing && now - lastTypingSentRef.current < TYPING_THROTTLE_MS) return;
+    lastTypingSentRef.current = typing ? now : 0;
+
+    messagesChannelRef.current?.send({
+      type: 'broadcast',
+      event: 'typing',
+      payload: { user_id: currentUserId, typing },
+    });
+  };
 
   // ----------------------------------
   // SUBSCRIBE TO CALL SIGNALS
@@ -217,41 +611,151 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   // ----------------------------------
   // AUTO SCROLL
   // ----------------------------------
+  useLayoutEffect(() => {
+    const viewport = getViewport();
+    if (!viewport) return;
+
+    if (restoreFromBottomRef.current !== null) {
+      // Older page prepended: keep the same messages in view
+      viewport.scrollTop = viewport.scrollHeight - restoreFromBottomRef.current;
+      restoreFromBottomRef.current = null;
+    } else if (stickToBottomRef.current) {
+      viewport.scrollTop = viewport.scrollHeight;
+    }
+  }, [messages, outbox]);
+
   useEffect(() => {
-    try {
-      if (scrollAreaRef.current) {
-        scrollAreaRef.current.scrollTop = scrollAreaRef.current.scrollHeight;
-      }
-    } catch {}
-  }, [messages]);
+    const viewport = getViewport();
+    if (!viewport) return;
+
+    const onScroll = () => {
+      stickToBottomRef.current = viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight < 40;
+      if (viewport.scrollTop < 60) loadOlderMessages();
+    };
+
+    viewport.addEventListener('scroll', onScroll);
+    return () => viewport.removeEventListener('scroll', onScroll);
+  }, [loadOlderMessages]);
 
   // ----------------------------------
   // SEND MESSAGE
   // ----------------------------------
   const sendMessage = async () => {
-    if (!newMessage.trim()) return;
+    if (editing) return saveEdit();
+    if (!newMessage.trim() && !pendingFile) return;
 
-    console.log("[CHAT] Sending message:", newMessage);
+    console.log("[CHAT] Sending message:", newMessage, pendingFile?.name);
 
     setLoading(true);
+    stickToBottomRef.current = true;
+
+    let attachmentPath: string | null = null;
+    if (pendingFile) {
+      try {
+        setUploadProgress(0);
+        attachmentPath = await uploadChatAttachment(chatRoomId, pendingFile, setUploadProgress);
+      } catch (e) {
+        console.error("[CHAT] upload ERROR", e);
+        toast({
+          title: 'Error',
+          description: e instanceof Error ? e.message : 'Failed to upload attachment',
+          variant: 'destructive',
+        });
+        setUploadProgress(null);
+        setLoading(false);
+        return;
+      }
+    }
 
-    const { error } = await supabase.from('messages').insert({
+    // Queued rather than inserted directly, so a dropped connection retries instead of losing the text
+    enqueue({
       chat_room_id: chatRoomId,
       sender_id: currentUserId,
       message: newMessage.trim(),
+      attachment_path: attachmentPath,
+      attachment_name: pendingFile?.name ?? null,
+      attachment_type: pendingFile?.type ?? null,
+      attachment_size: pendingFile?.size ?? null,
+      reply_to_id: replyTo?.id ?? null,
+    });
+
+    console.log("[CHAT] Message queued!");
+    setNewMessage('');
+    sendTyping(false);
+    setPendingFile(null);
+    setReplyTo(null);
+
+    setUploadProgress(null);
+    setLoading(false);
+  };
+
+  // ----------------------------------
+  // EDIT / DELETE / REPLY
+  // ----------------------------------
+  const startEdit = (msg: ChatMessage) => {
+    setReplyTo(null);
+    setPendingFile(null);
+    setEditing(msg);
+    setNewMessage(msg.message);
+  };
+
+  const startReply = (msg: ChatMessage) => {
+    setEditing(null);
+    setReplyTo(msg);
+  };
+
+  const cancelCompose = () => {
+    if (editing) setNewMessage('');
+    setEditing(null);
+    setReplyTo(null);
+  };
+
+  const saveEdit = async () => {
+    console.log("[CHAT] Editing message:", editing!.id);
+    setLoading(true);
+
+    const { error } = await supabase.rpc('edit_chat_message', {
+      _message_id: editing!.id,
+      _message: newMessage.trim(),
     });
 
     if (error) {
-      console.error("[CHAT] sendMessage ERROR", error);
-      toast({ title: 'Error', description: 'Failed to send message', variant: 'destructive' });
+      console.error("[CHAT] editMessage ERROR", error);
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
     } else {
-      console.log("[CHAT] Message sent!");
       setNewMessage('');
+      setEditing(null);
     }
-
     setLoading(false);
   };
 
+  const deleteMessage = async (msg: ChatMessage) => {
+    console.log("[CHAT] Deleting message:", msg.id);
+
+    const { error } = await supabase.rpc('delete_chat_message', { _message_id: msg.id });
+
+    if (error) {
+      console.error("[CHAT] deleteMessage ERROR", error);
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else if (editing?.id === msg.id) {
+      cancelCompose();
+    }
+  };
+
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so picking the same file again still fires onChange
+    e.target.value = '';
+    if (!file) return;
+
+    const problem = validateAttachment(file);
+    if (problem) {
+      toast({ title: 'Error', description: problem, variant: 'destructive' });
+      return;
+    }
+    setPendingFile(file);
+  };
+
   // ----------------------------------
   // START CALL
   // ----------------------------------
@@ -364,6 +868,14 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     setIsOutgoingCalling(false);
   };
 
+  const searchTerms = searchOpen ? matchedTerms(searchResults) : [];
+  const outboxById = new Map(outbox.map((item) => [item.id, item]));
+  // A queued message is dropped from view as soon as the stored copy has arrived
+  const displayedMessages = mergeMessages(
+    messages,
+    outbox.filter((item) => !messages.some((msg) => msg.id === item.id)),
+  );
+
   return (
     <div className="flex flex-col h-[500px] relative">
 
@@ -399,25 +911,156 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
       {/* Header */}
       <div className="bg-gradient-to-r from-primary/10 to-secondary/10 p-4 border-b flex justify-between items-center">
-        <h3 className="font-semibold">Chat with {otherUserName}</h3>
         <div>
+          <h3 className="font-semibold">Chat with {otherUserName}</h3>
+          <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+            <span className={`inline-block w-2 h-2 rounded-full ${PRESENCE_DOT_CLASSES[otherPresence]}`} />
+            {otherTyping ? 'typing...' : describePresence(otherPresence, otherLastSeenAt)}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            onClick={() => (searchOpen ? closeSearch() : setSearchOpen(true))}
+            size="icon"
+            variant="ghost"
+            title="Search messages"
+          >
+            {searchOpen ? <X className="w-4 h-4" /> : <Search className="w-4 h-4" />}
+          </Button>
           <Button onClick={startCall} size="sm" variant="secondary">
             <Video className="w-4 h-4 mr-2" /> Start Video Call
           </Button>
         </div>
       </div>
 
+      {/* Search */}
+      {searchOpen && (
+        <div className="border-b p-3 space-y-2 bg-card">
+          <form onSubmit={searchMessages} className="flex gap-2">
+            <Input
+              autoFocus
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search this conversation..."
+              className="h-8"
+            />
+            <Button type="submit" size="sm" disabled={searching || !searchQuery.trim()}>
+              {searching ? 'Searching...' : 'Search'}
+            </Button>
+          </form>
+          {searchResults.length > 0 ? (
+            <div className="max-h-32 overflow-y-auto space-y-1">
+              {searchResults.map((hit) => (
+                <button
+                  key={hit.id}
+                  type="button"
+                  onClick={() => jumpToMessage(hit)}
+                  className={`w-full text-left text-xs rounded px-2 py-1 hover:bg-muted ${focusedId === hit.id ? 'bg-muted' : ''}`}
+                >
+                  <span className="text-muted-foreground mr-2">{format(new Date(hit.created_at), 'MMM d, yyyy HH:mm')}</span>
+                  <HighlightedText segments={parseHeadline(hit.headline)} />
+                </button>
+              ))}
+            </div>
+          ) : (
+            searchedFor && <p className="text-xs text-muted-foreground">No messages match "{searchedFor}".</p>
+          )}
+        </div>
+      )}
+
       {/* Messages */}
       <ScrollArea className="flex-1 p-4" ref={scrollAreaRef as any}>
         <div className="space-y-4">
-          {messages.map((msg) => (
-            <div key={msg.id} className={`flex ${msg.sender_id === currentUserId ? 'justify-end' : 'justify-start'}`}>
-              <div className={`max-w-[70%] rounded-lg p-3 ${msg.sender_id === currentUserId ? 'bg-primary text-primary-foreground' : 'bg-muted text-foreground'}`}>
-                <p className="text-sm break-words">{msg.message}</p>
-                <p className="text-xs opacity-70 mt-1">{format(new Date(msg.created_at), 'HH:mm')}</p>
+          {loadingOlder && (
+            <p className="text-xs text-center text-muted-foreground">Loading earlier messages...</p>
+          )}
+          {!hasMore && messages.length > 0 && (
+            <p className="text-xs text-center text-muted-foreground">Beginning of conversation</p>
+          )}
+          {displayedMessages.map((msg) => {
+            const queued = outboxById.get(msg.id);
+            const quoted = msg.reply_to_id
+              ? messages.find((other) => other.id === msg.reply_to_id) ?? replyTargets[msg.reply_to_id]
+              : null;
+
+            return (
+              <div key={msg.id} data-message-id={msg.id} className={`group flex items-start gap-1 ${msg.sender_id === currentUserId ? 'flex-row-reverse' : ''}`}>
+                <div className={`max-w-[70%] rounded-lg p-3 ${msg.sender_id === currentUserId ? 'bg-primary text-primary-foreground' : 'bg-muted text-foreground'} ${focusedId === msg.id ? 'ring-2 ring-amber-400' : ''}`}>
+                  {quoted && (
+                    <button
+                      type="button"
+                      onClick={() => jumpToMessage(quoted)}
+                      className="block w-full text-left text-xs border-l-2 border-current pl-2 mb-2 opacity-80"
+                    >
+                      <span className="font-medium">{quoted.sender_id === currentUserId ? 'You' : otherUserName}</span>
+                      <span className="block truncate">{messagePreview(quoted)}</span>
+                    </button>
+                  )}
+                  {msg.deleted_at ? (
+                    <p className="text-sm italic opacity-70">This message was deleted</p>
+                  ) : msg.attachment_path && (
+                    <ChatAttachment
+                      message={msg}
+                      patientId={currentUserId === doctorId ? patientId : undefined}
+                      doctorId={currentUserId === doctorId ? doctorId : undefined}
+                    />
+                  )}
+                  {msg.message && !msg.deleted_at && (
+                    <p className="text-sm break-words">
+                      <HighlightedText segments={highlightTerms(msg.message, searchTerms)} />
+                    </p>
+                  )}
+                  <p className="text-xs opacity-70 mt-1 flex items-center gap-1 justify-end">
+                    {(msg.edited_at || msg.deleted_at) && (
+                      <MessageHistory messageId={msg.id} label={msg.deleted_at ? 'history' : 'edited'} />
+                    )}
+                    {format(new Date(msg.created_at), 'HH:mm')}
+                    {/* One tick once stored, two once the other participant has read it */}
+                    {queued ? (
+                      queued.status !== 'sending'
+                        ? <AlertCircle className="w-3 h-3" aria-label="Not sent" />
+                        : <Clock className="w-3 h-3" aria-label="Sending" />
+                    ) : msg.sender_id === currentUserId && (
+                      otherLastReadAt && new Date(otherLastReadAt) >= new Date(msg.created_at)
+                        ? <CheckCheck className="w-3 h-3" aria-label="Read" />
+                        : <Check className="w-3 h-3" aria-label="Delivered" />
+                    )}
+                  </p>
+                  {queued && queued.status !== 'sending' && (
+                    <p className="text-xs mt-1 flex items-center gap-2">
+                      {queued.status === 'rejected' ? `Not sent: ${queued.error}` : 'Not sent, retrying automatically.'}
+                      <button type="button" className="underline" onClick={() => retry(queued.id)}>Retry now</button>
+                      <button type="button" className="underline" onClick={() => discard(queued.id)}>Discard</button>
+                    </p>
+                  )}
+                </div>
+                {!msg.deleted_at && !queued && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button size="icon" variant="ghost" className="h-6 w-6 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100">
+                        <MoreVertical className="w-4 h-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align={msg.sender_id === currentUserId ? 'end' : 'start'}>
+                      <DropdownMenuItem onClick={() => startReply(msg)}>
+                        <Reply className="w-4 h-4 mr-2" /> Reply
+                      </DropdownMenuItem>
+                      {canEditMessage(msg, currentUserId) && (
+                        <DropdownMenuItem onClick={() => startEdit(msg)}>
+                          <Pencil className="w-4 h-4 mr-2" /> Edit
+                        </DropdownMenuItem>
+                      )}
+                      {msg.sender_id === currentUserId && (
+                        <DropdownMenuItem className="text-destructive" onClick={() => deleteMessage(msg)}>
+                          <Trash2 className="w-4 h-4 mr-2" /> Delete
+                        </DropdownMenuItem>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       </ScrollArea>
 
@@ -429,21 +1072,116 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
           </Button>
         )} */}
 
+        {(replyTo || editing) && (
+          <div className="flex items-center gap-2 text-sm border-l-2 border-primary pl-2">
+            {editing ? <Pencil className="w-4 h-4 text-muted-foreground" /> : <Reply className="w-4 h-4 text-muted-foreground" />}
+            <span className="truncate flex-1">
+              <span className="font-medium">
+                {editing ? 'Editing message' : `Replying to ${replyTo!.sender_id === currentUserId ? 'yourself' : otherUserName}`}
+              </span>
+              {replyTo && <span className="text-muted-foreground"> · {messagePreview(replyTo)}</span>}
+            </span>
+            <Button size="icon" variant="ghost" className="h-6 w-6" onClick={cancelCompose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+
+        {pendingFile && (
+          <div className="flex items-center gap-2 text-sm">
+            <Paperclip className="w-4 h-4 text-muted-foreground" />
+            <span className="truncate flex-1">
+              {pendingFile.name} <span className="text-muted-foreground">({formatFileSize(pendingFile.size)})</span>
+            </span>
+            {uploadProgress !== null ? (
+              <Progress value={uploadProgress} className="h-2 w-24" />
+            ) : (
+              <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => setPendingFile(null)}>
+                <X className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        )}
+
+        {templateMatches.length > 0 && (
+          <Command
+            shouldFilter={false}
+            value={activeTemplate?.id}
+            onValueChange={(id) => setTemplateIndex(templateMatches.findIndex((t) => t.id === id))}
+            className="border rounded-md h-auto"
+          >
+            <CommandList className="max-h-48">
+              <CommandGroup heading="Quick replies">
+                {templateMatches.map((template) => (
+                  <CommandItem key={template.id} value={template.id} onSelect={() => applyTemplate(template)}>
+                    <span className="font-medium mr-2">/{template.shortcut}</span>
+                    <span className="text-muted-foreground truncate flex-1">{template.title}</span>
+                    {template.doctor_id === null && <span className="text-xs text-muted-foreground ml-2">Clinic</span>}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        )}
+
         <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ATTACHMENT_TYPES.join(',')}
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+          <Button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={loading || !!editing}
+            size="icon"
+            variant="outline"
+            title="Attach a file"
+          >
+            <Paperclip className="w-4 h-4" />
+          </Button>
           <Input
             value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
+            onChange={(e) => {
+              setNewMessage(e.target.value);
+              sendTyping(e.target.value.length > 0);
+              if (!e.target.value.startsWith('/')) setTemplatePickerDismissed(false);
+            }}
+            onBlur={() => newMessage && sendTyping(false)}
             placeholder="Type a message..."
             disabled={loading}
             className="flex-1"
             onKeyDown={(e) => {
+              if (templateMatches.length > 0) {
+                if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                  e.preventDefault();
+                  const step = e.key === 'ArrowDown' ? 1 : -1;
+                  const current = templateMatches.indexOf(activeTemplate);
+                  setTemplateIndex((current + step + templateMatches.length) % templateMatches.length);
+                  return;
+                }
+                if (e.key === 'Enter' || e.key === 'Tab') {
+                  e.preventDefault();
+                  applyTemplate(activeTemplate);
+                  return;
+                }
+                if (e.key === 'Escape') {
+                  // Keep the typed text; a message can start with "/" too
+                  e.preventDefault();
+                  setTemplatePickerDismissed(true);
+                  return;
+                }
+              }
               if (e.key === 'Enter' && !e.shiftKey) {
                 e.preventDefault();
                 sendMessage();
+              } else if (e.key === 'Escape' && (editing || replyTo)) {
+                cancelCompose();
               }
             }}
           />
-          <Button onClick={sendMessage} disabled={loading || !newMessage.trim()} size="icon">
+          <Button onClick={sendMessage} disabled={loading || (!newMessage.trim() && !pendingFile)} size="icon">
             <Send className="w-4 h-4" />
           </Button>
         </div>
@@ -0,0 +1,21 @@
+import type { TextSegment } from '@/lib/chat';
+
+interface HighlightedTextProps {
+  segments: TextSegment[];
+}
+
+const HighlightedText = ({ segments }: HighlightedTextProps) => (
+  <>
+    {segments.map((segment, index) =>
+      segment.hit ? (
+        <mark key={index} className="bg-amber-200 text-foreground rounded-sm px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      ),
+    )}
+  </>
+);
+
+export default HighlightedText;
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { format } from 'date-fns';
+
+interface Revision {
+  id: string;
+  action: string;
+  message: string;
+  attachment_name: string | null;
+  created_at: string;
+}
+
+interface MessageHistoryProps {
+  messageId: string;
+  label: string;
+}
+
+// Earlier versions of an edited or deleted message, loaded when the label is clicked
+const MessageHistory = ({ messageId, label }: MessageHistoryProps) => {
+  const [revisions, setRevisions] = useState<Revision[] | null>(null);
+
+  const handleOpenChange = async (open: boolean) => {
+    if (!open || revisions) return;
+
+    const { data, error } = await supabase
+      .from('message_revisions')
+      .select('id, action, message, attachment_name, created_at')
+      .eq('message_id', messageId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching message history:', error);
+      return;
+    }
+    setRevisions(data || []);
+  };
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button type="button" className="underline underline-offset-2">
+          {label}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-2 text-sm">
+        <p className="font-medium">Message history</p>
+        {revisions === null ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : (
+          revisions.map((revision) => (
+            <div key={revision.id} className="border-l-2 pl-2">
+              <p className="text-xs text-muted-foreground">
+                {revision.action === 'delete' ? 'Deleted' : 'Edited'} {format(new Date(revision.created_at), 'MMM d, HH:mm')}
+                {' · was:'}
+              </p>
+              <p className="break-words">{revision.message || revision.attachment_name}</p>
+            </div>
+          ))
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default MessageHistory;
@@ -0,0 +1,223 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MapPin, Plus, Trash2, Video } from 'lucide-react';
+import { VISIT_MODE_LABELS } from '@/lib/scheduling';
+
+interface AppointmentType {
+  id: string;
+  name: string;
+  description: string | null;
+  duration_minutes: number;
+  price: number;
+  visit_mode: 'in_person' | 'video';
+  is_active: boolean;
+}
+
+interface AppointmentTypesSettingsProps {
+  doctorId: string;
+}
+
+const DURATION_OPTIONS = [15, 20, 30, 45, 60, 90];
+
+const AppointmentTypesSettings = ({ doctorId }: AppointmentTypesSettingsProps) => {
+  const { toast } = useToast();
+  const [types, setTypes] = useState<AppointmentType[]>([]);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [duration, setDuration] = useState('30');
+  const [price, setPrice] = useState('');
+  const [visitMode, setVisitMode] = useState<'in_person' | 'video'>('in_person');
+
+  const fetchTypes = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('appointment_types')
+      .select('id, name, description, duration_minutes, price, visit_mode, is_active')
+      .eq('doctor_id', doctorId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching appointment types:', error);
+      return;
+    }
+    setTypes(data || []);
+  }, [doctorId]);
+
+  useEffect(() => {
+    fetchTypes();
+  }, [fetchTypes]);
+
+  const handleAdd = async () => {
+    const { error } = await supabase.from('appointment_types').insert({
+      doctor_id: doctorId,
+      name,
+      description: description || null,
+      duration_minutes: parseInt(duration, 10),
+      price: parseFloat(price) || 0,
+      visit_mode: visitMode,
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setName('');
+      setDescription('');
+      setPrice('');
+      fetchTypes();
+    }
+  };
+
+  const handleToggleActive = async (typeId: string, isActive: boolean) => {
+    const { error } = await supabase
+      .from('appointment_types')
+      .update({ is_active: isActive })
+      .eq('id', typeId);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      fetchTypes();
+    }
+  };
+
+  const handleDelete = async (typeId: string) => {
+    const { error } = await supabase
+      .from('appointment_types')
+      .delete()
+      .eq('id', typeId);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      fetchTypes();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="border rounded-lg p-4 flex flex-wrap items-end gap-3">
+        <div className="space-y-2 flex-1 min-w-[160px]">
+          <Label htmlFor="type-name">Name</Label>
+          <Input
+            id="type-name"
+            placeholder="e.g. Follow-up"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Duration</Label>
+          <Select value={duration} onValueChange={setDuration}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DURATION_OPTIONS.map((minutes) => (
+                <SelectItem key={minutes} value={String(minutes)}>
+                  {minutes} minutes
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="type-price">Fee ($)</Label>
+          <Input
+            id="type-price"
+            type="number"
+            step="0.01"
+            min="0"
+            className="w-28"
+            placeholder="0.00"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Mode</Label>
+          <Select value={visitMode} onValueChange={(value) => setVisitMode(value as 'in_person' | 'video')}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(VISIT_MODE_LABELS).map(([mode, label]) => (
+                <SelectItem key={mode} value={mode}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2 w-full">
+          <Label htmlFor="type-description">Description (Optional)</Label>
+          <Input
+            id="type-description"
+            placeholder="Shown to patients when booking"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+        </div>
+        <Button variant="outline" onClick={handleAdd} disabled={!name.trim()}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add Type
+        </Button>
+      </div>
+
+      {types.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No appointment types yet. Patients can book a standard slot free of charge.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {types.map((type) => (
+            <div key={type.id} className="border rounded-lg p-3 flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <p className="font-medium flex items-center gap-2">
+                  {type.name}
+                  {!type.is_active && <Badge variant="secondary">Hidden</Badge>}
+                </p>
+                <p className="text-sm text-muted-foreground flex items-center gap-1">
+                  {type.visit_mode === 'video' ? <Video className="w-3 h-3" /> : <MapPin className="w-3 h-3" />}
+                  {VISIT_MODE_LABELS[type.visit_mode]} · {type.duration_minutes} min · ${Number(type.price).toFixed(2)}
+                </p>
+                {type.description && <p className="text-sm text-muted-foreground">{type.description}</p>}
+              </div>
+              <div className="flex items-center gap-3">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={type.is_active}
+                    onCheckedChange={(checked) => handleToggleActive(type.id, checked)}
+                  />
+                  <span className="text-sm">Bookable</span>
+                </div>
+                <Button size="icon" variant="ghost" onClick={() => handleDelete(type.id)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AppointmentTypesSettings;
@@ -0,0 +1,294 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { cn } from '@/lib/utils';
+import { toZonedDateString, toZonedTimeString, zonedTimeToUtc } from '@/lib/timezone';
+
+export interface CalendarAppointment {
+  id: string;
+  appointment_date: string;
+  duration_minutes: number;
+  status: string;
+  title: string;
+}
+
+type CalendarView = 'day' | 'week' | 'month';
+
+interface AppointmentsCalendarProps {
+  appointments: CalendarAppointment[];
+  onSelect: (appointmentId: string) => void;
+  onMove: (appointmentId: string, newDate: Date) => void;
+  timeZone: string;
+}
+
+// Default visible hours in day and week views, split into half-hour rows. The grid
+// stretches to cover any visit in view that starts earlier or ends later.
+const DAY_START_HOUR = 7;
+const DAY_END_HOUR = 21;
+const ROW_MINUTES = 30;
+const ROW_HEIGHT = 28;
+const MAX_EVENTS_PER_DAY = 3;
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-amber-100 border-amber-400 text-amber-900',
+  confirmed: 'bg-primary/15 border-primary text-foreground',
+  completed: 'bg-muted border-muted-foreground/40 text-muted-foreground',
+  cancelled: 'bg-destructive/10 border-destructive/50 text-destructive line-through',
+  late_cancelled: 'bg-destructive/10 border-destructive/50 text-destructive line-through',
+  no_show: 'bg-destructive/10 border-destructive/50 text-destructive',
+};
+
+const isMovable = (status: string) => status === 'pending' || status === 'confirmed';
+
+const toClock = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+// Days in the grid are plain calendar dates; appointments are placed on them by
+// their wall-clock date and time in the given zone, not the browser's
+const AppointmentsCalendar = ({ appointments, onSelect, onMove, timeZone }: AppointmentsCalendarProps) => {
+  const today = () => parseISO(toZonedDateString(new Date(), timeZone));
+
+  const [view, setView] = useState<CalendarView>('week');
+  const [cursor, setCursor] = useState(today);
+
+  const dayKey = (day: Date) => format(day, 'yyyy-MM-dd');
+  const todayKey = toZonedDateString(new Date(), timeZone);
+  const dateKeyOf = (apt: CalendarAppointment) => toZonedDateString(new Date(apt.appointment_date), timeZone);
+  const startMinutesOf = (apt: CalendarAppointment) => {
+    const [hours, minutes] = toZonedTimeString(new Date(apt.appointment_date), timeZone).split(':').map(Number);
+    return hours * 60 + minutes;
+  };
+
+  const days =
+    view === 'day'
+      ? [cursor]
+      : view === 'week'
+        ? eachDayOfInterval({ start: startOfWeek(cursor), end: endOfWeek(cursor) })
+        : eachDayOfInterval({
+            start: startOfWeek(startOfMonth(cursor)),
+            end: endOfWeek(endOfMonth(cursor)),
+          });
+
+  const appointmentsOn = (day: Date) =>
+    appointments
+      .filter((apt) => dateKeyOf(apt) === dayKey(day))
+      .sort((a, b) => new Date(a.appointment_date).getTime() - new Date(b.appointment_date).getTime());
+
+  const inView = days.flatMap(appointmentsOn);
+  const startHour = Math.min(DAY_START_HOUR, ...inView.map((apt) => Math.floor(startMinutesOf(apt) / 60)));
+  const endHour = Math.min(
+    24,
+    Math.max(DAY_END_HOUR, ...inView.map((apt) => Math.ceil((startMinutesOf(apt) + apt.duration_minutes) / 60)))
+  );
+  const rows = Array.from(
+    { length: ((endHour - startHour) * 60) / ROW_MINUTES },
+    (_, i) => startHour * 60 + i * ROW_MINUTES
+  );
+
+  const navigate = (direction: 1 | -1) => {
+    if (view === 'day') setCursor((c) => addDays(c, direction));
+    else if (view === 'week') setCursor((c) => addWeeks(c, direction));
+    else setCursor((c) => addMonths(c, direction));
+  };
+
+  const title =
+    view === 'day'
+      ? format(cursor, 'EEEE, PPP')
+      : view === 'week'
+        ? `${format(days[0], 'MMM d')} - ${format(days[days.length - 1], 'MMM d, yyyy')}`
+        : format(cursor, 'MMMM yyyy');
+
+  const handleDragStart = (e: React.DragEvent, apt: CalendarAppointment) => {
+    e.dataTransfer.setData('text/plain', apt.id);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  // Without a time the appointment keeps its wall-clock time on the new day
+  const handleDrop = (e: React.DragEvent, day: Date, time?: string) => {
+    e.preventDefault();
+    const appointmentId = e.dataTransfer.getData('text/plain');
+    const apt = appointments.find((a) => a.id === appointmentId);
+    if (!apt) return;
+
+    const newDate = zonedTimeToUtc(
+      dayKey(day),
+      time ?? toZonedTimeString(new Date(apt.appointment_date), timeZone),
+      timeZone
+    );
+
+    if (newDate.getTime() !== new Date(apt.appointment_date).getTime()) {
+      onMove(apt.id, newDate);
+    }
+  };
+
+  const renderEvent = (apt: CalendarAppointment, compact: boolean) => (
+    <button
+      key={apt.id}
+      type="button"
+      draggable={isMovable(apt.status)}
+      onDragStart={(e) => handleDragStart(e, apt)}
+      onClick={() => onSelect(apt.id)}
+      className={cn(
+        'w-full text-left text-xs rounded border-l-4 px-1.5 py-0.5 overflow-hidden',
+        STATUS_STYLES[apt.status] || STATUS_STYLES.pending,
+        isMovable(apt.status) ? 'cursor-grab' : 'cursor-pointer',
+        !compact && 'absolute inset-x-1 z-10'
+      )}
+      style={
+        compact
+          ? undefined
+          : {
+              top: ((startMinutesOf(apt) % ROW_MINUTES) / ROW_MINUTES) * ROW_HEIGHT,
+              height: Math.max(1, apt.duration_minutes / ROW_MINUTES) * ROW_HEIGHT - 2,
+            }
+      }
+    >
+      <span className="font-medium">{toZonedTimeString(new Date(apt.appointment_date), timeZone)}</span> {apt.title}
+    </button>
+  );
+
+  const renderTimeGrid = () => (
+    <div className="border rounded-lg overflow-x-auto">
+      <div className="grid min-w-[640px]" style={{ gridTemplateColumns: `64px repeat(${days.length}, minmax(0, 1fr))` }}>
+        <div className="border-b" />
+        {days.map((day) => (
+          <div
+            key={day.toISOString()}
+            className={cn('border-b border-l p-2 text-center text-sm', dayKey(day) === todayKey && 'bg-primary/5 font-semibold')}
+          >
+            {format(day, view === 'day' ? 'EEEE d' : 'EEE d')}
+          </div>
+        ))}
+
+        {rows.map((rowStart) => (
+          <div key={rowStart} className="contents">
+            <div className="pr-2 text-right text-xs text-muted-foreground border-b" style={{ height: ROW_HEIGHT }}>
+              {rowStart % 60 === 0 && toClock(rowStart)}
+            </div>
+            {days.map((day) => {
+              const starting = appointmentsOn(day).filter((apt) => {
+                const start = startMinutesOf(apt);
+                return start >= rowStart && start < rowStart + ROW_MINUTES;
+              });
+
+              return (
+                <div
+                  key={day.toISOString()}
+                  className="relative border-b border-l hover:bg-muted/40"
+                  style={{ height: ROW_HEIGHT }}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => handleDrop(e, day, toClock(rowStart))}
+                >
+                  {starting.map((apt) => renderEvent(apt, false))}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderMonthGrid = () => (
+    <div className="border rounded-lg overflow-hidden">
+      <div className="grid grid-cols-7">
+        {days.slice(0, 7).map((day) => (
+          <div key={day.toISOString()} className="border-b p-2 text-center text-sm font-medium">
+            {format(day, 'EEE')}
+          </div>
+        ))}
+        {days.map((day) => {
+          const dayAppointments = appointmentsOn(day);
+          return (
+            <div
+              key={day.toISOString()}
+              className={cn(
+                'min-h-[96px] border-b border-l p-1 space-y-1',
+                !isSameMonth(day, cursor) && 'bg-muted/30 text-muted-foreground'
+              )}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => handleDrop(e, day)}
+            >
+              <button
+                type="button"
+                className={cn('text-xs px-1 rounded', dayKey(day) === todayKey && 'bg-primary text-primary-foreground')}
+                onClick={() => {
+                  setCursor(day);
+                  setView('day');
+                }}
+              >
+                {format(day, 'd')}
+              </button>
+              {dayAppointments.slice(0, MAX_EVENTS_PER_DAY).map((apt) => renderEvent(apt, true))}
+              {dayAppointments.length > MAX_EVENTS_PER_DAY && (
+                <p className="text-xs text-muted-foreground px-1">
+                  +{dayAppointments.length - MAX_EVENTS_PER_DAY} more
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button size="icon" variant="outline" onClick={() => navigate(-1)}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setCursor(today())}>
+            Today
+          </Button>
+          <Button size="icon" variant="outline" onClick={() => navigate(1)}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <h3 className="font-semibold ml-2">{title}</h3>
+        </div>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={view}
+          onValueChange={(value) => value && setView(value as CalendarView)}
+        >
+          <ToggleGroupItem value="day">Day</ToggleGroupItem>
+          <ToggleGroupItem value="week">Week</ToggleGroupItem>
+          <ToggleGroupItem value="month">Month</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-xs">
+        {Object.entries(STATUS_STYLES).map(([status, classes]) => (
+          <span key={status} className={cn('rounded border-l-4 px-2 py-0.5 capitalize', classes)}>
+            {status}
+          </span>
+        ))}
+      </div>
+
+      {view === 'month' ? renderMonthGrid() : renderTimeGrid()}
+
+      <p className="text-xs text-muted-foreground">
+        Drag a pending or confirmed appointment to propose a new time to the patient.
+      </p>
+    </div>
+  );
+};
+
+export default AppointmentsCalendar;
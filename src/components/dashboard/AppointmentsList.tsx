@@ -4,39 +4,131 @@ import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { format } from 'date-fns';
-import { CheckCircle2, XCircle, Calendar, User, DollarSign } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { CheckCircle2, XCircle, Calendar, CalendarDays, List, User, DollarSign, CalendarClock, Download, UserX, MapPin, Video, Repeat, ShieldCheck, Image } from 'lucide-react';
 import AddConsultationDialog from './AddConsultationDialog';
+import RescheduleDialog from './RescheduleDialog';
+import AppointmentsCalendar from './AppointmentsCalendar';
+import CalendarFeedDialog from './CalendarFeedDialog';
+import CancelAppointmentDialog from './CancelAppointmentDialog';
+import PatientReliability from './PatientReliability';
+import InvoiceDialog from './InvoiceDialog';
+import RefundDialog from './RefundDialog';
+import InsuranceClaimDialog from './InsuranceClaimDialog';
+import InsuranceVerifyDialog from './InsuranceVerifyDialog';
+import { VISIT_MODE_LABELS, type CancellationPolicy } from '@/lib/scheduling';
+import { formatInTimeZone, isSameOffset } from '@/lib/timezone';
+import { SCOPE_LABELS, type SeriesScope } from '@/lib/recurrence';
+import { formatMoney } from '@/lib/invoice';
+import {
+  BILLING_METHOD_LABELS,
+  CLAIM_STATUS_VARIANTS,
+  PAYMENT_KIND_LABELS,
+  describePolicy,
+  openInsuranceCard,
+  type BillingMethod,
+  type ClaimStatus,
+} from '@/lib/insurance';
+import { appointmentIcsStatus, appointmentSequence, appointmentUid, buildCalendar, downloadIcs } from '@/lib/ics';
 import ChatDialog from '../chat/ChatDialog';
 import { useNavigate } from 'react-router-dom';
 
+interface Refund {
+  id: string;
+  amount: number;
+  status: string;
+  reason: string;
+  failure_reason: string | null;
+  created_at: string;
+}
+
 interface Payment {
   id: string;
   amount: number;
   status: string;
+  kind: string;
+  overdue_at: string | null;
+  discount_code: string | null;
+  discount_amount: number;
+  refunds: Refund[];
+}
+
+interface InsuranceClaim {
+  id: string;
+  status: ClaimStatus;
+  claim_reference: string | null;
+  amount_claimed: number;
+  amount_approved: number | null;
+  amount_paid: number | null;
+  denial_reason: string | null;
+}
+
+interface RescheduleProposal {
+  id: string;
+  proposed_by: string;
+  previous_date: string;
+  proposed_date: string;
+  message: string | null;
+  status: string;
+  scope: string;
+  created_at: string;
 }
 
 interface Appointment {
   id: string;
   appointment_date: string;
+  duration_minutes: number;
   reason: string;
   status: string;
+  visit_mode: string;
+  series_id: string | null;
+  series_index: number | null;
+  billing_method: BillingMethod;
+  insurance_amount: number | null;
+  created_at: string;
+  updated_at: string;
   patient_id: string;
   doctor_id: string;
-  patient: { full_name: string };
-  doctor: { full_name: string };
+  patient: { full_name: string; time_zone: string };
+  doctor: { full_name: string; time_zone: string; cancellation_policy: CancellationPolicy | null };
+  appointment_type: { name: string } | null;
+  insurance_policy: {
+    payer_name: string;
+    plan_name: string | null;
+    member_id: string;
+    group_number: string | null;
+    card_image_path: string | null;
+    coverage_percent: number;
+    copay_amount: number;
+    verified_at: string | null;
+  } | null;
+  insurance_claim: InsuranceClaim | null;
   payments?: Payment[];
+  reschedule_proposals?: RescheduleProposal[];
 }
 
+const PAYMENT_BADGE_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  paid: 'default',
+  failed: 'destructive',
+  refunded: 'outline',
+  partially_refunded: 'outline',
+};
+
 interface AppointmentsListProps {
   userId: string;
   role: 'patient' | 'doctor';
+  timeZone: string;
 }
 
-const AppointmentsList = ({ userId, role }: AppointmentsListProps) => {
+const AppointmentsList = ({ userId, role, timeZone }: AppointmentsListProps) => {
   const { toast } = useToast();
   const navigate = useNavigate();
   const [appointments, setAppointments] = useState<Appointment[]>([]);
   const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<'list' | 'calendar'>('list');
+  const [selectedAppointmentId, setSelectedAppointmentId] = useState<string | null>(null);
+  const [payingId, setPayingId] = useState<string | null>(null);
 
   const fetchAppointments = async () => {
     const query = supabase
@@ -44,13 +136,25 @@ const AppointmentsList = ({ userId, role }: AppointmentsListProps) => {
       .select(`
         id,
         appointment_date,
+        duration_minutes,
         reason,
         status,
+        visit_mode,
+        series_id,
+        series_index,
+        billing_method,
+        insurance_amount,
+        created_at,
+        updated_at,
         patient_id,
         doctor_id,
-        patient:profiles!appointments_patient_id_fkey(full_name),
-        doctor:profiles!appointments_doctor_id_fkey(full_name),
-        payments(id, amount, status)
+        appointment_type:appointment_types(name),
+        insurance_policy:insurance_policies(payer_name, plan_name, member_id, group_number, card_image_path, coverage_percent, copay_amount, verified_at),
+        insurance_claim:insurance_claims(id, status, claim_reference, amount_claimed, amount_approved, amount_paid, denial_reason),
+        patient:profiles!appointments_patient_id_fkey(full_name, time_zone),
+        doctor:profiles!appointments_doctor_id_fkey(full_name, time_zone, cancellation_policy:cancellation_policies(cutoff_hours, late_cancel_fee, late_refund_percent)),
+        payments(id, amount, status, kind, overdue_at, discount_code, discount_amount, refunds(id, amount, status, reason, failure_reason, created_at)),
+        reschedule_proposals:appointment_reschedule_proposals(id, proposed_by, previous_date, proposed_date, message, status, scope, created_at)
       `)
       .order('appointment_date', { ascending: false });
 
@@ -91,6 +195,50 @@ const AppointmentsList = ({ userId, role }: AppointmentsListProps) => {
           fetchAppointments();
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'appointment_reschedule_proposals',
+        },
+        () => {
+          fetchAppointments();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'payments',
+        },
+        () => {
+          fetchAppointments();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'refunds',
+        },
+        () => {
+          fetchAppointments();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'insurance_claims',
+        },
+        () => {
+          fetchAppointments();
+        }
+      )
       .subscribe();
 
     return () => {
@@ -125,11 +273,16 @@ const AppointmentsList = ({ userId, role }: AppointmentsListProps) => {
     }
   };
 
-  const handleCancel = async (appointmentId: string, otherUserId: string) => {
-    const { error } = await supabase
-      .from('appointments')
-      .update({ status: 'cancelled' })
-      .eq('id', appointmentId);
+  const handleCancel = async (appointmentId: string, otherUserId: string, reason = '', scope: SeriesScope = 'this') => {
+    if (scope !== 'this') {
+      await handleCancelSeries(appointmentId, otherUserId, reason, scope);
+      return;
+    }
+
+    const { data: status, error } = await supabase.rpc('cancel_appointment', {
+      _appointment_id: appointmentId,
+      _reason: reason || null,
+    });
 
     if (error) {
       toast({
@@ -138,38 +291,132 @@ const AppointmentsList = ({ userId, role }: AppointmentsListProps) => {
         variant: 'destructive',
       });
     } else {
+      const late = status === 'late_cancelled';
+
       await supabase.from('notifications').insert({
         user_id: otherUserId,
-        title: 'Appointment Cancelled',
-        message: 'An appointment has been cancelled',
+        title: late ? 'Late Cancellation' : 'Appointment Cancelled',
+        message: `${late ? 'An appointment was cancelled inside the cancellation window' : 'An appointment has been cancelled'}${reason ? `: ${reason}` : ''}`,
       });
 
       toast({
         title: 'Success',
-        description: 'Appointment cancelled',
+        description: late ? 'Appointment cancelled. A late cancellation policy applies.' : 'Appointment cancelled',
       });
       fetchAppointments();
     }
   };
 
-  const handleSendPaymentRequest = async (appointmentId: string, patientId: string, amount: number) => {
-    await supabase.from('notifications').insert({
-      user_id: patientId,
-      title: 'Payment Request',
-      message: `Your doctor has requested a payment of $${amount.toFixed(2)} for your appointment. Please complete the payment.`,
+  const handleCancelSeries = async (appointmentId: string, otherUserId: string, reason: string, scope: SeriesScope) => {
+    const { data: count, error } = await supabase.rpc('cancel_appointment_series', {
+      _appointment_id: appointmentId,
+      _scope: scope,
+      _reason: reason || null,
     });
 
-    toast({
-      title: 'Success',
-      description: 'Payment request sent to patient',
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      await supabase.from('notifications').insert({
+        user_id: otherUserId,
+        title: 'Recurring Appointments Cancelled',
+        message: `${count} appointments in a recurring series have been cancelled${reason ? `: ${reason}` : ''}`,
+      });
+
+      toast({
+        title: 'Success',
+        description: `${count} appointments cancelled`,
+      });
+      fetchAppointments();
+    }
+  };
+
+  const handleMarkNoShow = async (appointmentId: string, patientId: string) => {
+    const { error } = await supabase.rpc('mark_no_show', { _appointment_id: appointmentId });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      await supabase.from('notifications').insert({
+        user_id: patientId,
+        title: 'Missed Appointment',
+        message: 'You were marked as a no-show for your appointment',
+      });
+
+      toast({
+        title: 'Success',
+        description: 'Appointment marked as no-show',
+      });
+      fetchAppointments();
+    }
+  };
+
+  // What is still owed back on a payment, counting refunds already on their way
+  const refundableOf = (payment: Payment) =>
+    payment.status === 'paid' || payment.status === 'partially_refunded'
+      ? payment.amount -
+        payment.refunds.filter((r) => r.status !== 'failed').reduce((sum, r) => sum + Number(r.amount), 0)
+      : 0;
+
+  const otherTimeZoneOf = (apt: Appointment) => (role === 'patient' ? apt.doctor.time_zone : apt.patient.time_zone);
+
+  const handleRespondToProposal = async (apt: Appointment, proposal: RescheduleProposal, accept: boolean) => {
+    const { error } = await supabase.rpc('respond_to_reschedule_proposal', {
+      _proposal_id: proposal.id,
+      _accept: accept,
     });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      await supabase.from('notifications').insert({
+        user_id: proposal.proposed_by,
+        title: accept ? 'Reschedule Accepted' : 'Reschedule Declined',
+        message: accept
+          ? `Your appointment has been moved to ${formatInTimeZone(proposal.proposed_date, otherTimeZoneOf(apt))}`
+          : `Your request to move the appointment to ${formatInTimeZone(proposal.proposed_date, otherTimeZoneOf(apt))} was declined`,
+      });
+
+      toast({
+        title: 'Success',
+        description: accept ? 'Appointment rescheduled' : 'Proposal declined',
+      });
+      fetchAppointments();
+    }
   };
 
-  const handleMarkPaymentCompleted = async (paymentId: string, doctorId: string) => {
-    const { error } = await supabase
-      .from('payments')
-      .update({ status: 'paid' })
-      .eq('id', paymentId);
+  // Moving an appointment on the calendar goes through the same proposal handshake
+  const handleCalendarMove = async (appointmentId: string, newDate: Date) => {
+    const apt = appointments.find((a) => a.id === appointmentId);
+    if (!apt) return;
+
+    if (newDate < new Date()) {
+      toast({
+        title: 'Error',
+        description: 'Appointments cannot be moved into the past',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const { error } = await supabase.from('appointment_reschedule_proposals').insert({
+      appointment_id: apt.id,
+      proposed_by: userId,
+      previous_date: apt.appointment_date,
+      proposed_date: newDate.toISOString(),
+    });
 
     if (error) {
       toast({
@@ -179,160 +426,539 @@ const AppointmentsList = ({ userId, role }: AppointmentsListProps) => {
       });
     } else {
       await supabase.from('notifications').insert({
-        user_id: doctorId,
-        title: 'Payment Completed',
-        message: 'A patient has marked their payment as completed',
+        user_id: role === 'patient' ? apt.doctor_id : apt.patient_id,
+        title: 'Reschedule Requested',
+        message: `A new time of ${formatInTimeZone(newDate, otherTimeZoneOf(apt))} was proposed for your appointment on ${formatInTimeZone(apt.appointment_date, otherTimeZoneOf(apt))}`,
       });
 
       toast({
         title: 'Success',
-        description: 'Payment marked as completed',
+        description: 'New time proposed - waiting for the patient to accept',
       });
       fetchAppointments();
     }
   };
 
+  const handleViewInsuranceCard = async (path: string) => {
+    try {
+      await openInsuranceCard(path);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Could not open the card image',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDownloadIcs = (apt: Appointment) => {
+    const start = new Date(apt.appointment_date);
+    const otherName = role === 'patient' ? `Dr. ${apt.doctor.full_name}` : apt.patient.full_name;
+
+    downloadIcs(
+      `appointment-${format(start, 'yyyy-MM-dd-HHmm')}.ics`,
+      buildCalendar([
+        {
+          uid: appointmentUid(apt.id),
+          start,
+          end: new Date(start.getTime() + apt.duration_minutes * 60 * 1000),
+          summary: `Appointment with ${otherName}`,
+          description: apt.reason,
+          status: appointmentIcsStatus(apt.status),
+          sequence: appointmentSequence(apt.created_at, apt.updated_at),
+          lastModified: new Date(apt.updated_at),
+        },
+      ])
+    );
+  };
+
+  const handleSendPaymentRequest = async (appointmentId: string, patientId: string, amount: number) => {
+    await supabase.from('notifications').insert({
+      user_id: patientId,
+      title: 'Payment Request',
+      message: `Your doctor has requested a payment of $${amount.toFixed(2)} for your appointment. Please complete the payment.`,
+    });
+
+    toast({
+      title: 'Success',
+      description: 'Payment request sent to patient',
+    });
+  };
+
+  // Payments are settled by the provider's webhook; this only sends the patient to checkout
+  const handlePay = async (paymentId: string) => {
+    setPayingId(paymentId);
+    const { data, error } = await supabase.functions.invoke('create-checkout', {
+      body: { paymentId, returnUrl: window.location.href },
+    });
+
+    if (error || !data?.url) {
+      toast({
+        title: 'Error',
+        description: data?.error || error?.message || 'Could not start checkout',
+        variant: 'destructive',
+      });
+      setPayingId(null);
+      return;
+    }
+
+    window.location.assign(data.url);
+  };
+
   const getStatusBadge = (status: string) => {
     const variants: Record<string, any> = {
       pending: 'secondary',
       confirmed: 'default',
       completed: 'outline',
       cancelled: 'destructive',
+      no_show: 'destructive',
+      late_cancelled: 'destructive',
     };
+    const label = status.replace('_', ' ');
 
     return (
       <Badge variant={variants[status] || 'secondary'}>
-        {status.charAt(0).toUpperCase() + status.slice(1)}
+        {label.charAt(0).toUpperCase() + label.slice(1)}
       </Badge>
     );
   };
 
-  if (loading) {
-    return <div className="text-center py-4">Loading appointments...</div>;
-  }
+  const renderReschedule = (apt: Appointment) => {
+    const proposals = [...(apt.reschedule_proposals || [])].sort(
+      (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+    );
+    const openProposal = proposals.find((p) => p.status === 'pending');
+    const history = proposals.filter((p) => p.status !== 'pending');
+    const otherUserId = role === 'patient' ? apt.doctor_id : apt.patient_id;
+    const canReschedule = apt.status === 'pending' || apt.status === 'confirmed';
+
+    if (!canReschedule && history.length === 0) return null;
 
-  if (appointments.length === 0) {
     return (
-      <div className="text-center py-8 text-muted-foreground">
-        <Calendar className="w-12 h-12 mx-auto mb-2 opacity-50" />
-        <p>No appointments found</p>
+      <div className="space-y-2">
+        {canReschedule && openProposal && (
+          <div className="rounded-md border border-primary/20 bg-primary/5 p-3 space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <CalendarClock className="w-4 h-4 text-primary" />
+              {openProposal.proposed_by === userId
+                ? `You proposed ${formatInTimeZone(openProposal.proposed_date, timeZone)} - waiting for a response`
+                : `New time proposed: ${formatInTimeZone(openProposal.proposed_date, timeZone)}`}
+            </div>
+            {openProposal.scope !== 'this' && (
+              <p className="text-xs text-muted-foreground">Applies to: {SCOPE_LABELS[openProposal.scope as SeriesScope].toLowerCase()}</p>
+            )}
+            {openProposal.message && (
+              <p className="text-sm text-muted-foreground">"{openProposal.message}"</p>
+            )}
+            {openProposal.proposed_by !== userId && (
+              <div className="flex gap-2 flex-wrap">
+                <Button size="sm" onClick={() => handleRespondToProposal(apt, openProposal, true)}>
+                  <CheckCircle2 className="w-4 h-4 mr-1" />
+                  Accept
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => handleRespondToProposal(apt, openProposal, false)}>
+                  <XCircle className="w-4 h-4 mr-1" />
+                  Decline
+                </Button>
+                <RescheduleDialog
+                  appointmentId={apt.id}
+                  appointmentDate={apt.appointment_date}
+                  doctorId={apt.doctor_id}
+                  durationMinutes={apt.duration_minutes}
+                  currentUserId={userId}
+                  otherUserId={otherUserId}
+                  doctorTimeZone={apt.doctor.time_zone}
+                  viewerTimeZone={timeZone}
+                  otherTimeZone={otherTimeZoneOf(apt)}
+                  isCounter
+                  isSeries={!!apt.series_id}
+                  onProposed={fetchAppointments}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {canReschedule && !openProposal && (
+          <RescheduleDialog
+            appointmentId={apt.id}
+            appointmentDate={apt.appointment_date}
+            doctorId={apt.doctor_id}
+            durationMinutes={apt.duration_minutes}
+            currentUserId={userId}
+            otherUserId={otherUserId}
+            doctorTimeZone={apt.doctor.time_zone}
+            viewerTimeZone={timeZone}
+            otherTimeZone={otherTimeZoneOf(apt)}
+            isSeries={!!apt.series_id}
+            onProposed={fetchAppointments}
+          />
+        )}
+
+        {history.length > 0 && (
+          <details className="text-xs text-muted-foreground">
+            <summary className="cursor-pointer">Reschedule history ({history.length})</summary>
+            <ul className="mt-2 space-y-1">
+              {history.map((p) => (
+                <li key={p.id}>
+                  {format(new Date(p.created_at), 'PP')}: {p.proposed_by === userId ? 'You' : 'They'} proposed{' '}
+                  {formatInTimeZone(p.proposed_date, timeZone)} (was {formatInTimeZone(p.previous_date, timeZone)}) - {p.status}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
       </div>
     );
-  }
+  };
 
-  return (
-    <div className="space-y-4">
-      {appointments.map((apt) => (
-        <div key={apt.id} className="border rounded-lg p-4 space-y-3">
-          <div className="flex justify-between items-start">
-            <div className="space-y-1">
-              <div className="flex items-center gap-2">
-                <User className="w-4 h-4 text-muted-foreground" />
-                <span className="font-medium">
-                  {role === 'patient' ? `Dr. ${apt.doctor.full_name}` : apt.patient.full_name}
-                </span>
-              </div>
-              <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                <Calendar className="w-4 h-4" />
-                {format(new Date(apt.appointment_date), 'PPpp')}
-              </div>
+  const renderAppointmentCard = (apt: Appointment) => {
+    const isUnpaid = (p: Payment) => p.status === 'pending' || p.status === 'failed';
+    const pendingPayment = apt.payments?.find((p) => (p.kind === 'visit' || p.kind === 'copay') && isUnpaid(p));
+    const pendingFee = apt.payments?.find((p) => p.kind === 'late_cancellation_fee' && isUnpaid(p));
+    const refundableVisitAmount = (apt.payments || [])
+      .filter((p) => p.kind === 'visit' || p.kind === 'copay')
+      .reduce((sum, p) => sum + refundableOf(p), 0);
+    const slotEnded =
+      new Date(apt.appointment_date).getTime() + apt.duration_minutes * 60 * 1000 < Date.now();
+
+    return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <div className="flex justify-between items-start">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <User className="w-4 h-4 text-muted-foreground" />
+            <span className="font-medium">
+              {role === 'patient' ? `Dr. ${apt.doctor.full_name}` : apt.patient.full_name}
+            </span>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Calendar className="w-4 h-4" />
+            {formatInTimeZone(apt.appointment_date, timeZone)}
+          </div>
+          {!isSameOffset(timeZone, otherTimeZoneOf(apt), new Date(apt.appointment_date)) && (
+            <div className="text-xs text-muted-foreground pl-6">
+              {formatInTimeZone(apt.appointment_date, otherTimeZoneOf(apt))} for{' '}
+              {role === 'patient' ? `Dr. ${apt.doctor.full_name}` : apt.patient.full_name}
             </div>
-            {getStatusBadge(apt.status)}
+          )}
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            {apt.visit_mode === 'video' ? <Video className="w-4 h-4" /> : <MapPin className="w-4 h-4" />}
+            {apt.appointment_type ? `${apt.appointment_type.name} · ` : ''}
+            {VISIT_MODE_LABELS[apt.visit_mode]} · {apt.duration_minutes} min
           </div>
-
-          <p className="text-sm">{apt.reason}</p>
-
-          {apt.payments && apt.payments.length > 0 && (
-            <div className="flex items-center gap-2 text-sm">
-              <DollarSign className="w-4 h-4 text-muted-foreground" />
-              <span>Payment: ${apt.payments[0].amount.toFixed(2)}</span>
-              <Badge variant={apt.payments[0].status === 'completed' ? 'default' : 'secondary'}>
-                {apt.payments[0].status}
-              </Badge>
+          {apt.series_id && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Repeat className="w-4 h-4" />
+              Recurring{apt.series_index ? ` · #${apt.series_index}` : ''}
             </div>
           )}
+        </div>
+        {getStatusBadge(apt.status)}
+      </div>
 
-          {role === 'doctor' && apt.status === 'pending' && (
-            <div className="flex gap-2">
-              <Button
-                size="sm"
-                onClick={() => handleConfirm(apt.id, apt.patient_id)}
-                className="flex-1"
-              >
-                <CheckCircle2 className="w-4 h-4 mr-1" />
-                Confirm
-              </Button>
+      <p className="text-sm">{apt.reason}</p>
+
+      {renderReschedule(apt)}
+
+      {(apt.status === 'pending' || apt.status === 'confirmed') && (
+        <Button size="sm" variant="ghost" onClick={() => handleDownloadIcs(apt)}>
+          <Download className="w-4 h-4 mr-1" />
+          Add to Calendar (.ics)
+        </Button>
+      )}
+
+      {apt.billing_method !== 'self_pay' && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 text-sm flex-wrap">
+            <ShieldCheck className="w-4 h-4 text-muted-foreground" />
+            <span>
+              {BILLING_METHOD_LABELS[apt.billing_method]}
+              {apt.insurance_amount !== null ? `: ${formatMoney(Number(apt.insurance_amount))} billed to insurer` : ''}
+            </span>
+            <Badge variant={apt.insurance_claim ? CLAIM_STATUS_VARIANTS[apt.insurance_claim.status] : 'outline'}>
+              {apt.insurance_claim ? `claim ${apt.insurance_claim.status}` : 'claim not submitted'}
+            </Badge>
+            {apt.insurance_policy && !apt.insurance_policy.verified_at && (
+              <Badge variant="outline">coverage unverified</Badge>
+            )}
+            {role === 'doctor' && apt.insurance_policy?.card_image_path && (
               <Button
                 size="sm"
-                variant="destructive"
-                onClick={() => handleCancel(apt.id, apt.patient_id)}
-                className="flex-1"
+                variant="ghost"
+                className="h-7 px-2"
+                onClick={() => handleViewInsuranceCard(apt.insurance_policy!.card_image_path!)}
               >
-                <XCircle className="w-4 h-4 mr-1" />
-                Cancel
+                <Image className="w-4 h-4 mr-1" />
+                Card
               </Button>
+            )}
+            {role === 'doctor' &&
+              apt.insurance_policy &&
+              !apt.insurance_claim &&
+              ['pending', 'confirmed', 'completed'].includes(apt.status) && (
+                <InsuranceVerifyDialog appointmentId={apt.id} policy={apt.insurance_policy} onUpdated={fetchAppointments} />
+              )}
+            {role === 'doctor' &&
+              (apt.status === 'confirmed' || apt.status === 'completed') &&
+              Number(apt.insurance_amount) > 0 && (
+                <InsuranceClaimDialog
+                  appointmentId={apt.id}
+                  insuranceAmount={Number(apt.insurance_amount)}
+                  claim={apt.insurance_claim}
+                  onUpdated={fetchAppointments}
+                />
+              )}
+          </div>
+          {apt.insurance_policy && (
+            <div className="pl-6 text-xs text-muted-foreground">
+              {describePolicy(apt.insurance_policy)}
+              {apt.insurance_policy.group_number ? ` · Group ${apt.insurance_policy.group_number}` : ''}
+              {apt.insurance_claim?.claim_reference ? ` · Claim ${apt.insurance_claim.claim_reference}` : ''}
             </div>
           )}
-
-          {role === 'doctor' && apt.status === 'confirmed' && (
-            <div className="flex gap-2 flex-wrap">
-              <AddConsultationDialog appointmentId={apt.id} onConsultationAdded={fetchAppointments} />
-              <ChatDialog
-                appointmentId={apt.id}
-                patientId={apt.patient_id}
-                doctorId={apt.doctor_id}
-                currentUserId={userId}
-                otherUserName={apt.patient.full_name}
-                variant="outline"
-              />
-              {apt.payments && apt.payments.length > 0 && apt.payments[0].status === 'pending' && (
-                <Button
-                  size="sm"
-                  variant="outline"
-                  onClick={() => handleSendPaymentRequest(apt.id, apt.patient_id, apt.payments![0].amount)}
-                >
-                  <DollarSign className="w-4 h-4 mr-1" />
-                  Send Payment Request
-                </Button>
-              )}
+          {apt.insurance_claim?.amount_approved != null && (
+            <div className="pl-6 text-xs text-muted-foreground">
+              Approved {formatMoney(Number(apt.insurance_claim.amount_approved))}
+              {apt.insurance_claim.amount_paid != null ? ` · Paid ${formatMoney(Number(apt.insurance_claim.amount_paid))}` : ''}
             </div>
           )}
-
-          {role === 'patient' && apt.status === 'confirmed' && (
-            <div className="flex gap-2 flex-wrap">
-              <ChatDialog
-                appointmentId={apt.id}
-                patientId={apt.patient_id}
-                doctorId={apt.doctor_id}
-                currentUserId={userId}
-                otherUserName={`Dr. ${apt.doctor.full_name}`}
-                onBookGeneralPhysician={() => navigate('/dashboard')}
-              />
-              {apt.payments && apt.payments.length > 0 && apt.payments[0].status === 'pending' && (
-                <Button
-                  size="sm"
-                  variant="default"
-                  onClick={() => handleMarkPaymentCompleted(apt.payments![0].id, apt.doctor_id)}
-                >
-                  <DollarSign className="w-4 h-4 mr-1" />
-                  Mark Payment as Completed
-                </Button>
+          {apt.insurance_claim?.status === 'denied' && apt.insurance_claim.denial_reason && (
+            <div className="pl-6 text-xs text-destructive">Denied: {apt.insurance_claim.denial_reason}</div>
+          )}
+        </div>
+      )}
+
+      {apt.payments?.map((payment) => (
+        <div key={payment.id} className="space-y-1">
+          <div className="flex items-center gap-2 text-sm">
+            <DollarSign className="w-4 h-4 text-muted-foreground" />
+            <span>
+              {PAYMENT_KIND_LABELS[payment.kind] ?? 'Payment'}: ${payment.amount.toFixed(2)}
+              {payment.discount_amount > 0 && (
+                <span className="text-muted-foreground">
+                  {' '}(saved {formatMoney(Number(payment.discount_amount))}{payment.discount_code ? ` with ${payment.discount_code}` : ''})
+                </span>
               )}
+            </span>
+            <Badge variant={PAYMENT_BADGE_VARIANTS[payment.status] || 'secondary'}>
+              {payment.status.replace('_', ' ')}
+            </Badge>
+            {payment.overdue_at && (payment.status === 'pending' || payment.status === 'failed') && (
+              <Badge variant="destructive">overdue</Badge>
+            )}
+            <InvoiceDialog paymentId={payment.id} paid={payment.status !== 'pending' && payment.status !== 'failed'} />
+            {role === 'doctor' && refundableOf(payment) > 0 && (
+              <RefundDialog paymentId={payment.id} refundableAmount={refundableOf(payment)} onRefunded={fetchAppointments} />
+            )}
+          </div>
+          {payment.refunds.map((refund) => (
+            <div key={refund.id} className="pl-6 text-xs text-muted-foreground">
+              Refund ${Number(refund.amount).toFixed(2)} - {refund.status === 'succeeded' ? 'refunded' : refund.status}
+              {refund.status === 'failed' && refund.failure_reason ? ` (${refund.failure_reason})` : ''} · {refund.reason}
             </div>
-          )}
+          ))}
+        </div>
+      ))}
 
-          {role === 'patient' && apt.status === 'pending' && (
+      {role === 'doctor' && apt.status === 'pending' && <PatientReliability patientId={apt.patient_id} />}
+
+      {role === 'doctor' && apt.status === 'pending' && (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            onClick={() => handleConfirm(apt.id, apt.patient_id)}
+            className="flex-1"
+          >
+            <CheckCircle2 className="w-4 h-4 mr-1" />
+            Confirm
+          </Button>
+          <CancelAppointmentDialog
+            appointmentDate={apt.appointment_date}
+            status={apt.status}
+            role={role}
+            policy={apt.doctor.cancellation_policy}
+            label="Cancel"
+            className="flex-1"
+            refundableAmount={refundableVisitAmount}
+            isSeries={!!apt.series_id}
+            onConfirm={(reason, scope) => handleCancel(apt.id, apt.patient_id, reason, scope)}
+          />
+        </div>
+      )}
+
+      {role === 'doctor' && apt.status === 'confirmed' && (
+        <div className="flex gap-2 flex-wrap">
+          <AddConsultationDialog appointmentId={apt.id} onConsultationAdded={fetchAppointments} />
+          <ChatDialog
+            appointmentId={apt.id}
+            patientId={apt.patient_id}
+            doctorId={apt.doctor_id}
+            currentUserId={userId}
+            otherUserName={apt.patient.full_name}
+            variant="outline"
+          />
+          {pendingPayment && (
             <Button
               size="sm"
               variant="outline"
-              onClick={() => handleCancel(apt.id, apt.doctor_id)}
+              onClick={() => handleSendPaymentRequest(apt.id, apt.patient_id, pendingPayment.amount)}
             >
-              <XCircle className="w-4 h-4 mr-1" />
-              Cancel Appointment
+              <DollarSign className="w-4 h-4 mr-1" />
+              Send Payment Request
+            </Button>
+          )}
+          {slotEnded ? (
+            <Button size="sm" variant="outline" onClick={() => handleMarkNoShow(apt.id, apt.patient_id)}>
+              <UserX className="w-4 h-4 mr-1" />
+              Mark No-Show
             </Button>
+          ) : (
+            <CancelAppointmentDialog
+              appointmentDate={apt.appointment_date}
+              status={apt.status}
+              role={role}
+              policy={apt.doctor.cancellation_policy}
+              label="Cancel"
+              variant="outline"
+              refundableAmount={refundableVisitAmount}
+              isSeries={!!apt.series_id}
+              onConfirm={(reason, scope) => handleCancel(apt.id, apt.patient_id, reason, scope)}
+            />
           )}
         </div>
-      ))}
+      )}
+
+      {role === 'patient' && apt.status === 'confirmed' && (
+        <div className="flex gap-2 flex-wrap">
+          <ChatDialog
+            appointmentId={apt.id}
+            patientId={apt.patient_id}
+            doctorId={apt.doctor_id}
+            currentUserId={userId}
+            otherUserName={`Dr. ${apt.doctor.full_name}`}
+            onBookGeneralPhysician={() => navigate('/dashboard')}
+          />
+          {pendingPayment && (
+            <Button
+              size="sm"
+              variant="default"
+              disabled={payingId === pendingPayment.id}
+              onClick={() => handlePay(pendingPayment.id)}
+            >
+              <DollarSign className="w-4 h-4 mr-1" />
+              {payingId === pendingPayment.id ? 'Redirecting...' : pendingPayment.status === 'failed' ? 'Retry Payment' : 'Pay Now'}
+            </Button>
+          )}
+          {!slotEnded && (
+            <CancelAppointmentDialog
+              appointmentDate={apt.appointment_date}
+              status={apt.status}
+              role={role}
+              policy={apt.doctor.cancellation_policy}
+              label="Cancel Appointment"
+              variant="outline"
+              refundableAmount={refundableVisitAmount}
+              isSeries={!!apt.series_id}
+              onConfirm={(reason, scope) => handleCancel(apt.id, apt.doctor_id, reason, scope)}
+            />
+          )}
+        </div>
+      )}
+
+      {role === 'patient' && apt.status === 'late_cancelled' && pendingFee && (
+        <Button
+          size="sm"
+          variant="default"
+          disabled={payingId === pendingFee.id}
+          onClick={() => handlePay(pendingFee.id)}
+        >
+          <DollarSign className="w-4 h-4 mr-1" />
+          {payingId === pendingFee.id ? 'Redirecting...' : 'Pay Fee'}
+        </Button>
+      )}
+
+      {role === 'patient' && apt.status === 'pending' && (
+        <CancelAppointmentDialog
+          appointmentDate={apt.appointment_date}
+          status={apt.status}
+          role={role}
+          policy={apt.doctor.cancellation_policy}
+          label="Cancel Appointment"
+          variant="outline"
+          refundableAmount={refundableVisitAmount}
+          isSeries={!!apt.series_id}
+          onConfirm={(reason, scope) => handleCancel(apt.id, apt.doctor_id, reason, scope)}
+        />
+      )}
+    </div>
+    );
+  };
+
+  if (loading) {
+    return <div className="text-center py-4">Loading appointments...</div>;
+  }
+
+  if (appointments.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <Calendar className="w-12 h-12 mx-auto mb-2 opacity-50" />
+        <p>No appointments found</p>
+      </div>
+    );
+  }
+
+  const selectedAppointment = appointments.find((apt) => apt.id === selectedAppointmentId);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between gap-2">
+        <CalendarFeedDialog userId={userId} />
+        {role === 'doctor' && (
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={view}
+            onValueChange={(value) => value && setView(value as 'list' | 'calendar')}
+          >
+            <ToggleGroupItem value="list">
+              <List className="w-4 h-4 mr-1" />
+              List
+            </ToggleGroupItem>
+            <ToggleGroupItem value="calendar">
+              <CalendarDays className="w-4 h-4 mr-1" />
+              Calendar
+            </ToggleGroupItem>
+          </ToggleGroup>
+        )}
+      </div>
+
+      {view === 'calendar' ? (
+        <AppointmentsCalendar
+          appointments={appointments.map((apt) => ({
+            id: apt.id,
+            appointment_date: apt.appointment_date,
+            duration_minutes: apt.duration_minutes,
+            status: apt.status,
+            title: role === 'patient' ? `Dr. ${apt.doctor.full_name}` : apt.patient.full_name,
+          }))}
+          onSelect={setSelectedAppointmentId}
+          onMove={handleCalendarMove}
+          timeZone={timeZone}
+        />
+      ) : (
+        appointments.map((apt) => <div key={apt.id}>{renderAppointmentCard(apt)}</div>)
+      )}
+
+      <Dialog open={!!selectedAppointment} onOpenChange={(open) => !open && setSelectedAppointmentId(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Appointment Details</DialogTitle>
+          </DialogHeader>
+          {selectedAppointment && renderAppointmentCard(selectedAppointment)}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
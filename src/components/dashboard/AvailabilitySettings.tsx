@@ -0,0 +1,356 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarOff, Clock, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { WEEKDAYS, toTimeInput, type AvailabilityException } from '@/lib/scheduling';
+
+interface DaySchedule {
+  enabled: boolean;
+  start_time: string;
+  end_time: string;
+  break_start: string;
+  break_end: string;
+}
+
+interface ExceptionRow extends AvailabilityException {
+  id: string;
+}
+
+interface AvailabilitySettingsProps {
+  doctorId: string;
+}
+
+const SLOT_OPTIONS = [15, 20, 30, 45, 60];
+
+const defaultDay = (): DaySchedule => ({
+  enabled: false,
+  start_time: '09:00',
+  end_time: '17:00',
+  break_start: '',
+  break_end: '',
+});
+
+const AvailabilitySettings = ({ doctorId }: AvailabilitySettingsProps) => {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [schedule, setSchedule] = useState<DaySchedule[]>(WEEKDAYS.map(defaultDay));
+  const [slotDuration, setSlotDuration] = useState('30');
+  const [exceptions, setExceptions] = useState<ExceptionRow[]>([]);
+  const [exceptionDate, setExceptionDate] = useState('');
+  const [exceptionAllDay, setExceptionAllDay] = useState(true);
+  const [exceptionStart, setExceptionStart] = useState('09:00');
+  const [exceptionEnd, setExceptionEnd] = useState('13:00');
+  const [exceptionReason, setExceptionReason] = useState('');
+
+  const fetchAvailability = useCallback(async () => {
+    const [{ data: hours }, { data: exceptionData }, { data: role }] = await Promise.all([
+      supabase.from('doctor_availability').select('*').eq('doctor_id', doctorId),
+      supabase
+        .from('doctor_availability_exceptions')
+        .select('*')
+        .eq('doctor_id', doctorId)
+        .gte('exception_date', format(new Date(), 'yyyy-MM-dd'))
+        .order('exception_date', { ascending: true }),
+      supabase
+        .from('user_roles')
+        .select('slot_duration_minutes')
+        .eq('user_id', doctorId)
+        .eq('role', 'doctor')
+        .single(),
+    ]);
+
+    setSchedule(
+      WEEKDAYS.map((_, weekday) => {
+        const row = hours?.find((h) => h.weekday === weekday);
+        if (!row) return defaultDay();
+        return {
+          enabled: true,
+          start_time: toTimeInput(row.start_time),
+          end_time: toTimeInput(row.end_time),
+          break_start: toTimeInput(row.break_start),
+          break_end: toTimeInput(row.break_end),
+        };
+      })
+    );
+    setExceptions(exceptionData || []);
+    if (role) setSlotDuration(String(role.slot_duration_minutes));
+    setLoading(false);
+  }, [doctorId]);
+
+  useEffect(() => {
+    fetchAvailability();
+  }, [fetchAvailability]);
+
+  const updateDay = (weekday: number, changes: Partial<DaySchedule>) => {
+    setSchedule((current) => current.map((day, i) => (i === weekday ? { ...day, ...changes } : day)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+
+    const enabledDays = schedule
+      .map((day, weekday) => ({ ...day, weekday }))
+      .filter((day) => day.enabled);
+    const disabledWeekdays = schedule
+      .map((day, weekday) => ({ ...day, weekday }))
+      .filter((day) => !day.enabled)
+      .map((day) => day.weekday);
+
+    const { error: upsertError } = await supabase.from('doctor_availability').upsert(
+      enabledDays.map((day) => ({
+        doctor_id: doctorId,
+        weekday: day.weekday,
+        start_time: day.start_time,
+        end_time: day.end_time,
+        break_start: day.break_start && day.break_end ? day.break_start : null,
+        break_end: day.break_start && day.break_end ? day.break_end : null,
+      })),
+      { onConflict: 'doctor_id,weekday' }
+    );
+
+    const { error: deleteError } = disabledWeekdays.length
+      ? await supabase
+          .from('doctor_availability')
+          .delete()
+          .eq('doctor_id', doctorId)
+          .in('weekday', disabledWeekdays)
+      : { error: null };
+
+    const { error: slotError } = await supabase.rpc('set_slot_duration', {
+      _minutes: parseInt(slotDuration, 10),
+    });
+
+    const error = upsertError || deleteError || slotError;
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: 'Availability updated',
+      });
+    }
+    setSaving(false);
+  };
+
+  const handleAddException = async () => {
+    if (!exceptionDate) return;
+
+    const { error } = await supabase.from('doctor_availability_exceptions').upsert(
+      {
+        doctor_id: doctorId,
+        exception_date: exceptionDate,
+        start_time: exceptionAllDay ? null : exceptionStart,
+        end_time: exceptionAllDay ? null : exceptionEnd,
+        reason: exceptionReason || null,
+      },
+      { onConflict: 'doctor_id,exception_date' }
+    );
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setExceptionDate('');
+      setExceptionReason('');
+      fetchAvailability();
+    }
+  };
+
+  const handleDeleteException = async (exceptionId: string) => {
+    const { error } = await supabase
+      .from('doctor_availability_exceptions')
+      .delete()
+      .eq('id', exceptionId);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      fetchAvailability();
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-4">Loading availability...</div>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-2">
+            <Label>Slot length</Label>
+            <Select value={slotDuration} onValueChange={setSlotDuration}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SLOT_OPTIONS.map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    {minutes} minutes
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save Weekly Hours'}
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          {schedule.map((day, weekday) => (
+            <div key={WEEKDAYS[weekday]} className="border rounded-lg p-3 flex flex-wrap items-center gap-3">
+              <div className="flex items-center gap-2 w-36">
+                <Switch
+                  checked={day.enabled}
+                  onCheckedChange={(enabled) => updateDay(weekday, { enabled })}
+                />
+                <span className="font-medium">{WEEKDAYS[weekday]}</span>
+              </div>
+              {day.enabled ? (
+                <>
+                  <div className="flex items-center gap-2">
+                    <Clock className="w-4 h-4 text-muted-foreground" />
+                    <Input
+                      type="time"
+                      className="w-32"
+                      value={day.start_time}
+                      onChange={(e) => updateDay(weekday, { start_time: e.target.value })}
+                    />
+                    <span className="text-muted-foreground">to</span>
+                    <Input
+                      type="time"
+                      className="w-32"
+                      value={day.end_time}
+                      onChange={(e) => updateDay(weekday, { end_time: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-muted-foreground">Break</span>
+                    <Input
+                      type="time"
+                      className="w-32"
+                      value={day.break_start}
+                      onChange={(e) => updateDay(weekday, { break_start: e.target.value })}
+                    />
+                    <span className="text-muted-foreground">to</span>
+                    <Input
+                      type="time"
+                      className="w-32"
+                      value={day.break_end}
+                      onChange={(e) => updateDay(weekday, { break_end: e.target.value })}
+                    />
+                  </div>
+                </>
+              ) : (
+                <span className="text-sm text-muted-foreground">Unavailable</span>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <h3 className="font-semibold flex items-center gap-2">
+            <CalendarOff className="w-4 h-4" />
+            Holidays & Exceptions
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            Block out whole days or set different hours for a specific date
+          </p>
+        </div>
+
+        <div className="border rounded-lg p-4 flex flex-wrap items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="exception-date">Date</Label>
+            <Input
+              id="exception-date"
+              type="date"
+              min={format(new Date(), 'yyyy-MM-dd')}
+              value={exceptionDate}
+              onChange={(e) => setExceptionDate(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch checked={exceptionAllDay} onCheckedChange={setExceptionAllDay} />
+            <span className="text-sm">Unavailable all day</span>
+          </div>
+          {!exceptionAllDay && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="time"
+                className="w-32"
+                value={exceptionStart}
+                onChange={(e) => setExceptionStart(e.target.value)}
+              />
+              <span className="text-muted-foreground">to</span>
+              <Input
+                type="time"
+                className="w-32"
+                value={exceptionEnd}
+                onChange={(e) => setExceptionEnd(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="space-y-2 flex-1 min-w-[160px]">
+            <Label htmlFor="exception-reason">Reason (Optional)</Label>
+            <Input
+              id="exception-reason"
+              placeholder="e.g. Public holiday"
+              value={exceptionReason}
+              onChange={(e) => setExceptionReason(e.target.value)}
+            />
+          </div>
+          <Button variant="outline" onClick={handleAddException} disabled={!exceptionDate}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        </div>
+
+        {exceptions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No upcoming exceptions</p>
+        ) : (
+          <div className="space-y-2">
+            {exceptions.map((exception) => (
+              <div key={exception.id} className="border rounded-lg p-3 flex items-center justify-between">
+                <div>
+                  <p className="font-medium">{format(new Date(`${exception.exception_date}T00:00`), 'PPP')}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {exception.start_time && exception.end_time
+                      ? `${toTimeInput(exception.start_time)} - ${toTimeInput(exception.end_time)}`
+                      : 'Unavailable'}
+                    {exception.reason && ` · ${exception.reason}`}
+                  </p>
+                </div>
+                <Button size="sm" variant="ghost" onClick={() => handleDeleteException(exception.id)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AvailabilitySettings;
@@ -0,0 +1,107 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+interface BillingSettingsProps {
+  doctorId: string;
+}
+
+const BillingSettings = ({ doctorId }: BillingSettingsProps) => {
+  const { toast } = useToast();
+  const [practiceName, setPracticeName] = useState('');
+  const [practiceAddress, setPracticeAddress] = useState('');
+  const [taxId, setTaxId] = useState('');
+  const [taxRate, setTaxRate] = useState('0');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      const { data } = await supabase
+        .from('doctor_billing_settings')
+        .select('practice_name, practice_address, tax_id, tax_rate')
+        .eq('doctor_id', doctorId)
+        .maybeSingle();
+
+      if (data) {
+        setPracticeName(data.practice_name ?? '');
+        setPracticeAddress(data.practice_address ?? '');
+        setTaxId(data.tax_id ?? '');
+        setTaxRate(String(data.tax_rate));
+      }
+    };
+    fetchSettings();
+  }, [doctorId]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    const { error } = await supabase.from('doctor_billing_settings').upsert({
+      doctor_id: doctorId,
+      practice_name: practiceName || null,
+      practice_address: practiceAddress || null,
+      tax_id: taxId || null,
+      tax_rate: parseFloat(taxRate) || 0,
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: 'Billing details updated. New invoices will use them.',
+      });
+    }
+    setSaving(false);
+  };
+
+  return (
+    <form onSubmit={handleSave} className="grid gap-4 md:grid-cols-2">
+      <div className="space-y-2">
+        <Label htmlFor="practice-name">Practice name</Label>
+        <Input id="practice-name" value={practiceName} onChange={(e) => setPracticeName(e.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="tax-id">Tax ID</Label>
+        <Input id="tax-id" value={taxId} onChange={(e) => setTaxId(e.target.value)} />
+      </div>
+      <div className="space-y-2 md:col-span-2">
+        <Label htmlFor="practice-address">Address</Label>
+        <Textarea
+          id="practice-address"
+          rows={2}
+          value={practiceAddress}
+          onChange={(e) => setPracticeAddress(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="tax-rate">Tax rate included in fees (%)</Label>
+        <Input
+          id="tax-rate"
+          type="number"
+          step="0.01"
+          min="0"
+          max="100"
+          className="w-40"
+          value={taxRate}
+          onChange={(e) => setTaxRate(e.target.value)}
+        />
+      </div>
+      <div className="flex items-end">
+        <Button type="submit" disabled={saving}>
+          {saving ? 'Saving...' : 'Save Billing Details'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default BillingSettings;
@@ -3,38 +3,74 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Calendar, Plus } from 'lucide-react';
-import { format } from 'date-fns';
+import { MapPin, Plus, Tag, Video, X } from 'lucide-react';
+import SlotPicker from './SlotPicker';
+import JoinWaitlistForm from './JoinWaitlistForm';
+import RecurrenceOptions from './RecurrenceOptions';
+import { VISIT_MODE_LABELS } from '@/lib/scheduling';
+import { formatInTimeZone } from '@/lib/timezone';
+import { DEFAULT_SERIES_OPTIONS, generateOccurrences, type SeriesOptions } from '@/lib/recurrence';
+import { formatMoney } from '@/lib/invoice';
+import {
+  BILLING_METHOD_LABELS,
+  describePolicy,
+  patientShare,
+  type BillingMethod,
+  type InsurancePolicy,
+} from '@/lib/insurance';
+import { describeDiscount, discountAmount, type Discount } from '@/lib/discounts';
 
 interface Doctor {
   id: string;
   full_name: string;
   specialization: string;
+  slot_duration_minutes: number;
+  time_zone: string;
+}
+
+interface AppointmentType {
+  id: string;
+  name: string;
+  description: string | null;
+  duration_minutes: number;
+  price: number;
+  visit_mode: string;
 }
 
 interface BookAppointmentDialogProps {
   userId: string;
+  timeZone: string;
   onAppointmentBooked: () => void;
 }
 
-const BookAppointmentDialog = ({ userId, onAppointmentBooked }: BookAppointmentDialogProps) => {
+const BookAppointmentDialog = ({ userId, timeZone, onAppointmentBooked }: BookAppointmentDialogProps) => {
   const { toast } = useToast();
   const [open, setOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const [doctors, setDoctors] = useState<Doctor[]>([]);
   const [selectedDoctor, setSelectedDoctor] = useState('');
+  const [appointmentTypes, setAppointmentTypes] = useState<AppointmentType[]>([]);
+  const [selectedType, setSelectedType] = useState('');
   const [appointmentDate, setAppointmentDate] = useState('');
+  const [slotsRefreshKey, setSlotsRefreshKey] = useState(0);
   const [reason, setReason] = useState('');
-  const [amount, setAmount] = useState('');
+  const [series, setSeries] = useState<SeriesOptions>(DEFAULT_SERIES_OPTIONS);
+  const [policies, setPolicies] = useState<InsurancePolicy[]>([]);
+  const [billingMethod, setBillingMethod] = useState<BillingMethod>('self_pay');
+  const [policyId, setPolicyId] = useState('');
+  const [discountInput, setDiscountInput] = useState('');
+  const [discount, setDiscount] = useState<Discount | null>(null);
+  const [checkingCode, setCheckingCode] = useState(false);
 
   useEffect(() => {
     const fetchDoctors = async () => {
       const { data, error } = await supabase
         .from('user_roles')
-        .select('user_id, specialization, profiles(id, full_name)')
+        .select('user_id, specialization, slot_duration_minutes, profiles(id, full_name, time_zone)')
         .eq('role', 'doctor');
 
       console.log('Fetching doctors:', { data, error });
@@ -49,6 +85,8 @@ const BookAppointmentDialog = ({ userId, onAppointmentBooked }: BookAppointmentD
           id: d.user_id,
           full_name: d.profiles?.full_name || 'Unknown',
           specialization: d.specialization || 'General Practice',
+          slot_duration_minutes: d.slot_duration_minutes,
+          time_zone: d.profiles?.time_zone || 'UTC',
         }));
         console.log('Doctor list:', doctorList);
         setDoctors(doctorList);
@@ -57,21 +95,147 @@ const BookAppointmentDialog = ({ userId, onAppointmentBooked }: BookAppointmentD
     fetchDoctors();
   }, []);
 
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchPolicies = async () => {
+      const { data, error } = await supabase
+        .from('insurance_policies')
+        .select('id, payer_name, plan_name, member_id, group_number, coverage_percent, copay_amount, card_image_path, verified_at')
+        .eq('patient_id', userId)
+        .eq('is_active', true)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching insurance policies:', error);
+        return;
+      }
+      setPolicies(data || []);
+      setPolicyId((current) => current || data?.[0]?.id || '');
+    };
+    fetchPolicies();
+  }, [open, userId]);
+
+  useEffect(() => {
+    setSelectedType('');
+    setAppointmentDate('');
+    setAppointmentTypes([]);
+    // Codes can be limited to one doctor, so check again for the new one
+    setDiscount(null);
+    if (!selectedDoctor) return;
+
+    const fetchAppointmentTypes = async () => {
+      const { data, error } = await supabase
+        .from('appointment_types')
+        .select('id, name, description, duration_minutes, price, visit_mode')
+        .eq('doctor_id', selectedDoctor)
+        .eq('is_active', true)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching appointment types:', error);
+        return;
+      }
+      setAppointmentTypes(data || []);
+    };
+    fetchAppointmentTypes();
+  }, [selectedDoctor]);
+
+  const doctor = doctors.find((d) => d.id === selectedDoctor);
+  const appointmentType = appointmentTypes.find((t) => t.id === selectedType);
+  // Doctors without a fee schedule are booked as a free standard slot
+  const needsType = appointmentTypes.length > 0;
+  // Only paid visits can be billed to insurance
+  const canUseInsurance = !!appointmentType && Number(appointmentType.price) > 0 && policies.length > 0;
+  const billing: BillingMethod = canUseInsurance ? billingMethod : 'self_pay';
+  const policy = policies.find((p) => p.id === policyId);
+  const youPay = appointmentType ? patientShare(Number(appointmentType.price), billing, policy) : 0;
+  const youPayAfterDiscount = youPay - discountAmount(youPay, discount);
+  const seriesOccurrences =
+    series.enabled && doctor && appointmentDate
+      ? generateOccurrences(appointmentDate, series, doctor.time_zone).filter(
+          (o) => !series.excludedDates.includes(o.day)
+        )
+      : [];
+
+  const handleTypeChange = (typeId: string) => {
+    setSelectedType(typeId);
+    setAppointmentDate('');
+  };
+
+  const resetForm = () => {
+    setOpen(false);
+    setSelectedDoctor('');
+    setSelectedType('');
+    setAppointmentDate('');
+    setReason('');
+    setSeries(DEFAULT_SERIES_OPTIONS);
+    setBillingMethod('self_pay');
+    setDiscountInput('');
+    setDiscount(null);
+  };
+
+  const handleApplyCode = async () => {
+    if (!discountInput.trim() || !selectedDoctor) return;
+    setCheckingCode(true);
+
+    const { data, error } = await supabase.rpc('check_discount_code', {
+      _code: discountInput,
+      _doctor_id: selectedDoctor,
+    });
+
+    if (error || !data?.[0] || data[0].error) {
+      toast({
+        title: 'Error',
+        description: error?.message ?? data?.[0]?.error ?? 'This discount code is not valid',
+        variant: 'destructive',
+      });
+      setDiscount(null);
+    } else {
+      setDiscount(data[0]);
+      setDiscountInput(data[0].code);
+    }
+    setCheckingCode(false);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!appointmentDate || !doctor || (needsType && !appointmentType)) return;
+    if (billing !== 'self_pay' && !policy) return;
     setLoading(true);
 
-    const { data: appointmentData, error } = await supabase
-      .from('appointments')
-      .insert({
-        patient_id: userId,
-        doctor_id: selectedDoctor,
-        appointment_date: new Date(appointmentDate).toISOString(),
-        reason,
-        status: 'pending',
-      })
-      .select()
-      .single();
+    // Each occurrence of a series is booked, billed and conflict-checked by the database
+    const { error } = series.enabled
+      ? await supabase.rpc('create_appointment_series', {
+          _doctor_id: selectedDoctor,
+          _appointment_type_id: appointmentType?.id ?? null,
+          _starts_at: appointmentDate,
+          _frequency: series.frequency,
+          _interval_count: series.interval,
+          _occurrence_count: series.endMode === 'count' ? series.count : null,
+          _until_date: series.endMode === 'until' ? series.until : null,
+          _excluded_dates: series.excludedDates,
+          _reason: reason,
+          _billing_method: billing,
+          _insurance_policy_id: billing === 'self_pay' ? null : policyId,
+          _discount_code: discount?.code ?? null,
+        })
+      : await supabase
+          .from('appointments')
+          .insert({
+            patient_id: userId,
+            doctor_id: selectedDoctor,
+            appointment_type_id: appointmentType?.id ?? null,
+            appointment_date: appointmentDate,
+            duration_minutes: appointmentType?.duration_minutes ?? doctor.slot_duration_minutes,
+            reason,
+            status: 'pending',
+            billing_method: billing,
+            insurance_policy_id: billing === 'self_pay' ? null : policyId,
+            discount_code: discount?.code ?? null,
+          })
+          .select()
+          .single();
 
     if (error) {
       toast({
@@ -79,41 +243,34 @@ const BookAppointmentDialog = ({ userId, onAppointmentBooked }: BookAppointmentD
         description: error.message,
         variant: 'destructive',
       });
+      // Someone else took the slot in the meantime
+      if (error.code === '23P01' && !series.enabled) {
+        setAppointmentDate('');
+        setSlotsRefreshKey((key) => key + 1);
+      }
       setLoading(false);
       return;
     }
 
-    // Create payment record if amount is specified
-    if (amount && parseFloat(amount) > 0 && appointmentData) {
-      const { error: paymentError } = await supabase
-        .from('payments')
-        .insert({
-          appointment_id: appointmentData.id,
-          amount: parseFloat(amount),
-          status: 'pending',
-        });
-
-      if (paymentError) {
-        console.error('Error creating payment:', paymentError);
-      }
-    }
-
+    // The visit fee is billed by the database from the doctor's fee schedule,
+    // split with the insurer when the patient chose to bill their policy
     // Create notification for doctor
+    const typeName = appointmentType ? `${appointmentType.name} ` : '';
     await supabase.from('notifications').insert({
       user_id: selectedDoctor,
-      title: 'New Appointment Request',
-      message: `You have a new appointment request for ${format(new Date(appointmentDate), 'PPpp')}${amount ? ` with payment of $${amount}` : ''}`,
+      title: series.enabled ? 'New Recurring Appointment Request' : 'New Appointment Request',
+      message: series.enabled
+        ? `You have ${seriesOccurrences.length} new recurring ${typeName}appointment requests starting ${formatInTimeZone(seriesOccurrences[0].start, doctor.time_zone)}`
+        : `You have a new ${typeName}appointment request for ${formatInTimeZone(appointmentDate, doctor.time_zone)}`,
     });
 
     toast({
       title: 'Success',
-      description: 'Appointment request sent successfully',
+      description: series.enabled
+        ? `${seriesOccurrences.length} appointment requests sent successfully`
+        : 'Appointment request sent successfully',
     });
-    setOpen(false);
-    setSelectedDoctor('');
-    setAppointmentDate('');
-    setReason('');
-    setAmount('');
+    resetForm();
     onAppointmentBooked();
     setLoading(false);
   };
@@ -126,7 +283,7 @@ const BookAppointmentDialog = ({ userId, onAppointmentBooked }: BookAppointmentD
           Book Appointment
         </Button>
       </DialogTrigger>
-      <DialogContent>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Book New Appointment</DialogTitle>
           <DialogDescription>Schedule an appointment with a doctor</DialogDescription>
@@ -148,17 +305,127 @@ const BookAppointmentDialog = ({ userId, onAppointmentBooked }: BookAppointmentD
             </Select>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="date">Date & Time</Label>
-            <input
-              id="date"
-              type="datetime-local"
-              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-              value={appointmentDate}
-              onChange={(e) => setAppointmentDate(e.target.value)}
-              required
+          {needsType && (
+            <div className="space-y-2">
+              <Label>Appointment Type</Label>
+              <Select value={selectedType} onValueChange={handleTypeChange} required>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a visit type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {appointmentTypes.map((type) => (
+                    <SelectItem key={type.id} value={type.id}>
+                      {type.name} - {type.duration_minutes} min - ${Number(type.price).toFixed(2)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {appointmentType && (
+                <p className="text-sm text-muted-foreground flex items-center gap-1">
+                  {appointmentType.visit_mode === 'video' ? <Video className="w-3 h-3" /> : <MapPin className="w-3 h-3" />}
+                  {VISIT_MODE_LABELS[appointmentType.visit_mode]}
+                  {appointmentType.description && ` · ${appointmentType.description}`}
+                </p>
+              )}
+            </div>
+          )}
+
+          {canUseInsurance && (
+            <div className="space-y-2">
+              <Label>Billing</Label>
+              <Select value={billingMethod} onValueChange={(value) => setBillingMethod(value as BillingMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BILLING_METHOD_LABELS) as BillingMethod[]).map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {BILLING_METHOD_LABELS[method]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {billing !== 'self_pay' && (
+                <>
+                  <Select value={policyId} onValueChange={setPolicyId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a policy" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {policies.map((p) => (
+                        <SelectItem key={p.id} value={p.id}>
+                          {describePolicy(p)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {policy && (
+                    <p className="text-sm text-muted-foreground">
+                      Your share is {formatMoney(youPay)}; {formatMoney(Number(appointmentType!.price) - youPay)} is claimed from{' '}
+                      {policy.payer_name}.
+                      {!policy.verified_at && ' This is an estimate until your doctor verifies your coverage.'}
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          {appointmentType && Number(appointmentType.price) > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="discount-code">Discount code (optional)</Label>
+              {discount ? (
+                <div className="flex items-center gap-2 text-sm">
+                  <Tag className="w-4 h-4 text-primary" />
+                  <span className="font-medium">{discount.code}</span>
+                  <span className="text-muted-foreground">
+                    {describeDiscount(discount)}
+                    {discount.description ? ` · ${discount.description}` : ''}
+                  </span>
+                  <Button type="button" size="sm" variant="ghost" className="h-7 px-2 ml-auto" onClick={() => setDiscount(null)}>
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <Input
+                    id="discount-code"
+                    value={discountInput}
+                    onChange={(e) => setDiscountInput(e.target.value.toUpperCase())}
+                  />
+                  <Button type="button" variant="outline" onClick={handleApplyCode} disabled={checkingCode || !discountInput.trim()}>
+                    {checkingCode ? 'Checking...' : 'Apply'}
+                  </Button>
+                </div>
+              )}
+              {discount && (
+                <p className="text-sm text-muted-foreground">
+                  You pay {formatMoney(youPayAfterDiscount)} instead of {formatMoney(youPay)}
+                  {series.enabled ? ' for each appointment in the series' : ''}.
+                </p>
+              )}
+            </div>
+          )}
+
+          <SlotPicker
+            doctorId={selectedDoctor}
+            slotMinutes={appointmentType?.duration_minutes ?? doctor?.slot_duration_minutes ?? 30}
+            doctorTimeZone={doctor?.time_zone ?? timeZone}
+            viewerTimeZone={timeZone}
+            value={appointmentDate}
+            onChange={setAppointmentDate}
+            refreshKey={slotsRefreshKey}
+          />
+
+          {doctor && (
+            <RecurrenceOptions
+              start={appointmentDate}
+              doctorTimeZone={doctor.time_zone}
+              viewerTimeZone={timeZone}
+              value={series}
+              onChange={setSeries}
             />
-          </div>
+          )}
 
           <div className="space-y-2">
             <Label htmlFor="reason">Reason for Visit</Label>
@@ -172,24 +439,31 @@ const BookAppointmentDialog = ({ userId, onAppointmentBooked }: BookAppointmentD
             />
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="amount">Payment Amount (Optional)</Label>
-            <input
-              id="amount"
-              type="number"
-              step="0.01"
-              min="0"
-              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-              placeholder="0.00"
-              value={amount}
-              onChange={(e) => setAmount(e.target.value)}
-            />
-          </div>
-
-          <Button type="submit" className="w-full" disabled={loading}>
+          <Button type="submit" className="w-full" disabled={
+              loading ||
+              !appointmentDate ||
+              (needsType && !appointmentType) ||
+              (billing !== 'self_pay' && !policy) ||
+              (series.enabled && seriesOccurrences.length < 2)
+            }
+          >
             {loading ? 'Booking...' : 'Book Appointment'}
           </Button>
         </form>
+
+        {doctor && (!needsType || appointmentType) && (
+          <JoinWaitlistForm
+            doctorId={doctor.id}
+            doctorName={doctor.full_name}
+            appointmentTypeId={appointmentType?.id ?? null}
+            patientId={userId}
+            note={reason}
+            onJoined={() => {
+              resetForm();
+              onAppointmentBooked();
+            }}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,129 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { CalendarPlus, Copy, RefreshCw, Trash2 } from 'lucide-react';
+
+interface CalendarFeedDialogProps {
+  userId: string;
+}
+
+const feedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/appointments-ical?token=${token}`;
+
+const CalendarFeedDialog = ({ userId }: CalendarFeedDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [token, setToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchToken = async () => {
+      const { data } = await supabase
+        .from('calendar_feed_tokens')
+        .select('token')
+        .eq('user_id', userId)
+        .maybeSingle();
+      setToken(data?.token ?? null);
+    };
+    fetchToken();
+  }, [open, userId]);
+
+  const handleGenerate = async () => {
+    setLoading(true);
+    const { data, error } = await supabase.rpc('regenerate_calendar_feed_token');
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setToken(data);
+      toast({
+        title: 'Success',
+        description: token ? 'Feed link regenerated. Old links no longer work.' : 'Feed link created',
+      });
+    }
+    setLoading(false);
+  };
+
+  const handleRevoke = async () => {
+    const { error } = await supabase.from('calendar_feed_tokens').delete().eq('user_id', userId);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setToken(null);
+      toast({
+        title: 'Success',
+        description: 'Calendar feed disabled',
+      });
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!token) return;
+    await navigator.clipboard.writeText(feedUrl(token));
+    toast({ title: 'Copied', description: 'Feed link copied to clipboard' });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <CalendarPlus className="w-4 h-4 mr-1" />
+          Calendar Feed
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Subscribe in Your Calendar App</DialogTitle>
+          <DialogDescription>
+            Add this link as a subscribed calendar in Google Calendar, Apple Calendar or Outlook.
+            Confirmed, rescheduled and cancelled appointments stay in sync automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        {token ? (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Input readOnly value={feedUrl(token)} className="font-mono text-xs" />
+              <Button size="icon" variant="outline" onClick={handleCopy}>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Anyone with this link can see your appointment times. Regenerate it if it has been shared by mistake.
+            </p>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={handleGenerate} disabled={loading}>
+                <RefreshCw className="w-4 h-4 mr-1" />
+                Regenerate Link
+              </Button>
+              <Button size="sm" variant="ghost" onClick={handleRevoke}>
+                <Trash2 className="w-4 h-4 mr-1" />
+                Disable Feed
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button onClick={handleGenerate} disabled={loading}>
+            {loading ? 'Creating...' : 'Create Feed Link'}
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CalendarFeedDialog;
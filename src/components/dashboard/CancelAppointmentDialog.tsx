@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { XCircle } from 'lucide-react';
+import { isLateCancellation, type CancellationPolicy } from '@/lib/scheduling';
+import { SCOPE_LABELS, type SeriesScope } from '@/lib/recurrence';
+
+interface CancelAppointmentDialogProps {
+  appointmentDate: string;
+  status: string;
+  role: 'patient' | 'doctor';
+  policy: CancellationPolicy | null;
+  label: string;
+  className?: string;
+  variant?: 'destructive' | 'outline';
+  // Paid visit fees not yet refunded; shown so both sides know what goes back
+  refundableAmount?: number;
+  isSeries?: boolean;
+  onConfirm: (reason: string, scope: SeriesScope) => void;
+}
+
+const CancelAppointmentDialog = ({
+  appointmentDate,
+  status,
+  role,
+  policy,
+  label,
+  className,
+  variant = 'destructive',
+  refundableAmount = 0,
+  isSeries = false,
+  onConfirm,
+}: CancelAppointmentDialogProps) => {
+  const [reason, setReason] = useState('');
+  const [scope, setScope] = useState<SeriesScope>('this');
+  const late = isLateCancellation(appointmentDate, status, role, policy);
+  const refundPercent = late ? policy!.late_refund_percent : 100;
+  const refund = Math.round(refundableAmount * refundPercent) / 100;
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button size="sm" variant={variant} className={className}>
+          <XCircle className="w-4 h-4 mr-1" />
+          {label}
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Cancel this appointment?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {late
+              ? `This is within the doctor's ${policy!.cutoff_hours}-hour cancellation window and will be recorded as a late cancellation${
+                  policy!.late_cancel_fee > 0 ? ` with a fee of $${Number(policy!.late_cancel_fee).toFixed(2)}` : ''
+                }.`
+              : role === 'patient' && policy && policy.cutoff_hours > 0
+                ? `Cancellations less than ${policy.cutoff_hours} hours before a confirmed visit count as late.`
+                : 'The other party will be notified.'}
+            {refundableAmount > 0 &&
+              (refund > 0
+                ? ` $${refund.toFixed(2)} of the $${refundableAmount.toFixed(2)} paid${refundPercent < 100 ? ` (${refundPercent}%)` : ''} will be refunded.`
+                : ` The $${refundableAmount.toFixed(2)} paid is not refundable.`)}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {isSeries && (
+          <RadioGroup value={scope} onValueChange={(value) => setScope(value as SeriesScope)} className="space-y-1">
+            {(Object.keys(SCOPE_LABELS) as SeriesScope[]).map((key) => (
+              <div key={key} className="flex items-center gap-2">
+                <RadioGroupItem value={key} id={`cancel-scope-${key}`} />
+                <Label htmlFor={`cancel-scope-${key}`} className="cursor-pointer font-normal">{SCOPE_LABELS[key]}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="cancel-reason">Reason (Optional)</Label>
+          <Textarea
+            id="cancel-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+          />
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep Appointment</AlertDialogCancel>
+          <AlertDialogAction onClick={() => onConfirm(reason, scope)}>Cancel Appointment</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default CancelAppointmentDialog;
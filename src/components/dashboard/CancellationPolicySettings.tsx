@@ -0,0 +1,106 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface CancellationPolicySettingsProps {
+  doctorId: string;
+}
+
+const CancellationPolicySettings = ({ doctorId }: CancellationPolicySettingsProps) => {
+  const { toast } = useToast();
+  const [cutoffHours, setCutoffHours] = useState('24');
+  const [lateCancelFee, setLateCancelFee] = useState('0');
+  const [lateRefundPercent, setLateRefundPercent] = useState('0');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchPolicy = async () => {
+      const { data } = await supabase
+        .from('cancellation_policies')
+        .select('cutoff_hours, late_cancel_fee, late_refund_percent')
+        .eq('doctor_id', doctorId)
+        .maybeSingle();
+
+      if (data) {
+        setCutoffHours(String(data.cutoff_hours));
+        setLateCancelFee(String(data.late_cancel_fee));
+        setLateRefundPercent(String(data.late_refund_percent));
+      }
+    };
+    fetchPolicy();
+  }, [doctorId]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    const { error } = await supabase.from('cancellation_policies').upsert({
+      doctor_id: doctorId,
+      cutoff_hours: parseInt(cutoffHours, 10) || 0,
+      late_cancel_fee: parseFloat(lateCancelFee) || 0,
+      late_refund_percent: Math.min(100, Math.max(0, parseInt(lateRefundPercent, 10) || 0)),
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: 'Cancellation policy updated',
+      });
+    }
+    setSaving(false);
+  };
+
+  return (
+    <form onSubmit={handleSave} className="flex flex-wrap items-end gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="cutoff-hours">Cancellation cutoff (hours before visit)</Label>
+        <Input
+          id="cutoff-hours"
+          type="number"
+          min="0"
+          className="w-40"
+          value={cutoffHours}
+          onChange={(e) => setCutoffHours(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="late-cancel-fee">Late cancellation fee ($)</Label>
+        <Input
+          id="late-cancel-fee"
+          type="number"
+          step="0.01"
+          min="0"
+          className="w-40"
+          value={lateCancelFee}
+          onChange={(e) => setLateCancelFee(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="late-refund-percent">Refund on late cancellation (%)</Label>
+        <Input
+          id="late-refund-percent"
+          type="number"
+          min="0"
+          max="100"
+          className="w-40"
+          value={lateRefundPercent}
+          onChange={(e) => setLateRefundPercent(e.target.value)}
+        />
+      </div>
+      <Button type="submit" disabled={saving}>
+        {saving ? 'Saving...' : 'Save Policy'}
+      </Button>
+    </form>
+  );
+};
+
+export default CancellationPolicySettings;
@@ -0,0 +1,248 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Tag, Trash2 } from 'lucide-react';
+import { describeDiscount, type DiscountType } from '@/lib/discounts';
+import { toZonedDateString, zonedTimeToUtc } from '@/lib/timezone';
+
+interface DiscountCode {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: string;
+  discount_value: number;
+  expires_at: string | null;
+  max_uses: number | null;
+  is_active: boolean;
+  appointments: { count: number }[];
+}
+
+interface DiscountCodesSettingsProps {
+  // Null manages the clinic-wide codes, which only clinic admins can see
+  doctorId: string | null;
+  timeZone: string;
+}
+
+const DiscountCodesSettings = ({ doctorId, timeZone }: DiscountCodesSettingsProps) => {
+  const { toast } = useToast();
+  const [codes, setCodes] = useState<DiscountCode[]>([]);
+  const [code, setCode] = useState('');
+  const [discountType, setDiscountType] = useState<DiscountType>('percent');
+  const [value, setValue] = useState('');
+  const [validThrough, setValidThrough] = useState('');
+  const [maxUses, setMaxUses] = useState('');
+  const [description, setDescription] = useState('');
+
+  const fetchCodes = useCallback(async () => {
+    const query = supabase
+      .from('discount_codes')
+      .select('id, code, description, discount_type, discount_value, expires_at, max_uses, is_active, appointments(count)')
+      // Cancelled bookings give their use back
+      .not('appointments.status', 'in', '(cancelled,late_cancelled)')
+      .order('created_at', { ascending: false });
+
+    const { data, error } = await (doctorId ? query.eq('doctor_id', doctorId) : query.is('doctor_id', null));
+
+    if (error) {
+      console.error('Error fetching discount codes:', error);
+      return;
+    }
+    setCodes(data || []);
+  }, [doctorId]);
+
+  useEffect(() => {
+    fetchCodes();
+  }, [fetchCodes]);
+
+  const handleAdd = async () => {
+    const { error } = await supabase.from('discount_codes').insert({
+      doctor_id: doctorId,
+      code: code.trim().toUpperCase(),
+      description: description.trim() || null,
+      discount_type: discountType,
+      discount_value: parseFloat(value) || 0,
+      // Codes work until the end of the chosen day on the doctor's calendar
+      expires_at: validThrough ? zonedTimeToUtc(validThrough, '23:59', timeZone).toISOString() : null,
+      max_uses: maxUses ? parseInt(maxUses, 10) : null,
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.code === '23505' ? 'That code is already in use' : error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setCode('');
+      setValue('');
+      setValidThrough('');
+      setMaxUses('');
+      setDescription('');
+      fetchCodes();
+    }
+  };
+
+  const handleToggleActive = async (codeId: string, isActive: boolean) => {
+    const { error } = await supabase
+      .from('discount_codes')
+      .update({ is_active: isActive })
+      .eq('id', codeId);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      fetchCodes();
+    }
+  };
+
+  const handleDelete = async (codeId: string) => {
+    const { error } = await supabase
+      .from('discount_codes')
+      .delete()
+      .eq('id', codeId);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      fetchCodes();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="border rounded-lg p-4 flex flex-wrap items-end gap-3">
+        <div className="space-y-2 flex-1 min-w-[140px]">
+          <Label htmlFor="discount-code">Code</Label>
+          <Input
+            id="discount-code"
+            placeholder="e.g. SCREENING"
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Type</Label>
+          <Select value={discountType} onValueChange={(next) => setDiscountType(next as DiscountType)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="percent">Percent</SelectItem>
+              <SelectItem value="fixed">Fixed ($)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="discount-value">{discountType === 'percent' ? 'Off (%)' : 'Off ($)'}</Label>
+          <Input
+            id="discount-value"
+            type="number"
+            step={discountType === 'percent' ? '1' : '0.01'}
+            min="0"
+            max={discountType === 'percent' ? '100' : undefined}
+            className="w-24"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="discount-valid-through">Valid through</Label>
+          <Input
+            id="discount-valid-through"
+            type="date"
+            className="w-40"
+            value={validThrough}
+            onChange={(e) => setValidThrough(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="discount-max-uses">Max uses</Label>
+          <Input
+            id="discount-max-uses"
+            type="number"
+            min="1"
+            className="w-24"
+            placeholder="No limit"
+            value={maxUses}
+            onChange={(e) => setMaxUses(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2 w-full">
+          <Label htmlFor="discount-description">Description (Optional)</Label>
+          <Input
+            id="discount-description"
+            placeholder="e.g. Free screening week, or income-based rate"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+        </div>
+        <Button variant="outline" onClick={handleAdd} disabled={!code.trim() || !(parseFloat(value) > 0)}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add Code
+        </Button>
+      </div>
+
+      {codes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {doctorId
+            ? 'No discount codes yet. Patients enter a code when booking to get a reduced fee.'
+            : 'No clinic-wide codes yet. These work for visits with any doctor.'}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {codes.map((discount) => {
+            const uses = discount.appointments[0]?.count ?? 0;
+            const expired = !!discount.expires_at && new Date(discount.expires_at) < new Date();
+
+            return (
+              <div key={discount.id} className="border rounded-lg p-3 flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <p className="font-medium flex items-center gap-2">
+                    <Tag className="w-4 h-4 text-primary" />
+                    {discount.code}
+                    {expired && <Badge variant="secondary">Expired</Badge>}
+                    {discount.max_uses !== null && uses >= discount.max_uses && <Badge variant="secondary">Used up</Badge>}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {describeDiscount(discount)} · Used {uses}
+                    {discount.max_uses !== null ? ` of ${discount.max_uses}` : ''} times
+                    {discount.expires_at ? ` · Valid through ${toZonedDateString(new Date(discount.expires_at), timeZone)}` : ''}
+                  </p>
+                  {discount.description && <p className="text-sm text-muted-foreground">{discount.description}</p>}
+                </div>
+                <div className="flex items-center gap-3">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={discount.is_active}
+                      onCheckedChange={(checked) => handleToggleActive(discount.id, checked)}
+                    />
+                    <span className="text-sm">Active</span>
+                  </div>
+                  <Button size="icon" variant="ghost" onClick={() => handleDelete(discount.id)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiscountCodesSettings;
@@ -1,16 +1,30 @@
 import { useState, useEffect } from 'react';
 import type { User } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
-import { signOut } from '@/lib/auth';
+import { isClinicAdmin, signOut } from '@/lib/auth';
+import { getBrowserTimeZone } from '@/lib/timezone';
 import { useNavigate } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
+import { useUnreadChats } from '@/hooks/use-unread-chats';
+import { usePresence } from '@/hooks/use-presence';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Calendar, FileText, Bell, LogOut, Activity } from 'lucide-react';
+import { Calendar, FileText, Bell, LogOut, Activity, Clock, Ban, Stethoscope, Receipt, DollarSign, BellRing, Tag, MessageSquareText, Building2 } from 'lucide-react';
 import AppointmentsList from './AppointmentsList';
 import ConsultationsList from './ConsultationsList';
 import NotificationsList from './NotificationsList';
+import TimeZoneSelect from './TimeZoneSelect';
+import AvailabilitySettings from './AvailabilitySettings';
+import CancellationPolicySettings from './CancellationPolicySettings';
+import AppointmentTypesSettings from './AppointmentTypesSettings';
+import BillingSettings from './BillingSettings';
+import PaymentReminderSettings from './PaymentReminderSettings';
+import DiscountCodesSettings from './DiscountCodesSettings';
+import RevenueDashboard from './RevenueDashboard';
+import MessageSearch from './MessageSearch';
+import MessageTemplatesSettings from './MessageTemplatesSettings';
 
 interface DoctorDashboardProps {
   user: User;
@@ -20,6 +34,14 @@ const DoctorDashboard = ({ user }: DoctorDashboardProps) => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [profile, setProfile] = useState<any>(null);
+  const { total: unreadMessages } = useUnreadChats();
+  // Announces the doctor as available to patients, e.g. on the general physician card
+  usePresence(user.id);
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  useEffect(() => {
+    isClinicAdmin(user.id).then(setIsAdmin);
+  }, [user.id]);
 
   useEffect(() => {
     const fetchProfile = async () => {
@@ -39,6 +61,8 @@ const DoctorDashboard = ({ user }: DoctorDashboardProps) => {
     navigate('/auth');
   };
 
+  const timeZone = profile?.time_zone ?? getBrowserTimeZone();
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-secondary/5 via-background to-primary/5">
       <nav className="bg-card/80 backdrop-blur-md border-b shadow-sm sticky top-0 z-50">
@@ -52,24 +76,45 @@ const DoctorDashboard = ({ user }: DoctorDashboardProps) => {
               <p className="text-sm text-muted-foreground">Dr. {profile?.full_name}</p>
             </div>
           </div>
-          <Button variant="outline" onClick={handleSignOut} className="hover:bg-destructive/10 hover:text-destructive hover:border-destructive transition-colors">
-            <LogOut className="w-4 h-4 mr-2" />
-            Logout
-          </Button>
+          <div className="flex items-center gap-3">
+            <MessageSearch doctorId={user.id} />
+            <TimeZoneSelect
+              userId={user.id}
+              value={timeZone}
+              onChange={(time_zone) => setProfile((prev) => ({ ...prev, time_zone }))}
+            />
+            <Button variant="outline" onClick={handleSignOut} className="hover:bg-destructive/10 hover:text-destructive hover:border-destructive transition-colors">
+              <LogOut className="w-4 h-4 mr-2" />
+              Logout
+            </Button>
+          </div>
         </div>
       </nav>
 
       <div className="container mx-auto px-6 py-10">
         <Tabs defaultValue="appointments" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3 bg-muted/50 p-1.5 h-auto">
+          <TabsList className="grid w-full grid-cols-5 bg-muted/50 p-1.5 h-auto">
             <TabsTrigger value="appointments" className="data-[state=active]:bg-background data-[state=active]:shadow-md py-3">
               <Calendar className="w-4 h-4 mr-2" />
               Appointments
+              {unreadMessages > 0 && (
+                <Badge variant="destructive" className="ml-2 h-5 px-1.5" title={`${unreadMessages} unread messages`}>
+                  {unreadMessages}
+                </Badge>
+              )}
             </TabsTrigger>
             <TabsTrigger value="consultations" className="data-[state=active]:bg-background data-[state=active]:shadow-md py-3">
               <FileText className="w-4 h-4 mr-2" />
               Consultations
             </TabsTrigger>
+            <TabsTrigger value="revenue" className="data-[state=active]:bg-background data-[state=active]:shadow-md py-3">
+              <DollarSign className="w-4 h-4 mr-2" />
+              Revenue
+            </TabsTrigger>
+            <TabsTrigger value="availability" className="data-[state=active]:bg-background data-[state=active]:shadow-md py-3">
+              <Clock className="w-4 h-4 mr-2" />
+              Availability
+            </TabsTrigger>
             <TabsTrigger value="notifications" className="data-[state=active]:bg-background data-[state=active]:shadow-md py-3">
               <Bell className="w-4 h-4 mr-2" />
               Notifications
@@ -86,7 +131,7 @@ const DoctorDashboard = ({ user }: DoctorDashboardProps) => {
                 <CardDescription>Manage your patient appointments</CardDescription>
               </CardHeader>
               <CardContent>
-                <AppointmentsList userId={user.id} role="doctor" />
+                <AppointmentsList userId={user.id} role="doctor" timeZone={timeZone} />
               </CardContent>
             </Card>
           </TabsContent>
@@ -106,6 +151,118 @@ const DoctorDashboard = ({ user }: DoctorDashboardProps) => {
             </Card>
           </TabsContent>
 
+          <TabsContent value="revenue" className="animate-in fade-in-50 duration-300">
+            <RevenueDashboard doctorId={user.id} timeZone={timeZone} />
+          </TabsContent>
+
+          <TabsContent value="availability" className="animate-in fade-in-50 duration-300">
+            <Card className="border-primary/10">
+              <CardHeader>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <Clock className="w-6 h-6 text-primary" />
+                  Availability
+                </CardTitle>
+                <CardDescription>Set your working hours, breaks and days off, in your local time ({timeZone})</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AvailabilitySettings doctorId={user.id} />
+              </CardContent>
+            </Card>
+
+            <Card className="border-primary/10 mt-6">
+              <CardHeader>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <Stethoscope className="w-6 h-6 text-primary" />
+                  Appointment Types
+                </CardTitle>
+                <CardDescription>Set the visits patients can book, with their length, fee and mode</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AppointmentTypesSettings doctorId={user.id} />
+              </CardContent>
+            </Card>
+
+            <Card className="border-primary/10 mt-6">
+              <CardHeader>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <Ban className="w-6 h-6 text-primary" />
+                  Cancellation Policy
+                </CardTitle>
+                <CardDescription>Define when a patient cancellation counts as late and any fee it carries</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <CancellationPolicySettings doctorId={user.id} />
+              </CardContent>
+            </Card>
+
+            <Card className="border-primary/10 mt-6">
+              <CardHeader>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <Receipt className="w-6 h-6 text-primary" />
+                  Billing Details
+                </CardTitle>
+                <CardDescription>Practice details and tax shown on your invoices and receipts</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <BillingSettings doctorId={user.id} />
+              </CardContent>
+            </Card>
+
+            <Card className="border-primary/10 mt-6">
+              <CardHeader>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <Tag className="w-6 h-6 text-primary" />
+                  Discount Codes
+                </CardTitle>
+                <CardDescription>Codes patients can enter at booking for campaigns or reduced rates</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DiscountCodesSettings doctorId={user.id} timeZone={timeZone} />
+              </CardContent>
+            </Card>
+
+            {isAdmin && (
+              <Card className="border-primary/10 mt-6">
+                <CardHeader>
+                  <CardTitle className="text-2xl flex items-center gap-2">
+                    <Building2 className="w-6 h-6 text-primary" />
+                    Clinic Discount Codes
+                  </CardTitle>
+                  <CardDescription>Codes that work for visits with every doctor in the clinic</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <DiscountCodesSettings doctorId={null} timeZone={timeZone} />
+                </CardContent>
+              </Card>
+            )}
+
+            <Card className="border-primary/10 mt-6">
+              <CardHeader>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <BellRing className="w-6 h-6 text-primary" />
+                  Payment Reminders
+                </CardTitle>
+                <CardDescription>When unpaid patients are reminded, what they're told, and when a payment is flagged overdue</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PaymentReminderSettings doctorId={user.id} />
+              </CardContent>
+            </Card>
+
+            <Card className="border-primary/10 mt-6">
+              <CardHeader>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <MessageSquareText className="w-6 h-6 text-primary" />
+                  Quick Replies
+                </CardTitle>
+                <CardDescription>Message templates you can insert in any chat by typing /</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <MessageTemplatesSettings doctorId={user.id} isAdmin={isAdmin} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="notifications" className="animate-in fade-in-50 duration-300">
             <Card className="border-accent/10">
               <CardHeader>
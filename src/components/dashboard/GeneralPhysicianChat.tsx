@@ -4,6 +4,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { MessageSquare } from 'lucide-react';
 import ChatDialog from '../chat/ChatDialog';
 import { useToast } from '@/hooks/use-toast';
+import { usePresence } from '@/hooks/use-presence';
+import { PRESENCE_DOT_CLASSES, describePresence } from '@/lib/presence';
 
 interface GeneralPhysicianChatProps {
   patientId: string;
@@ -12,6 +14,7 @@ interface GeneralPhysicianChatProps {
 const GeneralPhysicianChat = ({ patientId }: GeneralPhysicianChatProps) => {
   const [generalPhysician, setGeneralPhysician] = useState<any>(null);
   const { toast } = useToast();
+  const { statusOf } = usePresence();
 
   useEffect(() => {
     const fetchGeneralPhysician = async () => {
@@ -23,7 +26,8 @@ const GeneralPhysicianChat = ({ patientId }: GeneralPhysicianChatProps) => {
           specialization,
           profiles!inner (
             id,
-            full_name
+            full_name,
+            last_seen_at
           )
         `)
         .eq('role', 'doctor')
@@ -45,6 +49,7 @@ const GeneralPhysicianChat = ({ patientId }: GeneralPhysicianChatProps) => {
         setGeneralPhysician({
           id: data.user_id,
           name: data.profiles.full_name,
+          lastSeenAt: data.profiles.last_seen_at,
           specialization: data.specialization
         });
       }
@@ -57,6 +62,8 @@ const GeneralPhysicianChat = ({ patientId }: GeneralPhysicianChatProps) => {
     return null;
   }
 
+  const presence = statusOf(generalPhysician.id);
+
   return (
     <Card className="border-secondary/30 bg-gradient-to-br from-secondary/5 to-background hover:shadow-lg transition-shadow">
       <CardHeader>
@@ -67,6 +74,10 @@ const GeneralPhysicianChat = ({ patientId }: GeneralPhysicianChatProps) => {
         <CardDescription>
           Chat with our general physician anytime
         </CardDescription>
+        <p className="text-sm text-muted-foreground flex items-center gap-2">
+          <span className={`inline-block w-2 h-2 rounded-full ${PRESENCE_DOT_CLASSES[presence]}`} />
+          Dr. {generalPhysician.name} · {describePresence(presence, generalPhysician.lastSeenAt)}
+        </p>
       </CardHeader>
       <CardContent>
         <ChatDialog
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { FileCheck } from 'lucide-react';
+import { formatMoney } from '@/lib/invoice';
+import type { ClaimStatus } from '@/lib/insurance';
+
+interface Claim {
+  id: string;
+  status: ClaimStatus;
+  claim_reference: string | null;
+  amount_claimed: number;
+  amount_approved: number | null;
+}
+
+interface InsuranceClaimDialogProps {
+  appointmentId: string;
+  insuranceAmount: number;
+  claim: Claim | null;
+  onUpdated: () => void;
+}
+
+// The next step of the claim lifecycle the doctor records from here
+const ACTION_LABELS: Record<'submit' | 'decide' | 'pay', string> = {
+  submit: 'Submit Claim',
+  decide: 'Record Decision',
+  pay: 'Record Payment',
+};
+
+const InsuranceClaimDialog = ({ appointmentId, insuranceAmount, claim, onUpdated }: InsuranceClaimDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [reference, setReference] = useState('');
+  const [decision, setDecision] = useState<'approved' | 'denied'>('approved');
+  const [amount, setAmount] = useState('');
+  const [denialReason, setDenialReason] = useState('');
+
+  const action = !claim || claim.status === 'denied' ? 'submit' : claim.status === 'submitted' ? 'decide' : 'pay';
+  const maxAmount = action === 'pay' ? Number(claim?.amount_approved) : Number(claim?.amount_claimed ?? insuranceAmount);
+
+  if (claim?.status === 'paid') return null;
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setReference(claim?.claim_reference ?? '');
+      setDecision('approved');
+      setAmount(maxAmount.toFixed(2));
+      setDenialReason('');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    const { error } =
+      action === 'submit'
+        ? await supabase.rpc('submit_insurance_claim', {
+            _appointment_id: appointmentId,
+            _claim_reference: reference,
+          })
+        : await supabase.rpc('update_insurance_claim', {
+            _claim_id: claim!.id,
+            _status: action === 'pay' ? 'paid' : decision,
+            _amount: action === 'decide' && decision === 'denied' ? null : parseFloat(amount) || null,
+            _denial_reason: action === 'decide' && decision === 'denied' ? denialReason : null,
+          });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+      setLoading(false);
+      return;
+    }
+
+    toast({
+      title: 'Success',
+      description: action === 'submit' ? 'Claim submitted' : 'Claim updated',
+    });
+    setOpen(false);
+    onUpdated();
+    setLoading(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost" className="h-7 px-2">
+          <FileCheck className="w-4 h-4 mr-1" />
+          {claim?.status === 'denied' ? 'Resubmit Claim' : ACTION_LABELS[action]}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{claim?.status === 'denied' ? 'Resubmit Claim' : ACTION_LABELS[action]}</DialogTitle>
+          <DialogDescription>
+            {action === 'submit' && `Claim ${formatMoney(insuranceAmount)} from the patient's insurer.`}
+            {action === 'decide' && `Record the insurer's decision on the ${formatMoney(Number(claim!.amount_claimed))} claimed.`}
+            {action === 'pay' && `Record the insurer's payment of the ${formatMoney(Number(claim!.amount_approved))} approved.`}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {action === 'submit' && (
+            <div className="space-y-2">
+              <Label htmlFor="claim-reference">Payer claim reference (optional)</Label>
+              <Input id="claim-reference" value={reference} onChange={(e) => setReference(e.target.value)} />
+            </div>
+          )}
+
+          {action === 'decide' && (
+            <RadioGroup value={decision} onValueChange={(value) => setDecision(value as 'approved' | 'denied')}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="approved" id="claim-approved" />
+                <Label htmlFor="claim-approved" className="font-normal">Approved</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="denied" id="claim-denied" />
+                <Label htmlFor="claim-denied" className="font-normal">Denied</Label>
+              </div>
+            </RadioGroup>
+          )}
+
+          {(action === 'pay' || (action === 'decide' && decision === 'approved')) && (
+            <div className="space-y-2">
+              <Label htmlFor="claim-amount">{action === 'pay' ? 'Amount paid ($)' : 'Amount approved ($)'}</Label>
+              <Input
+                id="claim-amount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                max={maxAmount}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+          )}
+
+          {action === 'decide' && decision === 'denied' && (
+            <div className="space-y-2">
+              <Label htmlFor="denial-reason">Reason for denial</Label>
+              <Textarea
+                id="denial-reason"
+                placeholder="Shown to the patient"
+                value={denialReason}
+                onChange={(e) => setDenialReason(e.target.value)}
+                rows={3}
+                required
+              />
+            </div>
+          )}
+
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? 'Saving...' : 'Save'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InsuranceClaimDialog;
@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Image, ShieldCheck, Trash2 } from 'lucide-react';
+import InsurancePolicyDialog from './InsurancePolicyDialog';
+import { formatMoney } from '@/lib/invoice';
+import { describePolicy, openInsuranceCard, type InsurancePolicy } from '@/lib/insurance';
+
+interface InsurancePoliciesListProps {
+  patientId: string;
+}
+
+const InsurancePoliciesList = ({ patientId }: InsurancePoliciesListProps) => {
+  const { toast } = useToast();
+  const [policies, setPolicies] = useState<InsurancePolicy[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPolicies = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('insurance_policies')
+      .select('id, payer_name, plan_name, member_id, group_number, coverage_percent, copay_amount, card_image_path, verified_at')
+      .eq('patient_id', patientId)
+      .eq('is_active', true)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching insurance policies:', error);
+    } else {
+      setPolicies(data || []);
+    }
+    setLoading(false);
+  }, [patientId]);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, [fetchPolicies]);
+
+  const handleViewCard = async (path: string) => {
+    try {
+      await openInsuranceCard(path);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Could not open the card image',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Policies stay on file for past claims, so removing one only deactivates it
+  const handleRemove = async (policyId: string) => {
+    const { error } = await supabase
+      .from('insurance_policies')
+      .update({ is_active: false })
+      .eq('id', policyId);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Success',
+      description: 'Insurance policy removed',
+    });
+    fetchPolicies();
+  };
+
+  if (loading) {
+    return <div className="text-center py-4">Loading insurance...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {policies.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No insurance on file. Add a policy to bill your visits to your insurer.
+        </p>
+      ) : (
+        policies.map((policy) => (
+          <div key={policy.id} className="border rounded-lg p-4 flex justify-between items-start gap-4">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2 font-medium">
+                <ShieldCheck className="w-4 h-4 text-primary" />
+                {describePolicy(policy)}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {policy.group_number ? `Group ${policy.group_number} · ` : ''}
+                Co-pay {formatMoney(Number(policy.copay_amount))} · Covers {policy.coverage_percent}%
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {policy.verified_at
+                  ? 'Verified with your insurer by your doctor'
+                  : 'Not verified yet. Your doctor checks these terms with your insurer.'}
+              </p>
+            </div>
+            <div className="flex gap-1">
+              {policy.card_image_path && (
+                <Button size="sm" variant="ghost" onClick={() => handleViewCard(policy.card_image_path!)}>
+                  <Image className="w-4 h-4 mr-1" />
+                  Card
+                </Button>
+              )}
+              <InsurancePolicyDialog patientId={patientId} policy={policy} onSaved={fetchPolicies} />
+              <Button size="sm" variant="ghost" onClick={() => handleRemove(policy.id)}>
+                <Trash2 className="w-4 h-4 mr-1" />
+                Remove
+              </Button>
+            </div>
+          </div>
+        ))
+      )}
+      <InsurancePolicyDialog patientId={patientId} onSaved={fetchPolicies} />
+    </div>
+  );
+};
+
+export default InsurancePoliciesList;
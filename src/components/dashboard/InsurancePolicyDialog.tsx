@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Pencil, Plus } from 'lucide-react';
+import { INSURANCE_CARD_BUCKET, type InsurancePolicy } from '@/lib/insurance';
+
+interface InsurancePolicyDialogProps {
+  patientId: string;
+  policy?: InsurancePolicy;
+  onSaved: () => void;
+}
+
+const InsurancePolicyDialog = ({ patientId, policy, onSaved }: InsurancePolicyDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [payerName, setPayerName] = useState(policy?.payer_name ?? '');
+  const [planName, setPlanName] = useState(policy?.plan_name ?? '');
+  const [memberId, setMemberId] = useState(policy?.member_id ?? '');
+  const [groupNumber, setGroupNumber] = useState(policy?.group_number ?? '');
+  const [coveragePercent, setCoveragePercent] = useState(String(policy?.coverage_percent ?? 80));
+  const [copayAmount, setCopayAmount] = useState(Number(policy?.copay_amount ?? 0).toFixed(2));
+  const [cardImage, setCardImage] = useState<File | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    let cardImagePath = policy?.card_image_path ?? null;
+    if (cardImage) {
+      const extension = cardImage.name.split('.').pop() || 'jpg';
+      const path = `${patientId}/${crypto.randomUUID()}.${extension}`;
+      const { error: uploadError } = await supabase.storage
+        .from(INSURANCE_CARD_BUCKET)
+        .upload(path, cardImage, { contentType: cardImage.type });
+
+      if (uploadError) {
+        toast({
+          title: 'Error',
+          description: uploadError.message,
+          variant: 'destructive',
+        });
+        setLoading(false);
+        return;
+      }
+      cardImagePath = path;
+    }
+
+    const values = {
+      payer_name: payerName.trim(),
+      plan_name: planName.trim() || null,
+      member_id: memberId.trim(),
+      group_number: groupNumber.trim() || null,
+      coverage_percent: Math.min(100, Math.max(0, parseInt(coveragePercent, 10) || 0)),
+      copay_amount: Math.max(0, parseFloat(copayAmount) || 0),
+      card_image_path: cardImagePath,
+    };
+
+    const { error } = policy
+      ? await supabase.from('insurance_policies').update(values).eq('id', policy.id)
+      : await supabase.from('insurance_policies').insert({ ...values, patient_id: patientId });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+      setLoading(false);
+      return;
+    }
+
+    // The previous card is no longer referenced once a new one is on file
+    if (cardImage && policy?.card_image_path) {
+      await supabase.storage.from(INSURANCE_CARD_BUCKET).remove([policy.card_image_path]);
+    }
+
+    toast({
+      title: 'Success',
+      description: policy ? 'Insurance policy updated' : 'Insurance policy added',
+    });
+    setOpen(false);
+    setCardImage(null);
+    if (!policy) {
+      setPayerName('');
+      setPlanName('');
+      setMemberId('');
+      setGroupNumber('');
+      setCoveragePercent('80');
+      setCopayAmount('0.00');
+    }
+    onSaved();
+    setLoading(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {policy ? (
+          <Button size="sm" variant="ghost">
+            <Pencil className="w-4 h-4 mr-1" />
+            Edit
+          </Button>
+        ) : (
+          <Button size="sm">
+            <Plus className="w-4 h-4 mr-1" />
+            Add Insurance
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{policy ? 'Edit Insurance Policy' : 'Add Insurance Policy'}</DialogTitle>
+          <DialogDescription>Your doctor uses these details to bill your insurer</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="payer-name">Insurance company</Label>
+            <Input id="payer-name" value={payerName} onChange={(e) => setPayerName(e.target.value)} required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="plan-name">Plan (optional)</Label>
+            <Input id="plan-name" value={planName} onChange={(e) => setPlanName(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="member-id">Member ID</Label>
+              <Input id="member-id" value={memberId} onChange={(e) => setMemberId(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="group-number">Group number (optional)</Label>
+              <Input id="group-number" value={groupNumber} onChange={(e) => setGroupNumber(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="copay-amount">Co-pay ($)</Label>
+              <Input
+                id="copay-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={copayAmount}
+                onChange={(e) => setCopayAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="coverage-percent">Coverage (%)</Label>
+              <Input
+                id="coverage-percent"
+                type="number"
+                min="0"
+                max="100"
+                value={coveragePercent}
+                onChange={(e) => setCoveragePercent(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Visits billed to insurance cost you the co-pay. Visits split with insurance cost you the share your plan doesn't cover.
+            Your doctor verifies these terms with your insurer, and changing them means they are checked again.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="card-image">Insurance card {policy?.card_image_path ? '(replace)' : '(optional)'}</Label>
+            <Input
+              id="card-image"
+              type="file"
+              accept="image/*"
+              onChange={(e) => setCardImage(e.target.files?.[0] ?? null)}
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? 'Saving...' : 'Save Policy'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InsurancePolicyDialog;
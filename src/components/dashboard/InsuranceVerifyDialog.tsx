@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { BadgeCheck } from 'lucide-react';
+import type { InsurancePolicy } from '@/lib/insurance';
+
+interface InsuranceVerifyDialogProps {
+  appointmentId: string;
+  policy: Pick<InsurancePolicy, 'payer_name' | 'coverage_percent' | 'copay_amount' | 'verified_at'>;
+  onUpdated: () => void;
+}
+
+// The doctor records the terms the insurer confirmed; unclaimed visits on the policy are re-priced
+const InsuranceVerifyDialog = ({ appointmentId, policy, onUpdated }: InsuranceVerifyDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [coveragePercent, setCoveragePercent] = useState('');
+  const [copayAmount, setCopayAmount] = useState('');
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setCoveragePercent(String(policy.coverage_percent));
+      setCopayAmount(Number(policy.copay_amount).toFixed(2));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    const { error } = await supabase.rpc('verify_insurance_policy', {
+      _appointment_id: appointmentId,
+      _coverage_percent: Math.min(100, Math.max(0, parseInt(coveragePercent, 10) || 0)),
+      _copay_amount: Math.max(0, parseFloat(copayAmount) || 0),
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+      setLoading(false);
+      return;
+    }
+
+    toast({
+      title: 'Success',
+      description: 'Coverage verified',
+    });
+    setOpen(false);
+    onUpdated();
+    setLoading(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost" className="h-7 px-2">
+          <BadgeCheck className="w-4 h-4 mr-1" />
+          {policy.verified_at ? 'Update Coverage' : 'Verify Coverage'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{policy.verified_at ? 'Update Coverage' : 'Verify Coverage'}</DialogTitle>
+          <DialogDescription>
+            Enter the terms {policy.payer_name} confirmed. Visits on this policy that haven't been claimed yet are
+            re-priced, and the patient is billed or credited the difference.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="verify-copay-amount">Co-pay ($)</Label>
+              <Input
+                id="verify-copay-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={copayAmount}
+                onChange={(e) => setCopayAmount(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="verify-coverage-percent">Coverage (%)</Label>
+              <Input
+                id="verify-coverage-percent"
+                type="number"
+                min="0"
+                max="100"
+                value={coveragePercent}
+                onChange={(e) => setCoveragePercent(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? 'Saving...' : 'Save'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InsuranceVerifyDialog;
@@ -0,0 +1,128 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Receipt } from 'lucide-react';
+import { formatMoney, invoiceTitle, printInvoice, type Invoice, type InvoiceLineItem } from '@/lib/invoice';
+
+interface InvoiceDialogProps {
+  paymentId: string;
+  paid: boolean;
+}
+
+const InvoiceDialog = ({ paymentId, paid }: InvoiceDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchInvoice = async () => {
+      setLoading(true);
+      const { data } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('payment_id', paymentId)
+        .maybeSingle();
+
+      setInvoice(data ? { ...data, line_items: data.line_items as unknown as InvoiceLineItem[] } : null);
+      setLoading(false);
+    };
+    fetchInvoice();
+  }, [open, paymentId]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost" className="h-7 px-2">
+          <Receipt className="w-4 h-4 mr-1" />
+          {paid ? 'Receipt' : 'Invoice'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{invoice ? invoiceTitle(invoice) : paid ? 'Receipt' : 'Invoice'}</DialogTitle>
+          {invoice && (
+            <DialogDescription>
+              Issued {format(new Date(invoice.issued_at), 'PP')}
+              {invoice.paid_at && ` · Paid ${format(new Date(invoice.paid_at), 'PP')}`}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : !invoice ? (
+          <p className="text-sm text-muted-foreground">No invoice has been issued for this payment yet.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                {invoice.practice_name && <p className="font-medium">{invoice.practice_name}</p>}
+                <p>
+                  Dr. {invoice.doctor_name}
+                  {invoice.doctor_specialization && `, ${invoice.doctor_specialization}`}
+                </p>
+                {invoice.doctor_license_number && (
+                  <p className="text-muted-foreground">License no. {invoice.doctor_license_number}</p>
+                )}
+                {invoice.practice_address && <p className="text-muted-foreground">{invoice.practice_address}</p>}
+                {invoice.tax_id && <p className="text-muted-foreground">Tax ID {invoice.tax_id}</p>}
+              </div>
+              <div className="text-right">
+                <p className="text-muted-foreground">Billed to</p>
+                <p>{invoice.patient_name}</p>
+                <p className="text-muted-foreground">Invoice {invoice.invoice_number}</p>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invoice.line_items.map((item, index) => (
+                  <TableRow key={index}>
+                    <TableCell>{item.description}</TableCell>
+                    <TableCell className="text-right">{item.quantity}</TableCell>
+                    <TableCell className="text-right">{formatMoney(item.amount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={2} className="text-right">Subtotal</TableCell>
+                  <TableCell className="text-right">{formatMoney(invoice.subtotal)}</TableCell>
+                </TableRow>
+                {invoice.tax_rate > 0 && (
+                  <TableRow>
+                    <TableCell colSpan={2} className="text-right">Tax ({Number(invoice.tax_rate)}%, included)</TableCell>
+                    <TableCell className="text-right">{formatMoney(invoice.tax_amount)}</TableCell>
+                  </TableRow>
+                )}
+                <TableRow>
+                  <TableCell colSpan={2} className="text-right">{invoice.paid_at ? 'Amount paid' : 'Amount due'}</TableCell>
+                  <TableCell className="text-right">{formatMoney(invoice.total)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+
+            <Button className="w-full" onClick={() => printInvoice(invoice)}>
+              <Download className="w-4 h-4 mr-2" />
+              Download PDF
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InvoiceDialog;
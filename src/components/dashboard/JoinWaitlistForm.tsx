@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ListPlus } from 'lucide-react';
+import { addDays, format } from 'date-fns';
+
+interface JoinWaitlistFormProps {
+  doctorId: string;
+  doctorName: string;
+  appointmentTypeId: string | null;
+  patientId: string;
+  note: string;
+  onJoined: () => void;
+}
+
+const JoinWaitlistForm = ({ doctorId, doctorName, appointmentTypeId, patientId, note, onJoined }: JoinWaitlistFormProps) => {
+  const { toast } = useToast();
+  const [earliestDate, setEarliestDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [latestDate, setLatestDate] = useState(format(addDays(new Date(), 14), 'yyyy-MM-dd'));
+  const [saving, setSaving] = useState(false);
+
+  const handleJoin = async () => {
+    if (latestDate < earliestDate) {
+      toast({
+        title: 'Error',
+        description: 'The latest date must be on or after the earliest date',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setSaving(true);
+
+    const { error } = await supabase.from('waitlist_entries').insert({
+      doctor_id: doctorId,
+      patient_id: patientId,
+      appointment_type_id: appointmentTypeId,
+      earliest_date: earliestDate,
+      latest_date: latestDate,
+      note: note || null,
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.code === '23505' ? `You are already on Dr. ${doctorName}'s waitlist` : error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: `You'll be offered the first slot that opens up with Dr. ${doctorName}`,
+      });
+      onJoined();
+    }
+    setSaving(false);
+  };
+
+  return (
+    <div className="rounded-lg border border-dashed p-4 space-y-3">
+      <div>
+        <p className="text-sm font-medium">No suitable time?</p>
+        <p className="text-xs text-muted-foreground">
+          Join the waitlist and we'll hold the next cancelled slot in your date range for you.
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="waitlist-earliest" className="text-xs">Earliest date</Label>
+          <Input
+            id="waitlist-earliest"
+            type="date"
+            min={format(new Date(), 'yyyy-MM-dd')}
+            value={earliestDate}
+            onChange={(e) => setEarliestDate(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="waitlist-latest" className="text-xs">Latest date</Label>
+          <Input
+            id="waitlist-latest"
+            type="date"
+            min={earliestDate}
+            value={latestDate}
+            onChange={(e) => setLatestDate(e.target.value)}
+          />
+        </div>
+      </div>
+      <Button type="button" variant="outline" className="w-full" onClick={handleJoin} disabled={saving}>
+        <ListPlus className="w-4 h-4 mr-2" />
+        {saving ? 'Joining...' : 'Join Waitlist'}
+      </Button>
+    </div>
+  );
+};
+
+export default JoinWaitlistForm;
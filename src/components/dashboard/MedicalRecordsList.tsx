@@ -2,8 +2,11 @@ import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { FileText, Activity, Image, Stethoscope } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { FileText, Activity, Image, Stethoscope, Paperclip } from 'lucide-react';
 import { format } from 'date-fns';
+import { getAttachmentUrl } from '@/lib/chat';
 
 interface MedicalRecord {
   id: string;
@@ -12,6 +15,7 @@ interface MedicalRecord {
   description: string;
   test_name: string;
   test_results: any;
+  file_path: string | null;
   recorded_date: string;
   created_at: string;
 }
@@ -21,6 +25,7 @@ interface MedicalRecordsListProps {
 }
 
 const MedicalRecordsList = ({ patientId }: MedicalRecordsListProps) => {
+  const { toast } = useToast();
   const [records, setRecords] = useState<MedicalRecord[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -44,6 +49,19 @@ const MedicalRecordsList = ({ patientId }: MedicalRecordsListProps) => {
     setLoading(false);
   };
 
+  // Files filed from a chat live in the private chat-attachments bucket
+  const handleOpenFile = async (path: string) => {
+    try {
+      window.open(await getAttachmentUrl(path), '_blank', 'noopener');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Could not open the file',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const getRecordIcon = (type: string) => {
     switch (type) {
       case 'lab_result':
@@ -128,6 +146,12 @@ const MedicalRecordsList = ({ patientId }: MedicalRecordsListProps) => {
                     </pre>
                   </div>
                 )}
+                {record.file_path && (
+                  <Button size="sm" variant="outline" className="mb-3" onClick={() => handleOpenFile(record.file_path!)}>
+                    <Paperclip className="w-4 h-4 mr-1" />
+                    View file
+                  </Button>
+                )}
                 <div className="flex items-center gap-4 text-xs text-muted-foreground">
                   <span>Recorded: {format(new Date(record.recorded_date), 'MMM dd, yyyy')}</span>
                   <span>•</span>
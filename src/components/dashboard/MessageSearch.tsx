@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Search } from 'lucide-react';
+import { format } from 'date-fns';
+import ChatDialog from '../chat/ChatDialog';
+import HighlightedText from '../chat/HighlightedText';
+import { parseHeadline, type ChatSearchHit } from '@/lib/chat';
+
+interface MessageSearchProps {
+  doctorId: string;
+}
+
+const MessageSearch = ({ doctorId }: MessageSearchProps) => {
+  const { toast } = useToast();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ChatSearchHit[]>([]);
+  const [searchedFor, setSearchedFor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Searches every chat the doctor is part of; RLS keeps other doctors' chats out
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    const { data, error } = await supabase.rpc('search_chat_messages', { _query: query.trim() });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setResults(data || []);
+      setSearchedFor(query.trim());
+    }
+    setLoading(false);
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Search className="w-4 h-4 mr-2" />
+          Search Messages
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Search Messages</DialogTitle>
+          <DialogDescription>Find messages across all of your patient chats.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <Input
+            autoFocus
+            placeholder='e.g. dosage, or "blood pressure"'
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          <Button type="submit" disabled={loading || !query.trim()}>
+            {loading ? 'Searching...' : 'Search'}
+          </Button>
+        </form>
+
+        <div className="max-h-[400px] overflow-y-auto space-y-2">
+          {results.map((hit) => (
+            <div key={hit.id} className="border rounded-lg p-3 flex items-start justify-between gap-3">
+              <div className="space-y-1 min-w-0">
+                <p className="text-sm font-medium">
+                  {hit.patient_name ?? 'Patient'}
+                  <span className="text-xs text-muted-foreground font-normal ml-2">
+                    {format(new Date(hit.created_at), 'MMM d, yyyy HH:mm')}
+                    {hit.sender_id === doctorId ? ' · You' : ''}
+                  </span>
+                </p>
+                <p className="text-sm text-muted-foreground break-words">
+                  <HighlightedText segments={parseHeadline(hit.headline)} />
+                </p>
+              </div>
+              <ChatDialog
+                appointmentId={hit.appointment_id ?? undefined}
+                patientId={hit.patient_id}
+                doctorId={hit.doctor_id}
+                currentUserId={doctorId}
+                otherUserName={hit.patient_name ?? 'Patient'}
+                variant="outline"
+                focusMessage={hit}
+              />
+            </div>
+          ))}
+          {searchedFor && results.length === 0 && (
+            <p className="text-sm text-muted-foreground">No messages match "{searchedFor}".</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MessageSearch;
@@ -0,0 +1,225 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { MessageSquareText, Pencil, Plus, Save, Trash2 } from 'lucide-react';
+import { TEMPLATE_PLACEHOLDERS, type MessageTemplate } from '@/lib/templates';
+
+interface MessageTemplatesSettingsProps {
+  doctorId: string;
+  // Clinic admins can also add, edit and delete the clinic-wide templates
+  isAdmin?: boolean;
+}
+
+const MessageTemplatesSettings = ({ doctorId, isAdmin = false }: MessageTemplatesSettingsProps) => {
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [shortcut, setShortcut] = useState('');
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [forClinic, setForClinic] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const bodyRef = useRef<HTMLTextAreaElement | null>(null);
+
+  const fetchTemplates = async () => {
+    // RLS returns the doctor's own templates plus the clinic's shared ones
+    const { data, error } = await supabase
+      .from('message_templates')
+      .select('id, doctor_id, shortcut, title, body')
+      .order('shortcut', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching message templates:', error);
+      return;
+    }
+    setTemplates(data || []);
+  };
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [doctorId]);
+
+  const insertPlaceholder = (key: string) => {
+    const token = `{{${key}}}`;
+    const el = bodyRef.current;
+    const start = el?.selectionStart ?? body.length;
+    const end = el?.selectionEnd ?? body.length;
+    setBody(body.slice(0, start) + token + body.slice(end));
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const canManage = (template: MessageTemplate) =>
+    template.doctor_id === doctorId || (isAdmin && template.doctor_id === null);
+
+  const resetForm = () => {
+    setShortcut('');
+    setTitle('');
+    setBody('');
+    setForClinic(false);
+    setEditingId(null);
+  };
+
+  const handleEdit = (template: MessageTemplate) => {
+    setShortcut(template.shortcut);
+    setTitle(template.title);
+    setBody(template.body);
+    setForClinic(template.doctor_id === null);
+    setEditingId(template.id);
+  };
+
+  const handleSave = async () => {
+    const values = {
+      shortcut: shortcut.trim().toLowerCase(),
+      title: title.trim(),
+      body: body.trim(),
+    };
+
+    const { error } = editingId
+      ? await supabase.from('message_templates').update(values).eq('id', editingId)
+      : await supabase.from('message_templates').insert({ ...values, doctor_id: forClinic ? null : doctorId });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.code === '23505' ? 'There is already a template with that shortcut' : error.message,
+        variant: 'destructive',
+      });
+    } else {
+      resetForm();
+      fetchTemplates();
+    }
+  };
+
+  const handleDelete = async (templateId: string) => {
+    const { error } = await supabase
+      .from('message_templates')
+      .delete()
+      .eq('id', templateId);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      if (templateId === editingId) resetForm();
+      fetchTemplates();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="border rounded-lg p-4 flex flex-wrap items-end gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="template-shortcut">Shortcut</Label>
+          <div className="flex items-center gap-1">
+            <span className="text-muted-foreground">/</span>
+            <Input
+              id="template-shortcut"
+              placeholder="fasting"
+              className="w-36"
+              value={shortcut}
+              onChange={(e) => setShortcut(e.target.value.toLowerCase().replace(/[^a-z0-9_-]/g, ''))}
+            />
+          </div>
+        </div>
+        <div className="space-y-2 flex-1 min-w-[180px]">
+          <Label htmlFor="template-title">Title</Label>
+          <Input
+            id="template-title"
+            placeholder="e.g. Fasting before blood test"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2 w-full">
+          <Label htmlFor="template-body">Message</Label>
+          <Textarea
+            id="template-body"
+            ref={bodyRef}
+            rows={3}
+            placeholder="Hi {{patient_name}}, please fast for 8 hours before your test on {{appointment_date}}."
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+          />
+          <div className="flex flex-wrap gap-1">
+            {TEMPLATE_PLACEHOLDERS.map((placeholder) => (
+              <Button
+                key={placeholder.key}
+                type="button"
+                size="sm"
+                variant="secondary"
+                className="h-7"
+                onClick={() => insertPlaceholder(placeholder.key)}
+              >
+                + {placeholder.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+        {isAdmin && (
+          <div className="flex items-center gap-2">
+            <Switch checked={forClinic} onCheckedChange={setForClinic} disabled={!!editingId} />
+            <span className="text-sm">Share with the whole clinic</span>
+          </div>
+        )}
+        <Button
+          variant="outline"
+          onClick={handleSave}
+          disabled={shortcut.length < 2 || !title.trim() || !body.trim()}
+        >
+          {editingId ? <Save className="w-4 h-4 mr-1" /> : <Plus className="w-4 h-4 mr-1" />}
+          {editingId ? 'Save Template' : 'Add Template'}
+        </Button>
+        {editingId && (
+          <Button variant="ghost" onClick={resetForm}>
+            Cancel
+          </Button>
+        )}
+      </div>
+
+      {templates.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No templates yet. Type / in a chat to insert one instead of retyping common instructions.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {templates.map((template) => (
+            <div key={template.id} className="border rounded-lg p-3 flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="font-medium flex items-center gap-2">
+                  <MessageSquareText className="w-4 h-4 text-primary" />
+                  /{template.shortcut}
+                  <span className="font-normal text-muted-foreground">{template.title}</span>
+                  {template.doctor_id === null && <Badge variant="secondary">Clinic</Badge>}
+                </p>
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap break-words">{template.body}</p>
+              </div>
+              {canManage(template) && (
+                <div className="flex shrink-0">
+                  <Button size="icon" variant="ghost" onClick={() => handleEdit(template)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" onClick={() => handleDelete(template.id)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MessageTemplatesSettings;
@@ -2,18 +2,24 @@ import { useState, useEffect } from 'react';
 import type { User } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { signOut } from '@/lib/auth';
+import { getBrowserTimeZone } from '@/lib/timezone';
 import { useNavigate } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
+import { useUnreadChats } from '@/hooks/use-unread-chats';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Calendar, FileText, Bell, LogOut, Activity, Folder } from 'lucide-react';
+import { Calendar, FileText, Bell, LogOut, Activity, Folder, ShieldCheck } from 'lucide-react';
 import BookAppointmentDialog from './BookAppointmentDialog';
 import AppointmentsList from './AppointmentsList';
 import ConsultationsList from './ConsultationsList';
 import NotificationsList from './NotificationsList';
+import TimeZoneSelect from './TimeZoneSelect';
 import GeneralPhysicianChat from './GeneralPhysicianChat';
 import MedicalRecordsList from './MedicalRecordsList';
+import WaitlistPanel from './WaitlistPanel';
+import InsurancePoliciesList from './InsurancePoliciesList';
 
 interface PatientDashboardProps {
   user: User;
@@ -24,6 +30,11 @@ const PatientDashboard = ({ user }: PatientDashboardProps) => {
   const { toast } = useToast();
   const [profile, setProfile] = useState<any>(null);
   const [refreshKey, setRefreshKey] = useState(0);
+  const { counts: unreadChats } = useUnreadChats();
+  // The general physician chat has its own button, so the tab only counts appointment chats
+  const unreadMessages = unreadChats
+    .filter((row) => row.appointment_id)
+    .reduce((sum, row) => sum + row.unread_count, 0);
 
   useEffect(() => {
     const fetchProfile = async () => {
@@ -43,6 +54,8 @@ const PatientDashboard = ({ user }: PatientDashboardProps) => {
     navigate('/auth');
   };
 
+  const timeZone = profile?.time_zone ?? getBrowserTimeZone();
+
   const handleAppointmentBooked = () => {
     setRefreshKey(prev => prev + 1);
   };
@@ -62,31 +75,43 @@ const PatientDashboard = ({ user }: PatientDashboardProps) => {
               <p className="text-sm text-muted-foreground">Welcome, {profile?.full_name}</p>
             </div>
           </div>
-          <Button
-            variant="outline"
-            onClick={handleSignOut}
-            className="hover:bg-destructive/10 hover:text-destructive hover:border-destructive transition-colors"
-          >
-            <LogOut className="w-4 h-4 mr-2" />
-            Logout
-          </Button>
+          <div className="flex items-center gap-3">
+            <TimeZoneSelect
+              userId={user.id}
+              value={timeZone}
+              onChange={(time_zone) => setProfile((prev) => ({ ...prev, time_zone }))}
+            />
+            <Button
+              variant="outline"
+              onClick={handleSignOut}
+              className="hover:bg-destructive/10 hover:text-destructive hover:border-destructive transition-colors"
+            >
+              <LogOut className="w-4 h-4 mr-2" />
+              Logout
+            </Button>
+          </div>
         </div>
       </nav>
 
       <div className="container mx-auto px-6 py-10">
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
           <div className="lg:col-span-2">
-            <BookAppointmentDialog userId={user.id} onAppointmentBooked={handleAppointmentBooked} />
+            <BookAppointmentDialog userId={user.id} timeZone={timeZone} onAppointmentBooked={handleAppointmentBooked} />
           </div>
           <GeneralPhysicianChat patientId={user.id} />
         </div>
 
-        {/* FIXED: Now only 4 tabs, so grid-cols-4 */}
+        {/* One column per tab */}
         <Tabs defaultValue="appointments" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4 bg-muted/50 p-1.5 h-auto">
+          <TabsList className="grid w-full grid-cols-5 bg-muted/50 p-1.5 h-auto">
             <TabsTrigger value="appointments" className="data-[state=active]:bg-background data-[state=active]:shadow-md py-3">
               <Calendar className="w-4 h-4 mr-2" />
               Appointments
+              {unreadMessages > 0 && (
+                <Badge variant="destructive" className="ml-2 h-5 px-1.5" title={`${unreadMessages} unread messages`}>
+                  {unreadMessages}
+                </Badge>
+              )}
             </TabsTrigger>
 
             <TabsTrigger value="consultations" className="data-[state=active]:bg-background data-[state=active]:shadow-md py-3">
@@ -99,6 +124,11 @@ const PatientDashboard = ({ user }: PatientDashboardProps) => {
               Records
             </TabsTrigger>
 
+            <TabsTrigger value="insurance" className="data-[state=active]:bg-background data-[state=active]:shadow-md py-3">
+              <ShieldCheck className="w-4 h-4 mr-2" />
+              Insurance
+            </TabsTrigger>
+
             <TabsTrigger value="notifications" className="data-[state=active]:bg-background data-[state=active]:shadow-md py-3">
               <Bell className="w-4 h-4 mr-2" />
               Notifications
@@ -115,7 +145,8 @@ const PatientDashboard = ({ user }: PatientDashboardProps) => {
                 <CardDescription>View and manage your appointments</CardDescription>
               </CardHeader>
               <CardContent>
-                <AppointmentsList userId={user.id} role="patient" key={refreshKey} />
+                <WaitlistPanel patientId={user.id} timeZone={timeZone} onBooked={handleAppointmentBooked} key={`waitlist-${refreshKey}`} />
+                <AppointmentsList userId={user.id} role="patient" timeZone={timeZone} key={refreshKey} />
               </CardContent>
             </Card>
           </TabsContent>
@@ -150,6 +181,21 @@ const PatientDashboard = ({ user }: PatientDashboardProps) => {
             </Card>
           </TabsContent>
 
+          <TabsContent value="insurance" className="animate-in fade-in-50 duration-300">
+            <Card className="border-primary/10">
+              <CardHeader>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <ShieldCheck className="w-6 h-6 text-primary" />
+                  Insurance
+                </CardTitle>
+                <CardDescription>Policies you can bill your appointments to</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <InsurancePoliciesList patientId={user.id} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="notifications" className="animate-in fade-in-50 duration-300">
             <Card className="border-accent/10">
               <CardHeader>
@@ -0,0 +1,58 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+
+interface Reliability {
+  total_appointments: number;
+  completed: number;
+  no_shows: number;
+  late_cancellations: number;
+  cancellations: number;
+}
+
+interface PatientReliabilityProps {
+  patientId: string;
+}
+
+const PatientReliability = ({ patientId }: PatientReliabilityProps) => {
+  const [reliability, setReliability] = useState<Reliability | null>(null);
+
+  useEffect(() => {
+    const fetchReliability = async () => {
+      const { data, error } = await supabase.rpc('get_patient_reliability', { _patient_id: patientId });
+
+      if (error) {
+        console.error('Error fetching patient reliability:', error);
+        return;
+      }
+      setReliability(data?.[0] ?? null);
+    };
+    fetchReliability();
+  }, [patientId]);
+
+  if (!reliability) return null;
+
+  const flagged = reliability.no_shows + reliability.late_cancellations > 0;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+      {flagged ? (
+        <ShieldAlert className="w-4 h-4 text-destructive" />
+      ) : (
+        <ShieldCheck className="w-4 h-4 text-primary" />
+      )}
+      <span>Patient history:</span>
+      <Badge variant="outline">{reliability.completed} completed</Badge>
+      <Badge variant={reliability.no_shows > 0 ? 'destructive' : 'outline'}>
+        {reliability.no_shows} no-show{reliability.no_shows !== 1 ? 's' : ''}
+      </Badge>
+      <Badge variant={reliability.late_cancellations > 0 ? 'destructive' : 'outline'}>
+        {reliability.late_cancellations} late cancel{reliability.late_cancellations !== 1 ? 's' : ''}
+      </Badge>
+      <Badge variant="outline">{reliability.cancellations} cancelled</Badge>
+    </div>
+  );
+};
+
+export default PatientReliability;
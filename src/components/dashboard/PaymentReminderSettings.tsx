@@ -0,0 +1,167 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+
+interface PaymentReminderSettingsProps {
+  doctorId: string;
+}
+
+// Same as the payment_reminder_policies column defaults
+const DEFAULT_SCHEDULE = '1, 3, 7';
+const DEFAULT_TEMPLATES = [
+  'Reminder: you have a pending payment of {amount} for your appointment with Dr. {doctor} on {appointment}.',
+  'Second reminder: your payment of {amount} to Dr. {doctor} is still outstanding. You can pay from your appointments.',
+  'Final notice: your payment of {amount} to Dr. {doctor} has been outstanding for {days} days and has been flagged as overdue.',
+];
+
+const parseSchedule = (value: string) =>
+  [...new Set(value.split(',').map((day) => parseInt(day.trim(), 10)))]
+    .filter((day) => day > 0 && day <= 365)
+    .sort((a, b) => a - b);
+
+const PaymentReminderSettings = ({ doctorId }: PaymentReminderSettingsProps) => {
+  const { toast } = useToast();
+  const [enabled, setEnabled] = useState(true);
+  const [schedule, setSchedule] = useState(DEFAULT_SCHEDULE);
+  const [maxReminders, setMaxReminders] = useState('3');
+  const [templates, setTemplates] = useState<string[]>(DEFAULT_TEMPLATES);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchPolicy = async () => {
+      const { data } = await supabase
+        .from('payment_reminder_policies')
+        .select('enabled, schedule_days, max_reminders, templates')
+        .eq('doctor_id', doctorId)
+        .maybeSingle();
+
+      if (data) {
+        setEnabled(data.enabled);
+        setSchedule(data.schedule_days.join(', '));
+        setMaxReminders(String(data.max_reminders));
+        setTemplates(data.templates);
+      }
+    };
+    fetchPolicy();
+  }, [doctorId]);
+
+  const days = parseSchedule(schedule);
+  const reminderCount = Math.min(days.length, Math.max(1, parseInt(maxReminders, 10) || 1));
+
+  const updateTemplate = (index: number, value: string) =>
+    setTemplates((prev) => {
+      const next = [...prev];
+      // Fill any gap with the last message so it keeps being reused
+      while (next.length < index) next.push(next[next.length - 1] ?? '');
+      next[index] = value;
+      return next;
+    });
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (days.length === 0) {
+      toast({
+        title: 'Error',
+        description: 'Enter at least one reminder day, e.g. 1, 3, 7',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+
+    const { error } = await supabase.from('payment_reminder_policies').upsert({
+      doctor_id: doctorId,
+      enabled,
+      schedule_days: days.slice(0, 10),
+      max_reminders: reminderCount,
+      templates: templates.slice(0, reminderCount).map((t) => t.trim()).filter(Boolean),
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setSchedule(days.join(', '));
+      setMaxReminders(String(reminderCount));
+      toast({
+        title: 'Success',
+        description: 'Payment reminders updated',
+      });
+    }
+    setSaving(false);
+  };
+
+  return (
+    <form onSubmit={handleSave} className="space-y-4">
+      <div className="flex items-center gap-3">
+        <Switch id="reminders-enabled" checked={enabled} onCheckedChange={setEnabled} />
+        <Label htmlFor="reminders-enabled">Remind patients about unpaid fees</Label>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="reminder-days">Send reminders on day</Label>
+          <Input
+            id="reminder-days"
+            className="w-40"
+            placeholder="1, 3, 7"
+            value={schedule}
+            disabled={!enabled}
+            onChange={(e) => setSchedule(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="max-reminders">Flag overdue after</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="max-reminders"
+              type="number"
+              min="1"
+              max={Math.max(1, days.length)}
+              className="w-20"
+              value={maxReminders}
+              disabled={!enabled}
+              onChange={(e) => setMaxReminders(e.target.value)}
+            />
+            <span className="text-sm">reminders</span>
+          </div>
+        </div>
+      </div>
+
+      {enabled &&
+        days.slice(0, reminderCount).map((day, index) => (
+          <div key={index} className="space-y-2">
+            <Label htmlFor={`reminder-template-${index}`}>
+              Reminder {index + 1} (day {day}){index === reminderCount - 1 ? ' - final notice' : ''}
+            </Label>
+            <Textarea
+              id={`reminder-template-${index}`}
+              rows={2}
+              value={templates[Math.min(index, templates.length - 1)] ?? ''}
+              onChange={(e) => updateTemplate(index, e.target.value)}
+            />
+          </div>
+        ))}
+
+      <p className="text-xs text-muted-foreground">
+        Days count from when the payment was requested. Messages can use {'{amount}'}, {'{doctor}'}, {'{appointment}'} and {'{days}'}.
+      </p>
+
+      <Button type="submit" disabled={saving}>
+        {saving ? 'Saving...' : 'Save Reminders'}
+      </Button>
+    </form>
+  );
+};
+
+export default PaymentReminderSettings;
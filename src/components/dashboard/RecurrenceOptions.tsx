@@ -0,0 +1,128 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Repeat } from 'lucide-react';
+import { MAX_OCCURRENCES, generateOccurrences, type SeriesOptions } from '@/lib/recurrence';
+import { formatInTimeZone } from '@/lib/timezone';
+
+const FREQUENCY_OPTIONS = [
+  { value: 'weekly-1', label: 'Every week' },
+  { value: 'weekly-2', label: 'Every 2 weeks' },
+  { value: 'weekly-4', label: 'Every 4 weeks' },
+  { value: 'monthly-1', label: 'Every month' },
+  { value: 'monthly-3', label: 'Every 3 months' },
+];
+
+interface RecurrenceOptionsProps {
+  start: string;
+  doctorTimeZone: string;
+  viewerTimeZone: string;
+  value: SeriesOptions;
+  onChange: (value: SeriesOptions) => void;
+}
+
+const RecurrenceOptions = ({ start, doctorTimeZone, viewerTimeZone, value, onChange }: RecurrenceOptionsProps) => {
+  const update = (changes: Partial<SeriesOptions>) => onChange({ ...value, ...changes });
+  const occurrences = value.enabled && start ? generateOccurrences(start, value, doctorTimeZone) : [];
+
+  const toggleDate = (day: string, included: boolean) =>
+    update({
+      excludedDates: included
+        ? value.excludedDates.filter((d) => d !== day)
+        : [...value.excludedDates, day],
+    });
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="repeat" className="flex items-center gap-2">
+          <Repeat className="w-4 h-4" />
+          Repeat this appointment
+        </Label>
+        <Switch id="repeat" checked={value.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+      </div>
+
+      {value.enabled && (
+        <>
+          <Select
+            value={`${value.frequency}-${value.interval}`}
+            onValueChange={(key) => {
+              const [frequency, interval] = key.split('-');
+              update({ frequency: frequency as SeriesOptions['frequency'], interval: Number(interval), excludedDates: [] });
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FREQUENCY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <RadioGroup
+            value={value.endMode}
+            onValueChange={(endMode) => update({ endMode: endMode as SeriesOptions['endMode'] })}
+            className="space-y-2"
+          >
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="count" id="ends-count" />
+              <Label htmlFor="ends-count" className="cursor-pointer">After</Label>
+              <Input
+                type="number"
+                min={2}
+                max={MAX_OCCURRENCES}
+                className="w-20 h-8"
+                value={value.count}
+                disabled={value.endMode !== 'count'}
+                onChange={(e) => update({ count: Math.min(MAX_OCCURRENCES, Math.max(2, Number(e.target.value) || 2)) })}
+              />
+              <span className="text-sm">appointments</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="until" id="ends-until" />
+              <Label htmlFor="ends-until" className="cursor-pointer">Until</Label>
+              <Input
+                type="date"
+                className="w-44 h-8"
+                value={value.until}
+                disabled={value.endMode !== 'until'}
+                onChange={(e) => update({ until: e.target.value })}
+              />
+            </div>
+          </RadioGroup>
+
+          {!start ? (
+            <p className="text-xs text-muted-foreground">Pick the first appointment time to preview the series.</p>
+          ) : (
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">
+                {occurrences.length - occurrences.filter((o) => value.excludedDates.includes(o.day)).length} appointments.
+                Untick any dates you want to skip.
+              </p>
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {occurrences.map((occurrence) => (
+                  <label key={occurrence.day} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={!value.excludedDates.includes(occurrence.day)}
+                      onCheckedChange={(checked) => toggleDate(occurrence.day, checked === true)}
+                    />
+                    {formatInTimeZone(occurrence.start, viewerTimeZone)}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceOptions;
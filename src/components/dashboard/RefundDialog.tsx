@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Undo2 } from 'lucide-react';
+
+interface RefundDialogProps {
+  paymentId: string;
+  refundableAmount: number;
+  onRefunded: () => void;
+}
+
+const RefundDialog = ({ paymentId, refundableAmount, onRefunded }: RefundDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [amount, setAmount] = useState(refundableAmount.toFixed(2));
+  const [reason, setReason] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    const { error } = await supabase.rpc('issue_refund', {
+      _payment_id: paymentId,
+      _amount: parseFloat(amount) || 0,
+      _reason: reason,
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+      setLoading(false);
+      return;
+    }
+
+    toast({
+      title: 'Success',
+      description: 'Refund requested. The patient is notified once it is processed.',
+    });
+    setOpen(false);
+    setReason('');
+    onRefunded();
+    setLoading(false);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) setAmount(refundableAmount.toFixed(2));
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost" className="h-7 px-2">
+          <Undo2 className="w-4 h-4 mr-1" />
+          Refund
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Refund Payment</DialogTitle>
+          <DialogDescription>
+            Up to ${refundableAmount.toFixed(2)} can be refunded. The money goes back through the original payment method.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="refund-amount">Amount ($)</Label>
+            <Input
+              id="refund-amount"
+              type="number"
+              step="0.01"
+              min="0.01"
+              max={refundableAmount}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="refund-reason">Reason</Label>
+            <Textarea
+              id="refund-reason"
+              placeholder="Shown to the patient"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? 'Requesting...' : 'Issue Refund'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RefundDialog;
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { CalendarClock } from 'lucide-react';
+import { formatInTimeZone } from '@/lib/timezone';
+import { SCOPE_LABELS, type SeriesScope } from '@/lib/recurrence';
+import SlotPicker from './SlotPicker';
+
+interface RescheduleDialogProps {
+  appointmentId: string;
+  appointmentDate: string;
+  doctorId: string;
+  durationMinutes: number;
+  currentUserId: string;
+  otherUserId: string;
+  doctorTimeZone: string;
+  viewerTimeZone: string;
+  otherTimeZone: string;
+  isCounter?: boolean;
+  isSeries?: boolean;
+  onProposed: () => void;
+}
+
+const RescheduleDialog = ({
+  appointmentId,
+  appointmentDate,
+  doctorId,
+  durationMinutes,
+  currentUserId,
+  otherUserId,
+  doctorTimeZone,
+  viewerTimeZone,
+  otherTimeZone,
+  isCounter = false,
+  isSeries = false,
+  onProposed,
+}: RescheduleDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [proposedDate, setProposedDate] = useState('');
+  const [message, setMessage] = useState('');
+  const [scope, setScope] = useState<SeriesScope>('this');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!proposedDate) return;
+    setLoading(true);
+
+    const { error } = await supabase.from('appointment_reschedule_proposals').insert({
+      appointment_id: appointmentId,
+      proposed_by: currentUserId,
+      previous_date: appointmentDate,
+      proposed_date: proposedDate,
+      message: message || null,
+      scope,
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+      setLoading(false);
+      return;
+    }
+
+    await supabase.from('notifications').insert({
+      user_id: otherUserId,
+      title: isCounter ? 'New Time Counter-Proposed' : 'Reschedule Requested',
+      message: `A new time of ${formatInTimeZone(proposedDate, otherTimeZone)} was proposed for your appointment on ${formatInTimeZone(appointmentDate, otherTimeZone)}${
+        scope === 'this' ? '' : ` (${SCOPE_LABELS[scope].toLowerCase()})`
+      }`,
+    });
+
+    toast({
+      title: 'Success',
+      description: 'New time proposed',
+    });
+    setOpen(false);
+    setProposedDate('');
+    setMessage('');
+    setScope('this');
+    onProposed();
+    setLoading(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <CalendarClock className="w-4 h-4 mr-1" />
+          {isCounter ? 'Counter-propose' : 'Reschedule'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isCounter ? 'Propose Another Time' : 'Reschedule Appointment'}</DialogTitle>
+          <DialogDescription>
+            Currently scheduled for {formatInTimeZone(appointmentDate, viewerTimeZone)}. The other party will need to accept the new time.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <SlotPicker
+            doctorId={doctorId}
+            slotMinutes={durationMinutes}
+            doctorTimeZone={doctorTimeZone}
+            viewerTimeZone={viewerTimeZone}
+            value={proposedDate}
+            onChange={setProposedDate}
+          />
+
+          {isSeries && (
+            <div className="space-y-2">
+              <Label>Apply to</Label>
+              <RadioGroup value={scope} onValueChange={(value) => setScope(value as SeriesScope)} className="space-y-1">
+                {(Object.keys(SCOPE_LABELS) as SeriesScope[]).map((key) => (
+                  <div key={key} className="flex items-center gap-2">
+                    <RadioGroupItem value={key} id={`reschedule-scope-${key}`} />
+                    <Label htmlFor={`reschedule-scope-${key}`} className="cursor-pointer font-normal">{SCOPE_LABELS[key]}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+              {scope !== 'this' && (
+                <p className="text-xs text-muted-foreground">
+                  The other appointments move by the same amount and keep their own dates.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="reschedule-message">Message (Optional)</Label>
+            <Textarea
+              id="reschedule-message"
+              placeholder="Let them know why you need to move the appointment"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <Button type="submit" className="w-full" disabled={loading || !proposedDate}>
+            {loading ? 'Sending...' : 'Propose New Time'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RescheduleDialog;
@@ -0,0 +1,243 @@
+import { useState, useEffect } from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Download, TrendingUp } from 'lucide-react';
+import { buildCsv, downloadCsv } from '@/lib/csv';
+import { formatMoney } from '@/lib/invoice';
+import {
+  averageTimeToPayment,
+  bucketEarnings,
+  formatDuration,
+  summarizeStatuses,
+  type LedgerEntry,
+  type RevenuePeriod,
+} from '@/lib/revenue';
+import { formatInTimeZone, toZonedDateString } from '@/lib/timezone';
+
+interface RevenueDashboardProps {
+  doctorId: string;
+  timeZone: string;
+}
+
+const earningsConfig = {
+  earnings: { label: 'Earnings', color: 'hsl(var(--primary))' },
+  refunds: { label: 'Refunds', color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+const statusConfig = {
+  paid: { label: 'Paid', color: 'hsl(var(--primary))' },
+  outstanding: { label: 'Outstanding', color: 'hsl(var(--secondary))' },
+  failed: { label: 'Failed', color: 'hsl(var(--destructive))' },
+  refunded: { label: 'Refunded', color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+interface PaymentRow {
+  id: string;
+  amount: number;
+  status: string;
+  kind: string;
+  created_at: string;
+  paid_at: string | null;
+  appointment: { appointment_date: string; status: string; patient: { full_name: string } };
+  refunds: { amount: number; status: string }[];
+  invoice: { invoice_number: string; receipt_number: string | null } | null;
+}
+
+const RevenueDashboard = ({ doctorId, timeZone }: RevenueDashboardProps) => {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [period, setPeriod] = useState<RevenuePeriod>('week');
+
+  useEffect(() => {
+    const fetchLedger = async () => {
+      const { data, error } = await supabase
+        .from('payments')
+        .select(`
+          id,
+          amount,
+          status,
+          kind,
+          created_at,
+          paid_at,
+          appointment:appointments!inner(doctor_id, appointment_date, status, patient:profiles!appointments_patient_id_fkey(full_name)),
+          refunds(amount, status),
+          invoice:invoices(invoice_number, receipt_number)
+        `)
+        .eq('appointment.doctor_id', doctorId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        toast({
+          title: 'Error',
+          description: error.message,
+          variant: 'destructive',
+        });
+      } else {
+        setEntries(
+          (data as unknown as PaymentRow[]).map((row) => ({
+            id: row.id,
+            amount: Number(row.amount),
+            status: row.status,
+            kind: row.kind,
+            created_at: row.created_at,
+            paid_at: row.paid_at,
+            refunded: row.refunds
+              .filter((refund) => refund.status === 'succeeded')
+              .reduce((sum, refund) => sum + Number(refund.amount), 0),
+            appointment_date: row.appointment.appointment_date,
+            appointment_status: row.appointment.status,
+            patient_name: row.appointment.patient.full_name,
+            invoice_number: row.invoice?.invoice_number ?? null,
+            receipt_number: row.invoice?.receipt_number ?? null,
+          }))
+        );
+      }
+      setLoading(false);
+    };
+    fetchLedger();
+  }, [doctorId, toast]);
+
+  const handleExport = () => {
+    const csv = buildCsv(
+      ['Invoice', 'Receipt', 'Patient', 'Appointment', 'Type', 'Amount', 'Refunded', 'Net', 'Status', 'Requested', 'Paid'],
+      entries.map((entry) => [
+        entry.invoice_number,
+        entry.receipt_number,
+        entry.patient_name,
+        formatInTimeZone(entry.appointment_date, timeZone),
+        entry.kind === 'late_cancellation_fee' ? 'Late cancellation fee' : entry.kind === 'copay' ? 'Co-pay' : 'Visit',
+        entry.amount.toFixed(2),
+        entry.refunded.toFixed(2),
+        (entry.paid_at ? entry.amount - entry.refunded : 0).toFixed(2),
+        entry.status,
+        toZonedDateString(new Date(entry.created_at), timeZone),
+        entry.paid_at ? toZonedDateString(new Date(entry.paid_at), timeZone) : '',
+      ])
+    );
+    downloadCsv(`ledger-${toZonedDateString(new Date(), timeZone)}.csv`, csv);
+  };
+
+  if (loading) {
+    return <div className="text-center py-4">Loading revenue...</div>;
+  }
+
+  const buckets = bucketEarnings(entries, period, timeZone);
+  const totals = summarizeStatuses(entries);
+  const averageWait = averageTimeToPayment(entries);
+  const statusData = (Object.keys(statusConfig) as (keyof typeof statusConfig)[])
+    .map((status) => ({ status, amount: Number(totals[status].toFixed(2)) }))
+    .filter((slice) => slice.amount > 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Earned (net of refunds)</CardDescription>
+            <CardTitle className="text-2xl">{formatMoney(totals.paid)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Outstanding</CardDescription>
+            <CardTitle className="text-2xl">{formatMoney(totals.outstanding)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Failed</CardDescription>
+            <CardTitle className="text-2xl">{formatMoney(totals.failed)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Average time to payment</CardDescription>
+            <CardTitle className="text-2xl">{averageWait === null ? '-' : formatDuration(averageWait)}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card className="lg:col-span-2">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <TrendingUp className="w-5 h-5 text-primary" />
+                Earnings
+              </CardTitle>
+              <CardDescription>By date paid, last 12 {period === 'week' ? 'weeks' : 'months'}</CardDescription>
+            </div>
+            <ToggleGroup
+              type="single"
+              value={period}
+              onValueChange={(value) => value && setPeriod(value as RevenuePeriod)}
+              size="sm"
+            >
+              <ToggleGroupItem value="week">Weekly</ToggleGroupItem>
+              <ToggleGroupItem value="month">Monthly</ToggleGroupItem>
+            </ToggleGroup>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={earningsConfig} className="h-[280px] w-full">
+              <BarChart data={buckets}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+                <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={(value) => `$${value}`} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="earnings" stackId="revenue" fill="var(--color-earnings)" />
+                <Bar dataKey="refunds" stackId="revenue" fill="var(--color-refunds)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Payment Status</CardTitle>
+            <CardDescription>All payment requests to date</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {statusData.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No payments yet</p>
+            ) : (
+              <ChartContainer config={statusConfig} className="h-[280px] w-full">
+                <PieChart>
+                  <ChartTooltip content={<ChartTooltipContent nameKey="status" hideLabel />} />
+                  <Pie data={statusData} dataKey="amount" nameKey="status" innerRadius={50}>
+                    {statusData.map((slice) => (
+                      <Cell key={slice.status} fill={`var(--color-${slice.status})`} />
+                    ))}
+                  </Pie>
+                  <ChartLegend content={<ChartLegendContent nameKey="status" />} />
+                </PieChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={handleExport} disabled={entries.length === 0}>
+          <Download className="w-4 h-4 mr-2" />
+          Export Ledger (CSV)
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RevenueDashboard;
@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar as DatePicker } from '@/components/ui/calendar';
+import { Calendar } from 'lucide-react';
+import { addDays, format, startOfDay } from 'date-fns';
+import {
+  generateSlots,
+  isWorkingDay,
+  type AvailabilityException,
+  type WeeklyAvailability,
+} from '@/lib/scheduling';
+import { formatTimeInTimeZone, isSameOffset, toZonedDateString, zonedTimeToUtc } from '@/lib/timezone';
+
+// How far ahead patients can book
+const BOOKING_WINDOW_DAYS = 60;
+
+interface SlotPickerProps {
+  doctorId: string;
+  slotMinutes: number;
+  // Working hours are in the doctor's zone; slot times are shown in the viewer's
+  doctorTimeZone: string;
+  viewerTimeZone: string;
+  value: string;
+  onChange: (value: string) => void;
+  // Bump to reload open slots, e.g. after a booking conflict
+  refreshKey?: number;
+}
+
+const SlotPicker = ({
+  doctorId,
+  slotMinutes,
+  doctorTimeZone,
+  viewerTimeZone,
+  value,
+  onChange,
+  refreshKey = 0,
+}: SlotPickerProps) => {
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>();
+  const [availability, setAvailability] = useState<WeeklyAvailability[]>([]);
+  const [exceptions, setExceptions] = useState<AvailabilityException[]>([]);
+  const [slots, setSlots] = useState<Date[]>([]);
+  const [slotsLoading, setSlotsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!doctorId) return;
+
+    const fetchAvailability = async () => {
+      const [{ data: hours }, { data: exceptionData }] = await Promise.all([
+        supabase
+          .from('doctor_availability')
+          .select('weekday, start_time, end_time, break_start, break_end')
+          .eq('doctor_id', doctorId),
+        supabase
+          .from('doctor_availability_exceptions')
+          .select('exception_date, start_time, end_time, reason')
+          .eq('doctor_id', doctorId)
+          .gte('exception_date', toZonedDateString(new Date(), doctorTimeZone)),
+      ]);
+
+      setAvailability(hours || []);
+      setExceptions(exceptionData || []);
+    };
+
+    setSelectedDay(undefined);
+    setSlots([]);
+    fetchAvailability();
+  }, [doctorId, doctorTimeZone]);
+
+  useEffect(() => {
+    if (!selectedDay) return;
+
+    const fetchSlots = async () => {
+      setSlotsLoading(true);
+
+      // The picked date is a day on the doctor's calendar
+      const day = format(selectedDay, 'yyyy-MM-dd');
+      const nextDay = format(addDays(selectedDay, 1), 'yyyy-MM-dd');
+
+      const { data: busy, error } = await supabase.rpc('get_doctor_busy_slots', {
+        _doctor_id: doctorId,
+        _from: zonedTimeToUtc(day, '00:00', doctorTimeZone).toISOString(),
+        _to: zonedTimeToUtc(nextDay, '00:00', doctorTimeZone).toISOString(),
+      });
+
+      if (error) {
+        console.error('Error fetching busy slots:', error);
+        setSlots([]);
+      } else {
+        setSlots(generateSlots(day, availability, exceptions, doctorTimeZone, busy || [], slotMinutes));
+      }
+      setSlotsLoading(false);
+    };
+
+    fetchSlots();
+  }, [selectedDay, doctorId, doctorTimeZone, slotMinutes, availability, exceptions, refreshKey]);
+
+  const showDoctorTime = !isSameOffset(viewerTimeZone, doctorTimeZone);
+
+  const handleDaySelect = (day: Date | undefined) => {
+    setSelectedDay(day);
+    onChange('');
+  };
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="date">Date</Label>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              id="date"
+              type="button"
+              variant="outline"
+              className="w-full justify-start font-normal"
+              disabled={!doctorId}
+            >
+              <Calendar className="w-4 h-4 mr-2" />
+              {selectedDay ? format(selectedDay, 'PPP') : doctorId ? 'Pick a date' : 'Choose a doctor first'}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <DatePicker
+              mode="single"
+              selected={selectedDay}
+              onSelect={handleDaySelect}
+              disabled={(day) =>
+                day < startOfDay(new Date()) ||
+                day > addDays(new Date(), BOOKING_WINDOW_DAYS) ||
+                !isWorkingDay(format(day, 'yyyy-MM-dd'), availability, exceptions)
+              }
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {selectedDay && (
+        <div className="space-y-2">
+          <Label>Available Times</Label>
+          <p className="text-xs text-muted-foreground">
+            Shown in your time zone ({viewerTimeZone})
+            {showDoctorTime && `, with the doctor's local time (${doctorTimeZone}) below`}
+          </p>
+          {slotsLoading ? (
+            <p className="text-sm text-muted-foreground">Loading available times...</p>
+          ) : slots.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No open slots on this day. Please pick another date.</p>
+          ) : (
+            <div className="grid grid-cols-3 gap-2 max-h-40 overflow-y-auto">
+              {slots.map((slot) => (
+                <Button
+                  key={slot.toISOString()}
+                  type="button"
+                  size="sm"
+                  variant={value === slot.toISOString() ? 'default' : 'outline'}
+                  onClick={() => onChange(slot.toISOString())}
+                  className={showDoctorTime ? 'h-auto flex-col py-1' : undefined}
+                >
+                  {formatTimeInTimeZone(slot, viewerTimeZone, false)}
+                  {showDoctorTime && (
+                    <span className="text-[10px] opacity-70">{formatTimeInTimeZone(slot, doctorTimeZone)}</span>
+                  )}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default SlotPicker;
@@ -0,0 +1,56 @@
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Globe } from 'lucide-react';
+import { TIME_ZONES } from '@/lib/timezone';
+
+interface TimeZoneSelectProps {
+  userId: string;
+  value: string;
+  onChange: (timeZone: string) => void;
+}
+
+const TimeZoneSelect = ({ userId, value, onChange }: TimeZoneSelectProps) => {
+  const { toast } = useToast();
+  const options = TIME_ZONES.includes(value) ? TIME_ZONES : [value, ...TIME_ZONES];
+
+  const handleChange = async (timeZone: string) => {
+    const { error } = await supabase
+      .from('profiles')
+      .update({ time_zone: timeZone })
+      .eq('id', userId);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Success',
+      description: `Times are now shown in ${timeZone}`,
+    });
+    onChange(timeZone);
+  };
+
+  return (
+    <Select value={value} onValueChange={handleChange}>
+      <SelectTrigger className="w-56" aria-label="Time zone">
+        <Globe className="w-4 h-4 mr-2 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((timeZone) => (
+          <SelectItem key={timeZone} value={timeZone}>
+            {timeZone.replace(/_/g, ' ')}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default TimeZoneSelect;
@@ -0,0 +1,196 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CheckCircle, Hourglass, Trash2, XCircle } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { formatInTimeZone } from '@/lib/timezone';
+
+interface WaitlistOffer {
+  id: string;
+  slot_start: string;
+  duration_minutes: number;
+  status: string;
+  expires_at: string;
+}
+
+interface WaitlistEntry {
+  id: string;
+  doctor_id: string;
+  earliest_date: string;
+  latest_date: string;
+  status: string;
+  doctor: { full_name: string };
+  offers: WaitlistOffer[];
+}
+
+interface WaitlistPanelProps {
+  patientId: string;
+  timeZone: string;
+  onBooked: () => void;
+}
+
+const WaitlistPanel = ({ patientId, timeZone, onBooked }: WaitlistPanelProps) => {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+
+  const fetchEntries = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('waitlist_entries')
+      .select(`
+        id,
+        doctor_id,
+        earliest_date,
+        latest_date,
+        status,
+        doctor:profiles!waitlist_entries_doctor_id_fkey(full_name),
+        offers:waitlist_offers(id, slot_start, duration_minutes, status, expires_at)
+      `)
+      .eq('patient_id', patientId)
+      .in('status', ['waiting', 'offered'])
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching waitlist:', error);
+      return;
+    }
+    setEntries((data as unknown as WaitlistEntry[]) || []);
+  }, [patientId]);
+
+  useEffect(() => {
+    fetchEntries();
+
+    const channel = supabase
+      .channel('waitlist-offers-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'waitlist_offers',
+          filter: `patient_id=eq.${patientId}`,
+        },
+        () => {
+          fetchEntries();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [patientId, fetchEntries]);
+
+  const handleClaim = async (offer: WaitlistOffer) => {
+    const { data: appointmentId, error } = await supabase.rpc('claim_waitlist_offer', { _offer_id: offer.id });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else if (!appointmentId) {
+      toast({
+        title: 'Error',
+        description: 'This slot was just taken. You are still on the waitlist.',
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: 'Slot claimed. Your appointment request has been sent to the doctor.',
+      });
+      onBooked();
+    }
+    fetchEntries();
+  };
+
+  const handleDecline = async (offer: WaitlistOffer) => {
+    const { error } = await supabase.rpc('decline_waitlist_offer', { _offer_id: offer.id });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+    fetchEntries();
+  };
+
+  const handleLeave = async (entryId: string) => {
+    const { error } = await supabase.from('waitlist_entries').delete().eq('id', entryId);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: 'You have left the waitlist',
+      });
+      fetchEntries();
+    }
+  };
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="space-y-3 mb-6">
+      <h3 className="text-sm font-semibold flex items-center gap-2">
+        <Hourglass className="w-4 h-4 text-primary" />
+        Waitlist
+      </h3>
+      {entries.map((entry) => {
+        const offer = entry.offers.find((o) => o.status === 'open' && new Date(o.expires_at) > new Date());
+
+        return (
+          <div key={entry.id} className="border rounded-lg p-4 space-y-3">
+            <div className="flex justify-between items-start gap-2">
+              <div>
+                <p className="font-medium">Dr. {entry.doctor.full_name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(`${entry.earliest_date}T00:00`), 'MMM d')} – {format(new Date(`${entry.latest_date}T00:00`), 'MMM d, yyyy')}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant={offer ? 'default' : 'secondary'}>{offer ? 'Slot available' : 'Waiting'}</Badge>
+                <Button size="icon" variant="ghost" onClick={() => handleLeave(entry.id)} title="Leave waitlist">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            {offer && (
+              <div className="bg-primary/5 rounded-md p-3 space-y-2">
+                <p className="text-sm">
+                  {formatInTimeZone(offer.slot_start, timeZone)} ({offer.duration_minutes} min) is being held for you.
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Expires {formatDistanceToNow(new Date(offer.expires_at), { addSuffix: true })}
+                </p>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => handleClaim(offer)}>
+                    <CheckCircle className="w-4 h-4 mr-1" />
+                    Claim Slot
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleDecline(offer)}>
+                    <XCircle className="w-4 h-4 mr-1" />
+                    Pass
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default WaitlistPanel;
@@ -0,0 +1,171 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { ChatMessage } from "@/lib/chat";
+
+// "rejected" messages were refused by the server and are only resent by hand
+export type OutboxStatus = "sending" | "failed" | "rejected";
+
+export interface OutboxMessage extends ChatMessage {
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: number;
+  error?: string;
+}
+
+// Retries back off from 2s up to a minute; going back online retries immediately
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60 * 1000;
+
+// Per sender as well as per room, so another account on the same device never sees or sends them
+const storageKey = (chatRoomId: string, senderId: string) => `chat-outbox:${senderId}:${chatRoomId}`;
+
+function loadOutbox(chatRoomId: string, senderId: string): OutboxMessage[] {
+  try {
+    const items: OutboxMessage[] = JSON.parse(localStorage.getItem(storageKey(chatRoomId, senderId)) ?? "[]");
+    return items.filter((item) => item.sender_id === senderId);
+  } catch {
+    return [];
+  }
+}
+
+function saveOutbox(chatRoomId: string, senderId: string, items: OutboxMessage[]) {
+  if (items.length === 0) localStorage.removeItem(storageKey(chatRoomId, senderId));
+  else localStorage.setItem(storageKey(chatRoomId, senderId), JSON.stringify(items));
+}
+
+// Errors that will fail the same way every time: bad data (22), constraint and
+// row-level security violations (23, 42) and exceptions raised by triggers (P0).
+// Anything else, including network failures, is worth retrying.
+const isPermanentError = (code: string | undefined) => !!code && /^(22|23|42|P0)/.test(code);
+
+const backoff = (attempts: number) => Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+
+/**
+ * Messages waiting to reach the server, kept in localStorage so they survive a reload.
+ * Each message gets its id on the client, so a retry of an insert that did land is
+ * recognised by its duplicate key and the realtime echo merges into the same bubble.
+ */
+function useChatOutbox(chatRoomId: string, senderId: string, onSent: (message: ChatMessage) => void) {
+  const [items, setItems] = React.useState<OutboxMessage[]>(() => loadOutbox(chatRoomId, senderId));
+  const itemsRef = React.useRef(items);
+  const inFlightRef = React.useRef(new Set<string>());
+  const onSentRef = React.useRef(onSent);
+  onSentRef.current = onSent;
+
+  const update = React.useCallback(
+    (next: (items: OutboxMessage[]) => OutboxMessage[]) => {
+      itemsRef.current = next(itemsRef.current);
+      saveOutbox(chatRoomId, senderId, itemsRef.current);
+      setItems(itemsRef.current);
+    },
+    [chatRoomId, senderId],
+  );
+
+  const attempt = React.useCallback(
+    async (item: OutboxMessage) => {
+      if (inFlightRef.current.has(item.id)) return;
+      inFlightRef.current.add(item.id);
+      update((cur) => cur.map((i) => (i.id === item.id ? { ...i, status: "sending" } : i)));
+
+      const { data, error } = await supabase
+        .from("messages")
+        .insert({
+          id: item.id,
+          chat_room_id: item.chat_room_id,
+          sender_id: item.sender_id,
+          message: item.message,
+          attachment_path: item.attachment_path ?? null,
+          attachment_name: item.attachment_name ?? null,
+          attachment_type: item.attachment_type ?? null,
+          attachment_size: item.attachment_size ?? null,
+          reply_to_id: item.reply_to_id ?? null,
+        })
+        .select()
+        .single();
+
+      inFlightRef.current.delete(item.id);
+
+      // 23505: an earlier attempt reached the server even though its response didn't reach us
+      if (!error || error.code === "23505") {
+        update((cur) => cur.filter((i) => i.id !== item.id));
+        if (data) onSentRef.current(data);
+        return;
+      }
+
+      console.error("Error sending chat message:", error);
+      const permanent = isPermanentError(error.code);
+      update((cur) =>
+        cur.map((i) =>
+          i.id === item.id
+            ? {
+                ...i,
+                status: permanent ? "rejected" : "failed",
+                attempts: i.attempts + 1,
+                next_attempt_at: Date.now() + backoff(i.attempts + 1),
+                error: error.message,
+              }
+            : i,
+        ),
+      );
+    },
+    [update],
+  );
+
+  const flush = React.useCallback(
+    (force: boolean) => {
+      const now = Date.now();
+      itemsRef.current
+        .filter((item) => item.status !== "rejected" && (force || item.next_attempt_at <= now))
+        .forEach((item) => attempt(item));
+    },
+    [attempt],
+  );
+
+  // Switching rooms or accounts swaps in that outbox and sends whatever was left from last time
+  React.useEffect(() => {
+    itemsRef.current = loadOutbox(chatRoomId, senderId);
+    setItems(itemsRef.current);
+    flush(true);
+  }, [chatRoomId, senderId, flush]);
+
+  React.useEffect(() => {
+    const onOnline = () => flush(true);
+    window.addEventListener("online", onOnline);
+    return () => window.removeEventListener("online", onOnline);
+  }, [flush]);
+
+  // Wake up for the next scheduled retry
+  React.useEffect(() => {
+    const failed = items.filter((item) => item.status === "failed");
+    if (failed.length === 0) return;
+
+    const nextAt = Math.min(...failed.map((item) => item.next_attempt_at));
+    const timer = window.setTimeout(() => flush(false), Math.max(nextAt - Date.now(), 0));
+    return () => window.clearTimeout(timer);
+  }, [items, flush]);
+
+  const enqueue = (message: Omit<ChatMessage, "id" | "created_at">) => {
+    const item: OutboxMessage = {
+      ...message,
+      id: crypto.randomUUID(),
+      created_at: new Date().toISOString(),
+      status: "sending",
+      attempts: 0,
+      next_attempt_at: Date.now(),
+    };
+    update((cur) => [...cur, item]);
+    attempt(item);
+  };
+
+  return {
+    outbox: items,
+    enqueue,
+    retry: (id: string) => {
+      const item = itemsRef.current.find((i) => i.id === id);
+      if (item) attempt(item);
+    },
+    discard: (id: string) => update((cur) => cur.filter((i) => i.id !== id)),
+  };
+}
+
+export { useChatOutbox };
@@ -0,0 +1,98 @@
+import * as React from "react";
+import type { RealtimeChannel, RealtimePresenceState } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { currentPresenceStatus, presenceStatusOf, type PresencePayload } from "@/lib/presence";
+
+// How often a tracked user's last-seen time is refreshed while the app is open
+const HEARTBEAT_MS = 60 * 1000;
+
+// App-wide presence, separate from the per-room presence in ChatInterface, so a doctor
+// shows as available before a patient has opened a chat with them
+const listeners: Array<(state: RealtimePresenceState<PresencePayload>) => void> = [];
+
+let memoryState: RealtimePresenceState<PresencePayload> = {};
+let channel: RealtimeChannel | null = null;
+let trackedPayload: PresencePayload | null = null;
+
+function getChannel() {
+  if (channel) return channel;
+
+  channel = supabase.channel("online-users");
+  channel
+    .on("presence", { event: "sync" }, () => {
+      memoryState = channel!.presenceState<PresencePayload>();
+      listeners.forEach((listener) => {
+        listener(memoryState);
+      });
+    })
+    .subscribe((status) => {
+      if (status === "SUBSCRIBED" && trackedPayload) channel!.track(trackedPayload);
+    });
+  return channel;
+}
+
+function releaseChannel() {
+  if (listeners.length > 0 || trackedPayload) return;
+  if (channel) supabase.removeChannel(channel);
+  channel = null;
+  memoryState = {};
+}
+
+/**
+ * Read who is online. Pass the signed-in user's id to also announce them as online
+ * (or away while the tab is hidden) and keep their last-seen time fresh.
+ */
+function usePresence(trackUserId?: string) {
+  const [state, setState] = React.useState(memoryState);
+
+  React.useEffect(() => {
+    listeners.push(setState);
+    getChannel();
+
+    return () => {
+      const index = listeners.indexOf(setState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+      releaseChannel();
+    };
+  }, []);
+
+  React.useEffect(() => {
+    if (!trackUserId) return;
+
+    const track = () => {
+      trackedPayload = { user_id: trackUserId, status: currentPresenceStatus(), online_at: new Date().toISOString() };
+      getChannel().track(trackedPayload);
+    };
+    const touch = () => {
+      supabase.rpc("touch_last_seen").then(({ error }) => {
+        if (error) console.error("Error updating last seen:", error);
+      });
+    };
+
+    track();
+    touch();
+    const heartbeat = window.setInterval(touch, HEARTBEAT_MS);
+    const onVisibilityChange = () => {
+      track();
+      touch();
+    };
+    document.addEventListener("visibilitychange", onVisibilityChange);
+
+    return () => {
+      window.clearInterval(heartbeat);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+      touch();
+      channel?.untrack();
+      trackedPayload = null;
+      releaseChannel();
+    };
+  }, [trackUserId]);
+
+  return {
+    statusOf: (userId: string) => presenceStatusOf(state, userId),
+  };
+}
+
+export { usePresence };
@@ -0,0 +1,81 @@
+import * as React from "react";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface UnreadChatCount {
+  chat_room_id: string;
+  appointment_id: string | null;
+  patient_id: string;
+  doctor_id: string;
+  unread_count: number;
+}
+
+// Every chat button on a dashboard reads from one shared fetch and one realtime channel
+const listeners: Array<(counts: UnreadChatCount[]) => void> = [];
+
+let memoryState: UnreadChatCount[] = [];
+let channel: RealtimeChannel | null = null;
+
+async function refresh() {
+  const { data, error } = await supabase.rpc("get_unread_chat_counts");
+  if (error) {
+    console.error("Error fetching unread chat counts:", error);
+    return;
+  }
+
+  memoryState = (data || []).map((row) => ({ ...row, unread_count: Number(row.unread_count) }));
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+function subscribe() {
+  // New messages raise counts; read positions on chat_rooms lower them
+  channel = supabase
+    .channel("unread-chats")
+    .on("postgres_changes", { event: "INSERT", schema: "public", table: "messages" }, () => refresh())
+    .on("postgres_changes", { event: "UPDATE", schema: "public", table: "chat_rooms" }, () => refresh())
+    .subscribe();
+  refresh();
+}
+
+function unsubscribe() {
+  if (channel) supabase.removeChannel(channel);
+  channel = null;
+  memoryState = [];
+}
+
+function useUnreadChats() {
+  const [counts, setCounts] = React.useState<UnreadChatCount[]>(memoryState);
+
+  React.useEffect(() => {
+    listeners.push(setCounts);
+    if (!channel) subscribe();
+
+    return () => {
+      const index = listeners.indexOf(setCounts);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+      if (listeners.length === 0) unsubscribe();
+    };
+  }, []);
+
+  // Rooms are unique per patient, doctor and appointment (null for direct chats)
+  const countFor = (patientId: string, doctorId: string, appointmentId?: string | null) =>
+    counts.find(
+      (row) =>
+        row.patient_id === patientId &&
+        row.doctor_id === doctorId &&
+        (row.appointment_id ?? null) === (appointmentId ?? null),
+    )?.unread_count ?? 0;
+
+  return {
+    counts,
+    total: counts.reduce((sum, row) => sum + row.unread_count, 0),
+    countFor,
+    refresh,
+  };
+}
+
+export { useUnreadChats };
@@ -47,38 +47,307 @@ export type Database = {
         }
         Relationships: []
       }
+      appointment_reminders: {
+        Row: {
+          appointment_id: string
+          id: string
+          offset_minutes: number
+          sent_at: string
+          skipped: boolean
+        }
+        Insert: {
+          appointment_id: string
+          id?: string
+          offset_minutes: number
+          sent_at?: string
+          skipped?: boolean
+        }
+        Update: {
+          appointment_id?: string
+          id?: string
+          offset_minutes?: number
+          sent_at?: string
+          skipped?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_reminders_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      appointment_reschedule_proposals: {
+        Row: {
+          appointment_id: string
+          created_at: string
+          id: string
+          message: string | null
+          previous_date: string
+          proposed_by: string
+          proposed_date: string
+          responded_at: string | null
+          scope: string
+          status: Database["public"]["Enums"]["reschedule_status"]
+        }
+        Insert: {
+          appointment_id: string
+          created_at?: string
+          id?: string
+          message?: string | null
+          previous_date: string
+          proposed_by: string
+          proposed_date: string
+          responded_at?: string | null
+          scope?: string
+          status?: Database["public"]["Enums"]["reschedule_status"]
+        }
+        Update: {
+          appointment_id?: string
+          created_at?: string
+          id?: string
+          message?: string | null
+          previous_date?: string
+          proposed_by?: string
+          proposed_date?: string
+          responded_at?: string | null
+          scope?: string
+          status?: Database["public"]["Enums"]["reschedule_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_reschedule_proposals_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_reschedule_proposals_proposed_by_fkey"
+            columns: ["proposed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      appointment_series: {
+        Row: {
+          appointment_type_id: string | null
+          created_at: string
+          doctor_id: string
+          excluded_dates: string[]
+          frequency: Database["public"]["Enums"]["series_frequency"]
+          id: string
+          interval_count: number
+          occurrence_count: number | null
+          patient_id: string
+          reason: string
+          starts_at: string
+          time_zone: string
+          until_date: string | null
+          updated_at: string
+        }
+        Insert: {
+          appointment_type_id?: string | null
+          created_at?: string
+          doctor_id: string
+          excluded_dates?: string[]
+          frequency: Database["public"]["Enums"]["series_frequency"]
+          id?: string
+          interval_count?: number
+          occurrence_count?: number | null
+          patient_id: string
+          reason: string
+          starts_at: string
+          time_zone: string
+          until_date?: string | null
+          updated_at?: string
+        }
+        Update: {
+          appointment_type_id?: string | null
+          created_at?: string
+          doctor_id?: string
+          excluded_dates?: string[]
+          frequency?: Database["public"]["Enums"]["series_frequency"]
+          id?: string
+          interval_count?: number
+          occurrence_count?: number | null
+          patient_id?: string
+          reason?: string
+          starts_at?: string
+          time_zone?: string
+          until_date?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_series_appointment_type_id_fkey"
+            columns: ["appointment_type_id"]
+            isOneToOne: false
+            referencedRelation: "appointment_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_series_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_series_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      appointment_types: {
+        Row: {
+          created_at: string
+          description: string | null
+          doctor_id: string
+          duration_minutes: number
+          id: string
+          is_active: boolean
+          name: string
+          price: number
+          updated_at: string
+          visit_mode: Database["public"]["Enums"]["visit_mode"]
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          doctor_id: string
+          duration_minutes?: number
+          id?: string
+          is_active?: boolean
+          name: string
+          price?: number
+          updated_at?: string
+          visit_mode?: Database["public"]["Enums"]["visit_mode"]
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          doctor_id?: string
+          duration_minutes?: number
+          id?: string
+          is_active?: boolean
+          name?: string
+          price?: number
+          updated_at?: string
+          visit_mode?: Database["public"]["Enums"]["visit_mode"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_types_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       appointments: {
         Row: {
           appointment_date: string
+          appointment_type_id: string | null
+          billing_method: Database["public"]["Enums"]["billing_method"]
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          confirmed_at: string | null
           created_at: string
+          discount_code: string | null
+          discount_code_id: string | null
           doctor_id: string
+          duration_minutes: number
           id: string
+          insurance_amount: number | null
+          insurance_policy_id: string | null
           patient_id: string
           reason: string
+          series_id: string | null
+          series_index: number | null
           status: Database["public"]["Enums"]["appointment_status"]
           updated_at: string
+          visit_mode: Database["public"]["Enums"]["visit_mode"]
         }
         Insert: {
           appointment_date: string
+          appointment_type_id?: string | null
+          billing_method?: Database["public"]["Enums"]["billing_method"]
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          confirmed_at?: string | null
           created_at?: string
+          discount_code?: string | null
+          discount_code_id?: string | null
           doctor_id: string
+          duration_minutes?: number
           id?: string
+          insurance_amount?: number | null
+          insurance_policy_id?: string | null
           patient_id: string
           reason: string
+          series_id?: string | null
+          series_index?: number | null
           status?: Database["public"]["Enums"]["appointment_status"]
           updated_at?: string
+          visit_mode?: Database["public"]["Enums"]["visit_mode"]
         }
         Update: {
           appointment_date?: string
+          appointment_type_id?: string | null
+          billing_method?: Database["public"]["Enums"]["billing_method"]
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          confirmed_at?: string | null
           created_at?: string
+          discount_code?: string | null
+          discount_code_id?: string | null
           doctor_id?: string
+          duration_minutes?: number
           id?: string
+          insurance_amount?: number | null
+          insurance_policy_id?: string | null
           patient_id?: string
           reason?: string
+          series_id?: string | null
+          series_index?: number | null
           status?: Database["public"]["Enums"]["appointment_status"]
           updated_at?: string
+          visit_mode?: Database["public"]["Enums"]["visit_mode"]
         }
         Relationships: [
+          {
+            foreignKeyName: "appointments_appointment_type_id_fkey"
+            columns: ["appointment_type_id"]
+            isOneToOne: false
+            referencedRelation: "appointment_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointments_cancelled_by_fkey"
+            columns: ["cancelled_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointments_discount_code_id_fkey"
+            columns: ["discount_code_id"]
+            isOneToOne: false
+            referencedRelation: "discount_codes"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "appointments_doctor_id_fkey"
             columns: ["doctor_id"]
@@ -86,6 +355,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "appointments_insurance_policy_id_fkey"
+            columns: ["insurance_policy_id"]
+            isOneToOne: false
+            referencedRelation: "insurance_policies"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "appointments_patient_id_fkey"
             columns: ["patient_id"]
@@ -93,6 +369,74 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "appointments_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "appointment_series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feed_tokens_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cancellation_policies: {
+        Row: {
+          created_at: string
+          cutoff_hours: number
+          doctor_id: string
+          late_cancel_fee: number
+          late_refund_percent: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          cutoff_hours?: number
+          doctor_id: string
+          late_cancel_fee?: number
+          late_refund_percent?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          cutoff_hours?: number
+          doctor_id?: string
+          late_cancel_fee?: number
+          late_refund_percent?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cancellation_policies_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       chat_rooms: {
@@ -100,22 +444,28 @@ export type Database = {
           appointment_id: string | null
           created_at: string
           doctor_id: string
+          doctor_last_read_at: string | null
           id: string
           patient_id: string
+          patient_last_read_at: string | null
         }
         Insert: {
           appointment_id?: string | null
           created_at?: string
           doctor_id: string
+          doctor_last_read_at?: string | null
           id?: string
           patient_id: string
+          patient_last_read_at?: string | null
         }
         Update: {
           appointment_id?: string | null
           created_at?: string
           doctor_id?: string
+          doctor_last_read_at?: string | null
           id?: string
           patient_id?: string
+          patient_last_read_at?: string | null
         }
         Relationships: [
           {
@@ -127,6 +477,29 @@ export type Database = {
           },
         ]
       }
+      clinic_admins: {
+        Row: {
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clinic_admins_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       consultations: {
         Row: {
           ai_summary: string | null
@@ -162,15 +535,463 @@ export type Database = {
           },
         ]
       }
+      discount_code_checks: {
+        Row: {
+          checked_at: string
+          discount_code_id: string | null
+          id: string
+          user_id: string
+        }
+        Insert: {
+          checked_at?: string
+          discount_code_id?: string | null
+          id?: string
+          user_id: string
+        }
+        Update: {
+          checked_at?: string
+          discount_code_id?: string | null
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "discount_code_checks_discount_code_id_fkey"
+            columns: ["discount_code_id"]
+            isOneToOne: false
+            referencedRelation: "discount_codes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "discount_code_checks_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      discount_codes: {
+        Row: {
+          code: string
+          created_at: string
+          description: string | null
+          discount_type: string
+          discount_value: number
+          doctor_id: string | null
+          expires_at: string | null
+          id: string
+          is_active: boolean
+          max_uses: number | null
+          updated_at: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          description?: string | null
+          discount_type: string
+          discount_value: number
+          doctor_id?: string | null
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_uses?: number | null
+          updated_at?: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          description?: string | null
+          discount_type?: string
+          discount_value?: number
+          doctor_id?: string | null
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_uses?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "discount_codes_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      doctor_availability: {
+        Row: {
+          break_end: string | null
+          break_start: string | null
+          created_at: string
+          doctor_id: string
+          end_time: string
+          id: string
+          start_time: string
+          updated_at: string
+          weekday: number
+        }
+        Insert: {
+          break_end?: string | null
+          break_start?: string | null
+          created_at?: string
+          doctor_id: string
+          end_time: string
+          id?: string
+          start_time: string
+          updated_at?: string
+          weekday: number
+        }
+        Update: {
+          break_end?: string | null
+          break_start?: string | null
+          created_at?: string
+          doctor_id?: string
+          end_time?: string
+          id?: string
+          start_time?: string
+          updated_at?: string
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "doctor_availability_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      doctor_availability_exceptions: {
+        Row: {
+          created_at: string
+          doctor_id: string
+          end_time: string | null
+          exception_date: string
+          id: string
+          reason: string | null
+          start_time: string | null
+        }
+        Insert: {
+          created_at?: string
+          doctor_id: string
+          end_time?: string | null
+          exception_date: string
+          id?: string
+          reason?: string | null
+          start_time?: string | null
+        }
+        Update: {
+          created_at?: string
+          doctor_id?: string
+          end_time?: string | null
+          exception_date?: string
+          id?: string
+          reason?: string | null
+          start_time?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "doctor_availability_exceptions_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      doctor_billing_settings: {
+        Row: {
+          created_at: string
+          doctor_id: string
+          practice_address: string | null
+          practice_name: string | null
+          tax_id: string | null
+          tax_rate: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          doctor_id: string
+          practice_address?: string | null
+          practice_name?: string | null
+          tax_id?: string | null
+          tax_rate?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          doctor_id?: string
+          practice_address?: string | null
+          practice_name?: string | null
+          tax_id?: string | null
+          tax_rate?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "doctor_billing_settings_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      insurance_claims: {
+        Row: {
+          amount_approved: number | null
+          amount_claimed: number
+          amount_paid: number | null
+          appointment_id: string
+          claim_reference: string | null
+          created_at: string
+          decided_at: string | null
+          denial_reason: string | null
+          id: string
+          insurance_policy_id: string
+          paid_at: string | null
+          status: Database["public"]["Enums"]["claim_status"]
+          submitted_at: string
+          updated_at: string
+        }
+        Insert: {
+          amount_approved?: number | null
+          amount_claimed: number
+          amount_paid?: number | null
+          appointment_id: string
+          claim_reference?: string | null
+          created_at?: string
+          decided_at?: string | null
+          denial_reason?: string | null
+          id?: string
+          insurance_policy_id: string
+          paid_at?: string | null
+          status?: Database["public"]["Enums"]["claim_status"]
+          submitted_at?: string
+          updated_at?: string
+        }
+        Update: {
+          amount_approved?: number | null
+          amount_claimed?: number
+          amount_paid?: number | null
+          appointment_id?: string
+          claim_reference?: string | null
+          created_at?: string
+          decided_at?: string | null
+          denial_reason?: string | null
+          id?: string
+          insurance_policy_id?: string
+          paid_at?: string | null
+          status?: Database["public"]["Enums"]["claim_status"]
+          submitted_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "insurance_claims_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: true
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "insurance_claims_insurance_policy_id_fkey"
+            columns: ["insurance_policy_id"]
+            isOneToOne: false
+            referencedRelation: "insurance_policies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      insurance_policies: {
+        Row: {
+          card_image_path: string | null
+          copay_amount: number
+          coverage_percent: number
+          created_at: string
+          group_number: string | null
+          id: string
+          is_active: boolean
+          member_id: string
+          patient_id: string
+          payer_name: string
+          plan_name: string | null
+          updated_at: string
+          verified_at: string | null
+          verified_by: string | null
+        }
+        Insert: {
+          card_image_path?: string | null
+          copay_amount?: number
+          coverage_percent?: number
+          created_at?: string
+          group_number?: string | null
+          id?: string
+          is_active?: boolean
+          member_id: string
+          patient_id: string
+          payer_name: string
+          plan_name?: string | null
+          updated_at?: string
+          verified_at?: string | null
+          verified_by?: string | null
+        }
+        Update: {
+          card_image_path?: string | null
+          copay_amount?: number
+          coverage_percent?: number
+          created_at?: string
+          group_number?: string | null
+          id?: string
+          is_active?: boolean
+          member_id?: string
+          patient_id?: string
+          payer_name?: string
+          plan_name?: string | null
+          updated_at?: string
+          verified_at?: string | null
+          verified_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "insurance_policies_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "insurance_policies_verified_by_fkey"
+            columns: ["verified_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          appointment_id: string
+          created_at: string
+          doctor_id: string
+          doctor_license_number: string | null
+          doctor_name: string
+          doctor_specialization: string | null
+          id: string
+          invoice_number: string
+          issued_at: string
+          line_items: Json
+          paid_at: string | null
+          patient_id: string
+          patient_name: string
+          payment_id: string
+          practice_address: string | null
+          practice_name: string | null
+          receipt_number: string | null
+          subtotal: number
+          tax_amount: number
+          tax_id: string | null
+          tax_rate: number
+          total: number
+          updated_at: string
+        }
+        Insert: {
+          appointment_id: string
+          created_at?: string
+          doctor_id: string
+          doctor_license_number?: string | null
+          doctor_name: string
+          doctor_specialization?: string | null
+          id?: string
+          invoice_number: string
+          issued_at?: string
+          line_items?: Json
+          paid_at?: string | null
+          patient_id: string
+          patient_name: string
+          payment_id: string
+          practice_address?: string | null
+          practice_name?: string | null
+          receipt_number?: string | null
+          subtotal: number
+          tax_amount?: number
+          tax_id?: string | null
+          tax_rate?: number
+          total: number
+          updated_at?: string
+        }
+        Update: {
+          appointment_id?: string
+          created_at?: string
+          doctor_id?: string
+          doctor_license_number?: string | null
+          doctor_name?: string
+          doctor_specialization?: string | null
+          id?: string
+          invoice_number?: string
+          issued_at?: string
+          line_items?: Json
+          paid_at?: string | null
+          patient_id?: string
+          patient_name?: string
+          payment_id?: string
+          practice_address?: string | null
+          practice_name?: string | null
+          receipt_number?: string | null
+          subtotal?: number
+          tax_amount?: number
+          tax_id?: string | null
+          tax_rate?: number
+          total?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: true
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       medical_records: {
         Row: {
           created_at: string
           description: string | null
+          file_path: string | null
+          file_type: string | null
           file_url: string | null
           id: string
           patient_id: string
           record_type: string
           recorded_date: string
+          source_message_id: string | null
           test_name: string | null
           test_results: Json | null
           title: string
@@ -180,53 +1001,170 @@ export type Database = {
         Insert: {
           created_at?: string
           description?: string | null
+          file_path?: string | null
+          file_type?: string | null
+          file_url?: string | null
+          id?: string
+          patient_id: string
+          record_type: string
+          recorded_date: string
+          source_message_id?: string | null
+          test_name?: string | null
+          test_results?: Json | null
+          title: string
+          updated_at?: string
+          uploaded_by: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          file_path?: string | null
+          file_type?: string | null
           file_url?: string | null
           id?: string
-          patient_id: string
-          record_type: string
-          recorded_date: string
-          test_name?: string | null
-          test_results?: Json | null
+          patient_id?: string
+          record_type?: string
+          recorded_date?: string
+          source_message_id?: string | null
+          test_name?: string | null
+          test_results?: Json | null
+          title?: string
+          updated_at?: string
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "medical_records_source_message_id_fkey"
+            columns: ["source_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_revisions: {
+        Row: {
+          action: string
+          attachment_name: string | null
+          attachment_path: string | null
+          created_at: string
+          id: string
+          message: string
+          message_id: string
+          revised_by: string
+        }
+        Insert: {
+          action: string
+          attachment_name?: string | null
+          attachment_path?: string | null
+          created_at?: string
+          id?: string
+          message: string
+          message_id: string
+          revised_by: string
+        }
+        Update: {
+          action?: string
+          attachment_name?: string | null
+          attachment_path?: string | null
+          created_at?: string
+          id?: string
+          message?: string
+          message_id?: string
+          revised_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_revisions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_templates: {
+        Row: {
+          body: string
+          created_at: string
+          doctor_id: string | null
+          id: string
+          shortcut: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          doctor_id?: string | null
+          id?: string
+          shortcut: string
           title: string
           updated_at?: string
-          uploaded_by: string
         }
         Update: {
+          body?: string
           created_at?: string
-          description?: string | null
-          file_url?: string | null
+          doctor_id?: string | null
           id?: string
-          patient_id?: string
-          record_type?: string
-          recorded_date?: string
-          test_name?: string | null
-          test_results?: Json | null
+          shortcut?: string
           title?: string
           updated_at?: string
-          uploaded_by?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "message_templates_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       messages: {
         Row: {
+          attachment_name: string | null
+          attachment_path: string | null
+          attachment_size: number | null
+          attachment_type: string | null
           chat_room_id: string
           created_at: string
+          deleted_at: string | null
+          edited_at: string | null
           id: string
           message: string
+          reply_to_id: string | null
+          search_vector: unknown
           sender_id: string
         }
         Insert: {
+          attachment_name?: string | null
+          attachment_path?: string | null
+          attachment_size?: number | null
+          attachment_type?: string | null
           chat_room_id: string
           created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
           id?: string
           message: string
+          reply_to_id?: string | null
+          search_vector?: unknown
           sender_id: string
         }
         Update: {
+          attachment_name?: string | null
+          attachment_path?: string | null
+          attachment_size?: number | null
+          attachment_type?: string | null
           chat_room_id?: string
           created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
           id?: string
           message?: string
+          reply_to_id?: string | null
+          search_vector?: unknown
           sender_id?: string
         }
         Relationships: [
@@ -237,6 +1175,13 @@ export type Database = {
             referencedRelation: "chat_rooms"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_reply_to_id_fkey"
+            columns: ["reply_to_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
         ]
       }
       notifications: {
@@ -274,13 +1219,128 @@ export type Database = {
           },
         ]
       }
+      payment_reminder_policies: {
+        Row: {
+          created_at: string
+          doctor_id: string
+          enabled: boolean
+          max_reminders: number
+          schedule_days: number[]
+          templates: string[]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          doctor_id: string
+          enabled?: boolean
+          max_reminders?: number
+          schedule_days?: number[]
+          templates?: string[]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          doctor_id?: string
+          enabled?: boolean
+          max_reminders?: number
+          schedule_days?: number[]
+          templates?: string[]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_reminder_policies_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_reminders: {
+        Row: {
+          id: string
+          payment_id: string
+          sent_at: string
+          skipped: boolean
+          step: number
+        }
+        Insert: {
+          id?: string
+          payment_id: string
+          sent_at?: string
+          skipped?: boolean
+          step: number
+        }
+        Update: {
+          id?: string
+          payment_id?: string
+          sent_at?: string
+          skipped?: boolean
+          step?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_reminders_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_webhook_events: {
+        Row: {
+          event_id: string
+          event_type: string
+          id: string
+          payload: Json
+          payment_id: string | null
+          provider: string
+          received_at: string
+        }
+        Insert: {
+          event_id: string
+          event_type: string
+          id?: string
+          payload: Json
+          payment_id?: string | null
+          provider: string
+          received_at?: string
+        }
+        Update: {
+          event_id?: string
+          event_type?: string
+          id?: string
+          payload?: Json
+          payment_id?: string | null
+          provider?: string
+          received_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_webhook_events_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       payments: {
         Row: {
           amount: number
           appointment_id: string
           created_at: string
+          discount_amount: number
+          discount_code: string | null
           id: string
+          kind: string
+          overdue_at: string | null
+          paid_at: string | null
           payment_link: string | null
+          provider: string | null
+          provider_reference: string | null
           status: Database["public"]["Enums"]["payment_status"]
           updated_at: string
         }
@@ -288,8 +1348,15 @@ export type Database = {
           amount: number
           appointment_id: string
           created_at?: string
+          discount_amount?: number
+          discount_code?: string | null
           id?: string
+          kind?: string
+          overdue_at?: string | null
+          paid_at?: string | null
           payment_link?: string | null
+          provider?: string | null
+          provider_reference?: string | null
           status?: Database["public"]["Enums"]["payment_status"]
           updated_at?: string
         }
@@ -297,8 +1364,15 @@ export type Database = {
           amount?: number
           appointment_id?: string
           created_at?: string
+          discount_amount?: number
+          discount_code?: string | null
           id?: string
+          kind?: string
+          overdue_at?: string | null
+          paid_at?: string | null
           payment_link?: string | null
+          provider?: string | null
+          provider_reference?: string | null
           status?: Database["public"]["Enums"]["payment_status"]
           updated_at?: string
         }
@@ -358,30 +1432,94 @@ export type Database = {
           created_at: string
           full_name: string
           id: string
+          last_seen_at: string | null
           phone: string | null
+          time_zone: string
           updated_at: string
         }
         Insert: {
           created_at?: string
           full_name: string
           id: string
+          last_seen_at?: string | null
           phone?: string | null
+          time_zone?: string
           updated_at?: string
         }
         Update: {
           created_at?: string
           full_name?: string
           id?: string
+          last_seen_at?: string | null
           phone?: string | null
+          time_zone?: string
           updated_at?: string
         }
         Relationships: []
       }
+      refunds: {
+        Row: {
+          amount: number
+          created_at: string
+          failure_reason: string | null
+          id: string
+          initiated_by: string | null
+          payment_id: string
+          processed_at: string | null
+          provider_reference: string | null
+          reason: string
+          status: Database["public"]["Enums"]["refund_status"]
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          initiated_by?: string | null
+          payment_id: string
+          processed_at?: string | null
+          provider_reference?: string | null
+          reason: string
+          status?: Database["public"]["Enums"]["refund_status"]
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          initiated_by?: string | null
+          payment_id?: string
+          processed_at?: string | null
+          provider_reference?: string | null
+          reason?: string
+          status?: Database["public"]["Enums"]["refund_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refunds_initiated_by_fkey"
+            columns: ["initiated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refunds_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           id: string
           license_number: string | null
           role: Database["public"]["Enums"]["app_role"]
+          slot_duration_minutes: number
           specialization: string | null
           user_id: string
         }
@@ -389,6 +1527,7 @@ export type Database = {
           id?: string
           license_number?: string | null
           role: Database["public"]["Enums"]["app_role"]
+          slot_duration_minutes?: number
           specialization?: string | null
           user_id: string
         }
@@ -396,6 +1535,7 @@ export type Database = {
           id?: string
           license_number?: string | null
           role?: Database["public"]["Enums"]["app_role"]
+          slot_duration_minutes?: number
           specialization?: string | null
           user_id?: string
         }
@@ -447,11 +1587,246 @@ export type Database = {
           },
         ]
       }
+      waitlist_entries: {
+        Row: {
+          appointment_type_id: string | null
+          created_at: string
+          doctor_id: string
+          earliest_date: string
+          id: string
+          latest_date: string
+          note: string | null
+          patient_id: string
+          status: Database["public"]["Enums"]["waitlist_status"]
+          updated_at: string
+        }
+        Insert: {
+          appointment_type_id?: string | null
+          created_at?: string
+          doctor_id: string
+          earliest_date: string
+          id?: string
+          latest_date: string
+          note?: string | null
+          patient_id: string
+          status?: Database["public"]["Enums"]["waitlist_status"]
+          updated_at?: string
+        }
+        Update: {
+          appointment_type_id?: string | null
+          created_at?: string
+          doctor_id?: string
+          earliest_date?: string
+          id?: string
+          latest_date?: string
+          note?: string | null
+          patient_id?: string
+          status?: Database["public"]["Enums"]["waitlist_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waitlist_entries_appointment_type_id_fkey"
+            columns: ["appointment_type_id"]
+            isOneToOne: false
+            referencedRelation: "appointment_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      waitlist_offers: {
+        Row: {
+          appointment_id: string | null
+          created_at: string
+          doctor_id: string
+          duration_minutes: number
+          entry_id: string
+          expires_at: string
+          id: string
+          patient_id: string
+          responded_at: string | null
+          slot_start: string
+          status: Database["public"]["Enums"]["waitlist_offer_status"]
+        }
+        Insert: {
+          appointment_id?: string | null
+          created_at?: string
+          doctor_id: string
+          duration_minutes: number
+          entry_id: string
+          expires_at: string
+          id?: string
+          patient_id: string
+          responded_at?: string | null
+          slot_start: string
+          status?: Database["public"]["Enums"]["waitlist_offer_status"]
+        }
+        Update: {
+          appointment_id?: string | null
+          created_at?: string
+          doctor_id?: string
+          duration_minutes?: number
+          entry_id?: string
+          expires_at?: string
+          id?: string
+          patient_id?: string
+          responded_at?: string | null
+          slot_start?: string
+          status?: Database["public"]["Enums"]["waitlist_offer_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waitlist_offers_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_offers_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_offers_entry_id_fkey"
+            columns: ["entry_id"]
+            isOneToOne: false
+            referencedRelation: "waitlist_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_offers_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      cancel_appointment: {
+        Args: { _appointment_id: string; _reason?: string }
+        Returns: Database["public"]["Enums"]["appointment_status"]
+      }
+      cancel_appointment_series: {
+        Args: { _appointment_id: string; _reason?: string; _scope: string }
+        Returns: number
+      }
+      check_discount_code: {
+        Args: { _code: string; _doctor_id: string }
+        Returns: {
+          code: string
+          description: string
+          discount_type: string
+          discount_value: number
+          error: string
+        }[]
+      }
+      claim_waitlist_offer: { Args: { _offer_id: string }; Returns: string }
+      create_appointment_series: {
+        Args: {
+          _appointment_type_id: string
+          _billing_method?: Database["public"]["Enums"]["billing_method"]
+          _discount_code?: string
+          _doctor_id: string
+          _excluded_dates: string[]
+          _frequency: Database["public"]["Enums"]["series_frequency"]
+          _insurance_policy_id?: string
+          _interval_count: number
+          _occurrence_count: number
+          _reason: string
+          _starts_at: string
+          _until_date: string
+        }
+        Returns: string
+      }
+      decline_waitlist_offer: { Args: { _offer_id: string }; Returns: undefined }
+      delete_chat_message: {
+        Args: { _message_id: string }
+        Returns: undefined
+      }
+      edit_chat_message: {
+        Args: { _message: string; _message_id: string }
+        Returns: undefined
+      }
+      expire_waitlist_offers: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      format_for_user: {
+        Args: { _ts: string; _user_id: string }
+        Returns: string
+      }
+      get_chat_messages: {
+        Args: {
+          _before_created_at?: string
+          _before_id?: string
+          _chat_room_id: string
+          _limit?: number
+        }
+        Returns: {
+          attachment_name: string | null
+          attachment_path: string | null
+          attachment_size: number | null
+          attachment_type: string | null
+          chat_room_id: string
+          created_at: string
+          deleted_at: string | null
+          edited_at: string | null
+          id: string
+          message: string
+          reply_to_id: string | null
+          search_vector: unknown
+          sender_id: string
+        }[]
+      }
+      get_doctor_busy_slots: {
+        Args: { _doctor_id: string; _from: string; _to: string }
+        Returns: {
+          ends_at: string
+          starts_at: string
+        }[]
+      }
+      get_patient_reliability: {
+        Args: { _patient_id: string }
+        Returns: {
+          cancellations: number
+          completed: number
+          late_cancellations: number
+          no_shows: number
+          total_appointments: number
+        }[]
+      }
+      get_unread_chat_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          appointment_id: string
+          chat_room_id: string
+          doctor_id: string
+          patient_id: string
+          unread_count: number
+        }[]
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
@@ -463,11 +1838,109 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_clinic_admin: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      issue_refund: {
+        Args: { _amount: number; _payment_id: string; _reason: string }
+        Returns: string
+      }
+      mark_chat_room_read: {
+        Args: { _chat_room_id: string }
+        Returns: string
+      }
+      mark_no_show: { Args: { _appointment_id: string }; Returns: undefined }
+      regenerate_calendar_feed_token: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      respond_to_reschedule_proposal: {
+        Args: { _accept: boolean; _proposal_id: string }
+        Returns: {
+          appointment_id: string
+          created_at: string
+          id: string
+          message: string | null
+          previous_date: string
+          proposed_by: string
+          proposed_date: string
+          responded_at: string | null
+          scope: string
+          status: Database["public"]["Enums"]["reschedule_status"]
+        }
+      }
+      search_chat_messages: {
+        Args: { _chat_room_id?: string; _limit?: number; _query: string }
+        Returns: {
+          appointment_id: string
+          attachment_name: string
+          chat_room_id: string
+          created_at: string
+          doctor_id: string
+          headline: string
+          id: string
+          message: string
+          patient_id: string
+          patient_name: string
+          sender_id: string
+        }[]
+      }
+      set_slot_duration: {
+        Args: { _minutes: number }
+        Returns: undefined
+      }
+      submit_insurance_claim: {
+        Args: { _appointment_id: string; _claim_reference?: string }
+        Returns: string
+      }
+      touch_last_seen: { Args: Record<PropertyKey, never>; Returns: undefined }
+      update_insurance_claim: {
+        Args: {
+          _amount?: number
+          _claim_id: string
+          _denial_reason?: string
+          _status: Database["public"]["Enums"]["claim_status"]
+        }
+        Returns: Database["public"]["Enums"]["claim_status"]
+      }
+      verify_insurance_policy: {
+        Args: {
+          _appointment_id: string
+          _copay_amount: number
+          _coverage_percent: number
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "doctor" | "patient"
-      appointment_status: "pending" | "confirmed" | "completed" | "cancelled"
-      payment_status: "pending" | "paid" | "failed"
+      appointment_status:
+        | "pending"
+        | "confirmed"
+        | "completed"
+        | "cancelled"
+        | "no_show"
+        | "late_cancelled"
+      billing_method: "self_pay" | "insurance" | "split"
+      claim_status: "submitted" | "approved" | "denied" | "paid"
+      payment_status:
+        | "pending"
+        | "paid"
+        | "failed"
+        | "refunded"
+        | "partially_refunded"
+      refund_status: "pending" | "succeeded" | "failed"
+      reschedule_status:
+        | "pending"
+        | "accepted"
+        | "declined"
+        | "countered"
+        | "withdrawn"
+      series_frequency: "weekly" | "monthly"
+      visit_mode: "in_person" | "video"
+      waitlist_offer_status: "open" | "claimed" | "declined" | "expired"
+      waitlist_status: "waiting" | "offered" | "booked" | "expired"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -596,8 +2069,35 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["doctor", "patient"],
-      appointment_status: ["pending", "confirmed", "completed", "cancelled"],
-      payment_status: ["pending", "paid", "failed"],
+      appointment_status: [
+        "pending",
+        "confirmed",
+        "completed",
+        "cancelled",
+        "no_show",
+        "late_cancelled",
+      ],
+      billing_method: ["self_pay", "insurance", "split"],
+      claim_status: ["submitted", "approved", "denied", "paid"],
+      payment_status: [
+        "pending",
+        "paid",
+        "failed",
+        "refunded",
+        "partially_refunded",
+      ],
+      refund_status: ["pending", "succeeded", "failed"],
+      reschedule_status: [
+        "pending",
+        "accepted",
+        "declined",
+        "countered",
+        "withdrawn",
+      ],
+      series_frequency: ["weekly", "monthly"],
+      visit_mode: ["in_person", "video"],
+      waitlist_offer_status: ["open", "claimed", "declined", "expired"],
+      waitlist_status: ["waiting", "offered", "booked", "expired"],
     },
   },
 } as const
@@ -1,5 +1,6 @@
 import { supabase } from "@/integrations/supabase/client";
 import type { User, Session } from "@supabase/supabase-js";
+import { getBrowserTimeZone } from "./timezone";
 
 export interface AuthUser extends User {
   role?: 'doctor' | 'patient';
@@ -24,6 +25,7 @@ export const signUp = async (
       data: {
         full_name: fullName,
         phone: phone,
+        time_zone: getBrowserTimeZone(),
       }
     }
   });
@@ -60,6 +62,12 @@ export const signOut = async () => {
   return { error };
 };
 
+// Clinic admins manage clinic-wide settings on top of their own role
+export const isClinicAdmin = async (userId: string) => {
+  const { data } = await supabase.rpc('is_clinic_admin', { _user_id: userId });
+  return !!data;
+};
+
 export const getUserRole = async (userId: string): Promise<'doctor' | 'patient' | null> => {
   const { data, error } = await supabase
     .from('user_roles')
@@ -0,0 +1,168 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const CHAT_PAGE_SIZE = 30;
+
+// Mirrors the chat-attachments bucket's file_size_limit and allowed_mime_types
+export const CHAT_ATTACHMENT_BUCKET = 'chat-attachments';
+export const ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+export const ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'application/pdf'];
+
+// Mirrors the window enforced by edit_chat_message
+export const CHAT_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+export interface ChatMessage {
+  id: string;
+  chat_room_id: string;
+  sender_id: string;
+  message: string;
+  created_at: string;
+  attachment_path?: string | null;
+  attachment_name?: string | null;
+  attachment_type?: string | null;
+  attachment_size?: number | null;
+  edited_at?: string | null;
+  deleted_at?: string | null;
+  reply_to_id?: string | null;
+}
+
+// Oldest first, ties broken by id like the get_chat_messages cursor. Timestamps are
+// compared as dates because realtime payloads and REST responses format them differently.
+const compareMessages = (a: ChatMessage, b: ChatMessage) => {
+  const diff = new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+  if (diff !== 0) return diff;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+};
+
+/**
+ * Merge a page or realtime batch into the loaded messages. Messages already loaded
+ * are replaced by the incoming copy, so a page and a realtime INSERT for the same
+ * row never show it twice.
+ */
+export const mergeMessages = (current: ChatMessage[], incoming: ChatMessage[]) => {
+  const byId = new Map(current.map((msg) => [msg.id, msg]));
+  for (const msg of incoming) byId.set(msg.id, msg);
+  return Array.from(byId.values()).sort(compareMessages);
+};
+
+/** Whether the user can still correct a message they sent. */
+export const canEditMessage = (msg: ChatMessage, userId: string) =>
+  msg.sender_id === userId &&
+  !msg.deleted_at &&
+  !!msg.message &&
+  Date.now() - new Date(msg.created_at).getTime() < CHAT_EDIT_WINDOW_MS;
+
+/** One-line preview of a message, as shown in a reply quote. */
+export const messagePreview = (msg: ChatMessage) => {
+  if (msg.deleted_at) return 'This message was deleted';
+  if (msg.message) return msg.message.length > 80 ? `${msg.message.slice(0, 80)}…` : msg.message;
+  return msg.attachment_name ?? 'Attachment';
+};
+
+/** Why a file can't be attached, or null when it is within the bucket's limits. */
+export const validateAttachment = (file: File) => {
+  if (!ATTACHMENT_TYPES.includes(file.type)) return 'Only images (JPEG, PNG, GIF, WebP) and PDFs can be attached';
+  if (file.size > ATTACHMENT_MAX_BYTES) return 'Attachments must be 10 MB or smaller';
+  return null;
+};
+
+export const isImageAttachment = (type: string | null | undefined) => !!type && type.startsWith('image/');
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Upload a file into the room's folder and report progress as a 0-100 percentage.
+ * supabase-js uploads with fetch, which has no upload progress, so the file is PUT to a
+ * signed upload URL with XMLHttpRequest instead. Resolves to the object path.
+ */
+export const uploadChatAttachment = async (
+  chatRoomId: string,
+  file: File,
+  onProgress: (percent: number) => void,
+) => {
+  const safeName = file.name.replace(/[^\w.-]+/g, '_');
+  const path = `${chatRoomId}/${crypto.randomUUID()}-${safeName}`;
+
+  const { data, error } = await supabase.storage.from(CHAT_ATTACHMENT_BUCKET).createSignedUploadUrl(path);
+  if (error) throw error;
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', data.signedUrl);
+    xhr.setRequestHeader('apikey', import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY);
+    xhr.setRequestHeader('content-type', file.type);
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(Math.round((event.loaded / event.total) * 100));
+    };
+    xhr.onload = () => (xhr.status < 300 ? resolve() : reject(new Error(`Upload failed (${xhr.status})`)));
+    xhr.onerror = () => reject(new Error('Upload failed'));
+    xhr.send(file);
+  });
+
+  return path;
+};
+
+/** Short-lived URL for viewing an attachment; access is checked by the bucket's policies. */
+export const getAttachmentUrl = async (path: string) => {
+  const { data, error } = await supabase.storage.from(CHAT_ATTACHMENT_BUCKET).createSignedUrl(path, 60 * 60);
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+export interface ChatSearchHit {
+  id: string;
+  chat_room_id: string;
+  sender_id: string;
+  message: string;
+  created_at: string;
+  headline: string;
+  appointment_id: string | null;
+  patient_id: string;
+  doctor_id: string;
+  patient_name: string | null;
+}
+
+export interface TextSegment {
+  text: string;
+  hit: boolean;
+}
+
+// Markers search_chat_messages puts around matched words in a headline
+const HIGHLIGHT_PATTERN = /\[\[hl\]\](.*?)\[\[\/hl\]\]/g;
+
+/** Split a search headline into plain and matched segments, rendered as text rather than HTML. */
+export const parseHeadline = (headline: string): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  let last = 0;
+  for (const match of headline.matchAll(HIGHLIGHT_PATTERN)) {
+    if (match.index! > last) segments.push({ text: headline.slice(last, match.index), hit: false });
+    segments.push({ text: match[1], hit: true });
+    last = match.index! + match[0].length;
+  }
+  if (last < headline.length) segments.push({ text: headline.slice(last), hit: false });
+  return segments;
+};
+
+/**
+ * The words Postgres matched across a set of hits. Stemming means these can differ from
+ * what was typed ("doses" finds "dose"), so messages are highlighted with these instead.
+ */
+export const matchedTerms = (hits: ChatSearchHit[]) =>
+  Array.from(
+    new Set(hits.flatMap((hit) => parseHeadline(hit.headline).filter((s) => s.hit).map((s) => s.text.toLowerCase()))),
+  );
+
+/** Split message text on whole-word, case-insensitive matches of the given terms. */
+export const highlightTerms = (text: string, terms: string[]): TextSegment[] => {
+  if (terms.length === 0) return [{ text, hit: false }];
+
+  const escaped = terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`\\b(${escaped.join('|')})\\b`, 'gi');
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map((part) => ({ text: part, hit: terms.includes(part.toLowerCase()) }));
+};
@@ -0,0 +1,19 @@
+// RFC 4180: quote fields containing separators, quotes or line breaks
+const escapeField = (value: string | number | null | undefined) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const buildCsv = (headers: string[], rows: (string | number | null | undefined)[][]) =>
+  [headers, ...rows].map((row) => row.map(escapeField).join(',')).join('\r\n');
+
+export const downloadCsv = (filename: string, content: string) => {
+  // The BOM makes Excel read the file as UTF-8
+  const blob = new Blob(['\uFEFF', content], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,25 @@
+import { formatMoney } from './invoice';
+
+export type DiscountType = 'percent' | 'fixed';
+
+export interface Discount {
+  code: string;
+  description: string | null;
+  discount_type: string;
+  discount_value: number;
+}
+
+export const describeDiscount = (discount: Pick<Discount, 'discount_type' | 'discount_value'>) =>
+  discount.discount_type === 'percent'
+    ? `${Number(discount.discount_value)}% off`
+    : `${formatMoney(Number(discount.discount_value))} off`;
+
+/**
+ * Amount taken off what the patient owes. Mirrors create_appointment_payment so the
+ * booking form can show the discounted price before booking.
+ */
+export const discountAmount = (amount: number, discount: Pick<Discount, 'discount_type' | 'discount_value'> | null) => {
+  if (!discount || amount <= 0) return 0;
+  if (discount.discount_type === 'percent') return Math.round(amount * Number(discount.discount_value)) / 100;
+  return Math.min(Number(discount.discount_value), amount);
+};
@@ -0,0 +1,12 @@
+// Event building lives with the edge functions so the calendar feed shares it
+export * from '../../supabase/functions/_shared/ics.ts';
+
+export const downloadIcs = (filename: string, content: string) => {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,60 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type BillingMethod = 'self_pay' | 'insurance' | 'split';
+export type ClaimStatus = 'submitted' | 'approved' | 'denied' | 'paid';
+
+export interface InsurancePolicy {
+  id: string;
+  payer_name: string;
+  plan_name: string | null;
+  member_id: string;
+  group_number: string | null;
+  coverage_percent: number;
+  copay_amount: number;
+  card_image_path: string | null;
+  // Set once a doctor has checked the terms with the insurer
+  verified_at: string | null;
+}
+
+export const INSURANCE_CARD_BUCKET = 'insurance-cards';
+
+export const BILLING_METHOD_LABELS: Record<BillingMethod, string> = {
+  self_pay: 'Self-pay',
+  insurance: 'Insurance',
+  split: 'Split with insurance',
+};
+
+export const CLAIM_STATUS_VARIANTS: Record<ClaimStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  submitted: 'secondary',
+  approved: 'outline',
+  denied: 'destructive',
+  paid: 'default',
+};
+
+export const PAYMENT_KIND_LABELS: Record<string, string> = {
+  visit: 'Payment',
+  copay: 'Co-pay',
+  late_cancellation_fee: 'Late cancellation fee',
+};
+
+/**
+ * What the patient pays themselves for a visit; the rest is claimed from the insurer.
+ * Mirrors apply_appointment_billing so the booking form can show the split up front.
+ */
+export const patientShare = (price: number, method: BillingMethod, policy: InsurancePolicy | undefined) => {
+  if (method === 'self_pay' || !policy) return price;
+  if (method === 'insurance') return Math.min(Number(policy.copay_amount), price);
+  return Math.round(price * (100 - policy.coverage_percent)) / 100;
+};
+
+export const describePolicy = (policy: Pick<InsurancePolicy, 'payer_name' | 'plan_name' | 'member_id'>) =>
+  `${policy.payer_name}${policy.plan_name ? ` ${policy.plan_name}` : ''} · Member ${policy.member_id}`;
+
+/**
+ * Card images are private, so they are opened through a short-lived signed URL.
+ */
+export const openInsuranceCard = async (path: string) => {
+  const { data, error } = await supabase.storage.from(INSURANCE_CARD_BUCKET).createSignedUrl(path, 60);
+  if (error) throw error;
+  window.open(data.signedUrl, '_blank', 'noopener');
+};
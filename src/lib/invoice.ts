@@ -0,0 +1,132 @@
+import { format } from 'date-fns';
+
+export interface InvoiceLineItem {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+}
+
+export interface Invoice {
+  invoice_number: string;
+  receipt_number: string | null;
+  issued_at: string;
+  paid_at: string | null;
+  patient_name: string;
+  doctor_name: string;
+  doctor_specialization: string | null;
+  doctor_license_number: string | null;
+  practice_name: string | null;
+  practice_address: string | null;
+  tax_id: string | null;
+  line_items: InvoiceLineItem[];
+  subtotal: number;
+  tax_rate: number;
+  tax_amount: number;
+  total: number;
+}
+
+export const formatMoney = (amount: number) => `${amount < 0 ? '-' : ''}$${Math.abs(Number(amount)).toFixed(2)}`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Paid invoices double as the receipt
+export const invoiceTitle = (invoice: Invoice) =>
+  invoice.receipt_number ? `Receipt ${invoice.receipt_number}` : `Invoice ${invoice.invoice_number}`;
+
+export const buildInvoiceHtml = (invoice: Invoice) => {
+  const doctorLines = [
+    invoice.practice_name,
+    `Dr. ${invoice.doctor_name}${invoice.doctor_specialization ? `, ${invoice.doctor_specialization}` : ''}`,
+    invoice.doctor_license_number && `License no. ${invoice.doctor_license_number}`,
+    invoice.practice_address,
+    invoice.tax_id && `Tax ID ${invoice.tax_id}`,
+  ].filter(Boolean) as string[];
+
+  const rows = invoice.line_items
+    .map(
+      (item) => `
+        <tr>
+          <td>${escapeHtml(item.description)}</td>
+          <td class="num">${item.quantity}</td>
+          <td class="num">${formatMoney(item.unit_price)}</td>
+          <td class="num">${formatMoney(item.amount)}</td>
+        </tr>`
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(invoiceTitle(invoice))}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #111; margin: 40px; font-size: 14px; }
+    h1 { font-size: 24px; margin: 0 0 4px; }
+    .muted { color: #666; }
+    .header { display: flex; justify-content: space-between; margin-bottom: 32px; }
+    .paid { color: #15803d; font-weight: 600; }
+    table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+    th, td { padding: 8px; border-bottom: 1px solid #ddd; text-align: left; }
+    .num { text-align: right; }
+    .totals td { border: none; }
+    .total td { font-weight: 600; font-size: 16px; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>${doctorLines.map((line) => `<div>${escapeHtml(line)}</div>`).join('')}</div>
+    <div class="num">
+      <h1>${invoice.receipt_number ? 'Receipt' : 'Invoice'}</h1>
+      <div>Invoice ${escapeHtml(invoice.invoice_number)}</div>
+      ${invoice.receipt_number ? `<div>Receipt ${escapeHtml(invoice.receipt_number)}</div>` : ''}
+      <div class="muted">Issued ${format(new Date(invoice.issued_at), 'PP')}</div>
+      ${invoice.paid_at ? `<div class="paid">Paid ${format(new Date(invoice.paid_at), 'PP')}</div>` : ''}
+    </div>
+  </div>
+  <div class="muted">Billed to</div>
+  <div>${escapeHtml(invoice.patient_name)}</div>
+  <table>
+    <thead>
+      <tr><th>Description</th><th class="num">Qty</th><th class="num">Unit price</th><th class="num">Amount</th></tr>
+    </thead>
+    <tbody>${rows}</tbody>
+  </table>
+  <table>
+    <tbody>
+      <tr class="totals"><td class="num">Subtotal</td><td class="num">${formatMoney(invoice.subtotal)}</td></tr>
+      ${
+        invoice.tax_rate > 0
+          ? `<tr class="totals"><td class="num">Tax (${Number(invoice.tax_rate)}%)</td><td class="num">${formatMoney(invoice.tax_amount)}</td></tr>`
+          : ''
+      }
+      <tr class="totals total"><td class="num">${invoice.paid_at ? 'Amount paid' : 'Amount due'}</td><td class="num">${formatMoney(invoice.total)}</td></tr>
+    </tbody>
+  </table>
+</body>
+</html>`;
+};
+
+/**
+ * Opens the print dialog for an invoice. Browsers offer "Save as PDF" there, and the
+ * document title becomes the suggested file name.
+ */
+export const printInvoice = (invoice: Invoice) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const doc = frame.contentDocument!;
+  doc.open();
+  doc.write(buildInvoiceHtml(invoice));
+  doc.close();
+
+  frame.contentWindow!.focus();
+  frame.contentWindow!.print();
+  // print() blocks until the dialog closes in most browsers
+  setTimeout(() => frame.remove(), 1000);
+};
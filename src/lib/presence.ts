@@ -0,0 +1,44 @@
+import type { RealtimePresenceState } from '@supabase/supabase-js';
+import { formatDistanceToNow } from 'date-fns';
+
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+// What each tab tracks on a presence channel
+export interface PresencePayload {
+  user_id: string;
+  status: 'online' | 'away';
+  online_at: string;
+}
+
+// Typing events are re-sent at most this often, and expire if no new one arrives
+export const TYPING_THROTTLE_MS = 2000;
+export const TYPING_TIMEOUT_MS = 4000;
+
+/** A tab in the background counts as away rather than online. */
+export const currentPresenceStatus = (): 'online' | 'away' =>
+  document.visibilityState === 'visible' ? 'online' : 'away';
+
+/**
+ * A user's status from a channel's presenceState(). Entries are matched on user_id rather
+ * than the presence key, and a user with several tabs is online if any of them is.
+ */
+export const presenceStatusOf = (state: RealtimePresenceState<PresencePayload>, userId: string): PresenceStatus => {
+  const entries = Object.values(state)
+    .flat()
+    .filter((entry) => entry.user_id === userId);
+
+  if (entries.length === 0) return 'offline';
+  return entries.some((entry) => entry.status === 'online') ? 'online' : 'away';
+};
+
+export const describePresence = (status: PresenceStatus, lastSeenAt: string | null) => {
+  if (status === 'online') return 'Online';
+  if (status === 'away') return 'Away';
+  return lastSeenAt ? `Last seen ${formatDistanceToNow(new Date(lastSeenAt), { addSuffix: true })}` : 'Offline';
+};
+
+export const PRESENCE_DOT_CLASSES: Record<PresenceStatus, string> = {
+  online: 'bg-green-500',
+  away: 'bg-amber-500',
+  offline: 'bg-muted-foreground/40',
+};
@@ -0,0 +1,69 @@
+import { addMonths, addWeeks, format } from 'date-fns';
+import { toZonedDateString, toZonedTimeString, zonedTimeToUtc } from './timezone';
+
+export type SeriesFrequency = 'weekly' | 'monthly';
+export type SeriesScope = 'this' | 'following' | 'all';
+
+export interface SeriesOptions {
+  enabled: boolean;
+  frequency: SeriesFrequency;
+  interval: number;
+  endMode: 'count' | 'until';
+  count: number;
+  until: string;
+  // Doctor-calendar dates ("yyyy-MM-dd") to leave out of the series
+  excludedDates: string[];
+}
+
+export interface Occurrence {
+  day: string;
+  start: Date;
+}
+
+// Same cap as create_appointment_series
+export const MAX_OCCURRENCES = 52;
+
+export const DEFAULT_SERIES_OPTIONS: SeriesOptions = {
+  enabled: false,
+  frequency: 'weekly',
+  interval: 1,
+  endMode: 'count',
+  count: 6,
+  until: '',
+  excludedDates: [],
+};
+
+export const SCOPE_LABELS: Record<SeriesScope, string> = {
+  this: 'This appointment only',
+  following: 'This and following appointments',
+  all: 'All upcoming appointments in the series',
+};
+
+/**
+ * Occurrences of a series starting at `start`, mirroring create_appointment_series:
+ * each one keeps the first occurrence's wall-clock time in the doctor's zone.
+ * Excluded dates are included here so they can be shown and toggled.
+ */
+export const generateOccurrences = (start: string, options: SeriesOptions, timeZone: string): Occurrence[] => {
+  const first = new Date(start);
+  const time = toZonedTimeString(first, timeZone);
+  // Midday avoids local DST shifts when stepping whole days
+  const base = new Date(`${toZonedDateString(first, timeZone)}T12:00:00`);
+  const occurrences: Occurrence[] = [];
+
+  for (let index = 0; index < MAX_OCCURRENCES; index++) {
+    if (options.endMode === 'count' && index >= options.count) break;
+
+    const shifted =
+      options.frequency === 'weekly'
+        ? addWeeks(base, index * options.interval)
+        : addMonths(base, index * options.interval);
+    const day = format(shifted, 'yyyy-MM-dd');
+
+    if (options.endMode === 'until' && (!options.until || day > options.until)) break;
+
+    occurrences.push({ day, start: zonedTimeToUtc(day, time, timeZone) });
+  }
+
+  return occurrences;
+};
@@ -0,0 +1,123 @@
+import { addMonths, addWeeks, format, startOfMonth, startOfWeek } from 'date-fns';
+import { toZonedDateString } from './timezone';
+
+export type RevenuePeriod = 'week' | 'month';
+
+export interface LedgerEntry {
+  id: string;
+  amount: number;
+  status: string;
+  kind: string;
+  created_at: string;
+  paid_at: string | null;
+  // Sum of refunds the provider has completed
+  refunded: number;
+  appointment_date: string;
+  appointment_status: string;
+  patient_name: string;
+  invoice_number: string | null;
+  receipt_number: string | null;
+}
+
+export interface EarningsBucket {
+  key: string;
+  label: string;
+  earnings: number;
+  refunds: number;
+}
+
+export interface StatusTotals {
+  paid: number;
+  outstanding: number;
+  failed: number;
+  refunded: number;
+}
+
+const isSettled = (entry: LedgerEntry) =>
+  entry.status === 'paid' || entry.status === 'partially_refunded' || entry.status === 'refunded';
+
+// An unpaid visit fee or co-pay lapses when its appointment is cancelled;
+// late-cancellation fees are only created by the cancellation, so they stay owed
+const isOwed = (entry: LedgerEntry) =>
+  entry.kind === 'late_cancellation_fee' ||
+  (entry.appointment_status !== 'cancelled' && entry.appointment_status !== 'late_cancelled');
+
+// Start of the week or month containing `date`, on the doctor's calendar
+const periodKey = (date: Date | string, period: RevenuePeriod, timeZone: string) => {
+  const day = new Date(`${toZonedDateString(new Date(date), timeZone)}T12:00:00`);
+  const start = period === 'week' ? startOfWeek(day, { weekStartsOn: 1 }) : startOfMonth(day);
+  return format(start, 'yyyy-MM-dd');
+};
+
+/**
+ * Settled payments grouped by when they were paid, for the last `count` weeks or months.
+ * Periods without payments are included so the chart keeps an even time axis.
+ */
+export const bucketEarnings = (
+  entries: LedgerEntry[],
+  period: RevenuePeriod,
+  timeZone: string,
+  count = 12,
+  now: Date = new Date()
+): EarningsBucket[] => {
+  const current = new Date(`${periodKey(now, period, timeZone)}T12:00:00`);
+  const buckets = new Map<string, EarningsBucket>();
+
+  for (let i = count - 1; i >= 0; i--) {
+    const start = period === 'week' ? addWeeks(current, -i) : addMonths(current, -i);
+    const key = format(start, 'yyyy-MM-dd');
+    buckets.set(key, {
+      key,
+      label: format(start, period === 'week' ? 'MMM d' : 'MMM yyyy'),
+      earnings: 0,
+      refunds: 0,
+    });
+  }
+
+  for (const entry of entries) {
+    if (!isSettled(entry) || !entry.paid_at) continue;
+    const bucket = buckets.get(periodKey(entry.paid_at, period, timeZone));
+    if (!bucket) continue;
+    bucket.earnings += entry.amount - entry.refunded;
+    bucket.refunds += entry.refunded;
+  }
+
+  return Array.from(buckets.values());
+};
+
+export const summarizeStatuses = (entries: LedgerEntry[]): StatusTotals =>
+  entries.reduce(
+    (totals, entry) => {
+      if (isSettled(entry)) {
+        totals.paid += entry.amount - entry.refunded;
+        totals.refunded += entry.refunded;
+      } else if (!isOwed(entry)) {
+        return totals;
+      } else if (entry.status === 'failed') {
+        totals.failed += entry.amount;
+      } else {
+        totals.outstanding += entry.amount;
+      }
+      return totals;
+    },
+    { paid: 0, outstanding: 0, failed: 0, refunded: 0 }
+  );
+
+/**
+ * Mean time from a payment being requested to it being paid, in milliseconds.
+ */
+export const averageTimeToPayment = (entries: LedgerEntry[]) => {
+  const durations = entries
+    .filter((entry) => entry.paid_at)
+    .map((entry) => new Date(entry.paid_at!).getTime() - new Date(entry.created_at).getTime());
+
+  if (durations.length === 0) return null;
+  return durations.reduce((sum, ms) => sum + ms, 0) / durations.length;
+};
+
+export const formatDuration = (ms: number) => {
+  const hours = ms / (60 * 60 * 1000);
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))} min`;
+  if (hours < 48) return `${hours.toFixed(1)} hours`;
+  return `${(hours / 24).toFixed(1)} days`;
+};
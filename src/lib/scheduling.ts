@@ -0,0 +1,135 @@
+import { addMinutes, isBefore } from 'date-fns';
+import { zonedTimeToUtc } from './timezone';
+
+export interface WeeklyAvailability {
+  weekday: number;
+  start_time: string;
+  end_time: string;
+  break_start: string | null;
+  break_end: string | null;
+}
+
+export interface AvailabilityException {
+  exception_date: string;
+  start_time: string | null;
+  end_time: string | null;
+  reason: string | null;
+}
+
+export interface BusySlot {
+  starts_at: string;
+  ends_at: string;
+}
+
+export interface CancellationPolicy {
+  cutoff_hours: number;
+  late_cancel_fee: number;
+  late_refund_percent: number;
+}
+
+interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Postgres TIME columns come back as "HH:MM:SS"; inputs use "HH:MM"
+export const toTimeInput = (time: string | null) => (time ? time.slice(0, 5) : '');
+
+// Weekday of a "yyyy-MM-dd" calendar date, independent of the browser's zone
+const weekdayOf = (day: string) => new Date(`${day}T00:00:00Z`).getUTCDay();
+
+const overlaps = (a: TimeRange, b: TimeRange) => a.start < b.end && b.start < a.end;
+
+/**
+ * Working ranges for a single day ("yyyy-MM-dd" on the doctor's calendar) after
+ * applying exceptions and breaks. Hours are wall-clock times in the doctor's zone.
+ */
+export const getWorkingRanges = (
+  day: string,
+  availability: WeeklyAvailability[],
+  exceptions: AvailabilityException[],
+  timeZone: string
+): TimeRange[] => {
+  const atTime = (time: string) => zonedTimeToUtc(day, time, timeZone);
+  const exception = exceptions.find((e) => e.exception_date === day);
+
+  if (exception) {
+    if (!exception.start_time || !exception.end_time) return [];
+    return [{ start: atTime(exception.start_time), end: atTime(exception.end_time) }];
+  }
+
+  const hours = availability.find((a) => a.weekday === weekdayOf(day));
+  if (!hours) return [];
+
+  const start = atTime(hours.start_time);
+  const end = atTime(hours.end_time);
+
+  if (hours.break_start && hours.break_end) {
+    return [
+      { start, end: atTime(hours.break_start) },
+      { start: atTime(hours.break_end), end },
+    ];
+  }
+
+  return [{ start, end }];
+};
+
+export const isWorkingDay = (
+  day: string,
+  availability: WeeklyAvailability[],
+  exceptions: AvailabilityException[]
+) => {
+  if (exceptions.some((e) => e.exception_date === day)) {
+    return exceptions.some((e) => e.exception_date === day && e.start_time && e.end_time);
+  }
+  return availability.some((a) => a.weekday === weekdayOf(day));
+};
+
+/**
+ * Open slot start times for a day, skipping slots that overlap existing
+ * appointments or have already started.
+ */
+export const generateSlots = (
+  day: string,
+  availability: WeeklyAvailability[],
+  exceptions: AvailabilityException[],
+  timeZone: string,
+  busy: BusySlot[],
+  slotMinutes: number,
+  now: Date = new Date()
+): Date[] => {
+  const busyRanges = busy.map((b) => ({ start: new Date(b.starts_at), end: new Date(b.ends_at) }));
+  const slots: Date[] = [];
+
+  for (const range of getWorkingRanges(day, availability, exceptions, timeZone)) {
+    let start = range.start;
+    while (!isBefore(range.end, addMinutes(start, slotMinutes))) {
+      const slot = { start, end: addMinutes(start, slotMinutes) };
+      if (!isBefore(start, now) && !busyRanges.some((b) => overlaps(slot, b))) {
+        slots.push(start);
+      }
+      start = slot.end;
+    }
+  }
+
+  return slots;
+};
+
+// Mirrors the check in the cancel_appointment database function
+export const isLateCancellation = (
+  appointmentDate: string,
+  status: string,
+  role: 'patient' | 'doctor',
+  policy: CancellationPolicy | null
+) =>
+  role === 'patient' &&
+  status === 'confirmed' &&
+  !!policy &&
+  new Date(appointmentDate).getTime() - Date.now() < policy.cutoff_hours * 60 * 60 * 1000;
+
+export const VISIT_MODE_LABELS: Record<string, string> = {
+  in_person: 'In person',
+  video: 'Video',
+};
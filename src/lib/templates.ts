@@ -0,0 +1,31 @@
+export interface MessageTemplate {
+  id: string;
+  // Null for templates shared across the clinic
+  doctor_id: string | null;
+  shortcut: string;
+  title: string;
+  body: string;
+}
+
+export type TemplatePlaceholder = 'patient_name' | 'doctor_name' | 'appointment_date';
+
+export const TEMPLATE_PLACEHOLDERS: { key: TemplatePlaceholder; label: string }[] = [
+  { key: 'patient_name', label: 'Patient name' },
+  { key: 'doctor_name', label: 'Doctor name' },
+  { key: 'appointment_date', label: 'Appointment date' },
+];
+
+/**
+ * Substitute {{placeholders}} in a template. Ones without a value stay in the text
+ * so the doctor can see what still needs filling in before sending.
+ */
+export const fillTemplate = (body: string, values: Partial<Record<TemplatePlaceholder, string>>) =>
+  body.replace(/\{\{(\w+)\}\}/g, (match, key: string) => values[key as TemplatePlaceholder] ?? match);
+
+/** Templates matching what was typed after "/", shortcut matches first. */
+export const matchTemplates = (templates: MessageTemplate[], query: string) => {
+  const q = query.toLowerCase();
+  const byShortcut = templates.filter((t) => t.shortcut.startsWith(q));
+  const byTitle = templates.filter((t) => !t.shortcut.startsWith(q) && t.title.toLowerCase().includes(q));
+  return [...byShortcut, ...byTitle];
+};
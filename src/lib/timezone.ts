@@ -0,0 +1,126 @@
+// Time zone helpers built on Intl so zone rules (including DST) come from the browser
+
+const FALLBACK_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Istanbul',
+  'Africa/Lagos',
+  'Africa/Nairobi',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+];
+
+export const getBrowserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const TIME_ZONES: string[] =
+  (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf?.('timeZone') ?? FALLBACK_TIME_ZONES;
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getZonedParts = (date: Date, timeZone: string) => {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hour12: false,
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  // Some engines report midnight as hour 24
+  if (parts.hour === 24) parts.hour = 0;
+  return parts;
+};
+
+/**
+ * Offset of a zone from UTC at the given instant, in milliseconds.
+ */
+export const getTimeZoneOffset = (date: Date, timeZone: string) => {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * The instant at which a wall-clock time ("yyyy-MM-dd", "HH:mm") occurs in a zone.
+ * Times skipped by a DST change resolve to the first valid time after the gap;
+ * times repeated by one resolve to their first occurrence.
+ */
+export const zonedTimeToUtc = (day: string, time: string, timeZone: string) => {
+  const [year, month, date] = day.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, date, hours, minutes);
+
+  // Offsets a day either side; DST changes are never closer together than that
+  const dayMs = 24 * 60 * 60 * 1000;
+  const before = getTimeZoneOffset(new Date(wallClock - dayMs), timeZone);
+  const after = getTimeZoneOffset(new Date(wallClock + dayMs), timeZone);
+
+  const matches = [wallClock - before, wallClock - after].filter(
+    (instant) => wallClock - instant === getTimeZoneOffset(new Date(instant), timeZone)
+  );
+  if (matches.length > 0) return new Date(Math.min(...matches));
+
+  // In the gap: the offset from before the change carries it forward past the gap
+  return new Date(wallClock - before);
+};
+
+/**
+ * Calendar date ("yyyy-MM-dd") of an instant in a zone.
+ */
+export const toZonedDateString = (date: Date, timeZone: string) => {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+};
+
+/**
+ * Wall-clock time ("HH:mm") of an instant in a zone.
+ */
+export const toZonedTimeString = (date: Date, timeZone: string) => {
+  const p = getZonedParts(date, timeZone);
+  return `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`;
+};
+
+export const formatInTimeZone = (date: Date | string, timeZone: string) =>
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(new Date(date));
+
+export const formatTimeInTimeZone = (date: Date | string, timeZone: string, withZoneName = true) =>
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: '2-digit',
+    ...(withZoneName ? { timeZoneName: 'short' as const } : {}),
+  }).format(new Date(date));
+
+/**
+ * Whether two zones currently show the same wall-clock time.
+ */
+export const isSameOffset = (a: string, b: string, at: Date = new Date()) =>
+  getTimeZoneOffset(at, a) === getTimeZoneOffset(at, b);
@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+
+// Stand-in for a hosted checkout page when the backend runs the mock payment provider
+const MockCheckout = () => {
+  const { toast } = useToast();
+  const [params] = useSearchParams();
+  const [submitting, setSubmitting] = useState(false);
+
+  // Only ever send the patient back into this app
+  const returnUrl = params.get('return_url') ?? '';
+  const safeReturnUrl = returnUrl.startsWith(`${window.location.origin}/`) ? returnUrl : '/dashboard';
+
+  const handleOutcome = async (outcome: 'succeeded' | 'failed') => {
+    setSubmitting(true);
+    const { data, error } = await supabase.functions.invoke('mock-checkout', {
+      body: { reference: params.get('reference'), paymentId: params.get('payment_id'), outcome },
+    });
+
+    if (error || !data?.success) {
+      toast({
+        title: 'Error',
+        description: data?.error || error?.message || 'Could not complete checkout',
+        variant: 'destructive',
+      });
+      setSubmitting(false);
+      return;
+    }
+
+    window.location.assign(safeReturnUrl);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/30 p-4">
+      <Card className="w-full max-w-sm text-center">
+        <CardHeader>
+          <CardDescription>Mock payment provider</CardDescription>
+          <CardTitle>{params.get('description')}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-3xl font-bold">${params.get('amount') ?? '0.00'}</p>
+          <div className="flex justify-center gap-2">
+            <Button onClick={() => handleOutcome('succeeded')} disabled={submitting}>
+              Pay
+            </Button>
+            <Button variant="outline" onClick={() => handleOutcome('failed')} disabled={submitting}>
+              Simulate failure
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default MockCheckout;
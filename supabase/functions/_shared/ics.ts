@@ -0,0 +1,91 @@
+// iCalendar building shared by the in-app .ics download (src/lib/ics.ts) and the
+// appointments-ical feed, so both produce the same events.
+
+export interface IcsEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  status: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+  sequence: number;
+  lastModified: Date;
+}
+
+const PRODUCT_ID = '-//HealthCare Portal//Appointments//EN';
+
+// Appointment ids are stable across reschedules, so calendar apps update the existing event
+export const appointmentUid = (appointmentId: string) => `${appointmentId}@healthcare-portal`;
+
+export const appointmentIcsStatus = (status: string): IcsEvent['status'] => {
+  if (status === 'cancelled' || status === 'late_cancelled') return 'CANCELLED';
+  if (status === 'pending') return 'TENTATIVE';
+  return 'CONFIRMED';
+};
+
+// Seconds between creation and last update; grows every time the row changes
+export const appointmentSequence = (createdAt: string, updatedAt: string) =>
+  Math.max(0, Math.floor((new Date(updatedAt).getTime() - new Date(createdAt).getTime()) / 1000));
+
+const formatDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const MAX_LINE_OCTETS = 75;
+const encoder = new TextEncoder();
+
+// RFC 5545 limits content lines to 75 octets of UTF-8; continuation lines start with
+// a space, which counts towards their limit. Breaks fall between characters so a
+// multi-byte character is never split across lines.
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > MAX_LINE_OCTETS) {
+      parts.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+};
+
+// extraHeaders are raw calendar properties, e.g. a feed's refresh interval
+export const buildCalendar = (events: IcsEvent[], name = 'Appointments', extraHeaders: string[] = []) => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...extraHeaders,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatDate(event.lastModified)}`,
+      `LAST-MODIFIED:${formatDate(event.lastModified)}`,
+      `SEQUENCE:${event.sequence}`,
+      `DTSTART:${formatDate(event.start)}`,
+      `DTEND:${formatDate(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `STATUS:${event.status}`
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,251 @@
+// Payment provider abstraction shared by create-checkout, payment-webhook, process-refunds
+// and mock-checkout.
+// Pick one with the PAYMENT_PROVIDER secret: "stripe", or "mock" for local development, which
+// also needs MOCK_PAYMENTS_ENABLED=true so it can never be switched on by a missing secret.
+
+export type PaymentEventStatus = 'paid' | 'failed';
+
+export interface CheckoutRequest {
+  paymentId: string;
+  amount: number;
+  description: string;
+  returnUrl: string;
+}
+
+export interface CheckoutSession {
+  reference: string;
+  url: string;
+}
+
+export interface RefundRequest {
+  refundId: string;
+  // provider_reference of the payment's checkout
+  paymentReference: string;
+  amount: number;
+}
+
+export interface PaymentEvent {
+  eventId: string;
+  type: string;
+  reference: string | null;
+  paymentId: string | null;
+  status: PaymentEventStatus;
+}
+
+export interface PaymentProvider {
+  name: string;
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+  // Resolves with the provider's refund reference once the refund is accepted
+  refund(request: RefundRequest): Promise<string>;
+  // Throws WebhookSignatureError for unsigned or tampered requests; null means the event is ignored
+  parseWebhook(body: string, headers: Headers): Promise<PaymentEvent | null>;
+}
+
+export class WebhookSignatureError extends Error {
+  constructor(message = 'Invalid webhook signature') {
+    super(message);
+    this.name = 'WebhookSignatureError';
+  }
+}
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} not configured`);
+  return value;
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+export const hmacSha256Hex = async (secret: string, message: string) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message)));
+};
+
+const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+// Signs its own events with MOCK_PAYMENT_SECRET. The checkout page is the app's /mock-checkout
+// route, which asks the mock-checkout function to send the webhook.
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature';
+
+export const mockPaymentsEnabled = () =>
+  Deno.env.get('PAYMENT_PROVIDER') === 'mock' && Deno.env.get('MOCK_PAYMENTS_ENABLED') === 'true';
+
+const mockProvider: PaymentProvider = {
+  name: 'mock',
+
+  async createCheckout({ paymentId, amount, description, returnUrl }) {
+    const reference = `mock_${crypto.randomUUID()}`;
+    const params = new URLSearchParams({
+      reference,
+      payment_id: paymentId,
+      amount: amount.toFixed(2),
+      description,
+      return_url: returnUrl,
+    });
+    return { reference, url: `${new URL(returnUrl).origin}/mock-checkout?${params}` };
+  },
+
+  async refund() {
+    return `mock_refund_${crypto.randomUUID()}`;
+  },
+
+  async parseWebhook(body, headers) {
+    const signature = headers.get(MOCK_SIGNATURE_HEADER) ?? '';
+    const expected = await hmacSha256Hex(requireEnv('MOCK_PAYMENT_SECRET'), body);
+    if (!timingSafeEqual(signature, expected)) throw new WebhookSignatureError();
+
+    const event = JSON.parse(body);
+    if (event.type !== 'payment.succeeded' && event.type !== 'payment.failed') return null;
+
+    return {
+      eventId: event.id,
+      type: event.type,
+      reference: event.reference ?? null,
+      paymentId: event.payment_id ?? null,
+      status: event.type === 'payment.succeeded' ? 'paid' : 'failed',
+    };
+  },
+};
+
+// Stripe rejects webhooks older than this by default
+const STRIPE_TOLERANCE_SECONDS = 300;
+
+const stripeProvider: PaymentProvider = {
+  name: 'stripe',
+
+  async createCheckout({ paymentId, amount, description, returnUrl }) {
+    const form = new URLSearchParams({
+      mode: 'payment',
+      'line_items[0][quantity]': '1',
+      'line_items[0][price_data][currency]': Deno.env.get('PAYMENT_CURRENCY') ?? 'usd',
+      'line_items[0][price_data][unit_amount]': String(Math.round(amount * 100)),
+      'line_items[0][price_data][product_data][name]': description,
+      client_reference_id: paymentId,
+      'metadata[payment_id]': paymentId,
+      success_url: returnUrl,
+      cancel_url: returnUrl,
+    });
+
+    const response = await fetch('https://api.stripe.com/v1/checkout/sessions', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${requireEnv('STRIPE_SECRET_KEY')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Idempotency-Key': `checkout-${paymentId}-${Date.now()}`,
+      },
+      body: form,
+    });
+
+    const session = await response.json();
+    if (!response.ok) {
+      throw new Error(session.error?.message ?? `Stripe error ${response.status}`);
+    }
+    return { reference: session.id, url: session.url };
+  },
+
+  async refund({ refundId, paymentReference, amount }) {
+    const headers = { Authorization: `Bearer ${requireEnv('STRIPE_SECRET_KEY')}` };
+
+    // Refunds are made against the checkout's payment intent
+    const sessionResponse = await fetch(`https://api.stripe.com/v1/checkout/sessions/${paymentReference}`, { headers });
+    const session = await sessionResponse.json();
+    if (!sessionResponse.ok || !session.payment_intent) {
+      throw new Error(session.error?.message ?? 'No payment found for this checkout');
+    }
+
+    const response = await fetch('https://api.stripe.com/v1/refunds', {
+      method: 'POST',
+      headers: {
+        ...headers,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        // Retried runs never refund twice
+        'Idempotency-Key': `refund-${refundId}`,
+      },
+      body: new URLSearchParams({
+        payment_intent: session.payment_intent,
+        amount: String(Math.round(amount * 100)),
+        'metadata[refund_id]': refundId,
+      }),
+    });
+
+    const refund = await response.json();
+    if (!response.ok) {
+      throw new Error(refund.error?.message ?? `Stripe error ${response.status}`);
+    }
+    return refund.id;
+  },
+
+  async parseWebhook(body, headers) {
+    // Header looks like "t=1700000000,v1=<hex>,v1=<hex>"
+    const parts = (headers.get('stripe-signature') ?? '').split(',').map((part) => part.split('='));
+    const timestamp = parts.find(([key]) => key === 't')?.[1];
+    const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+    if (!timestamp || signatures.length === 0) throw new WebhookSignatureError();
+
+    if (Math.abs(Date.now() / 1000 - Number(timestamp)) > STRIPE_TOLERANCE_SECONDS) {
+      throw new WebhookSignatureError('Webhook timestamp outside tolerance');
+    }
+
+    const expected = await hmacSha256Hex(requireEnv('STRIPE_WEBHOOK_SECRET'), `${timestamp}.${body}`);
+    if (!signatures.some((signature) => timingSafeEqual(signature, expected))) {
+      throw new WebhookSignatureError();
+    }
+
+    const event = JSON.parse(body);
+    const session = event.data?.object ?? {};
+    let status: PaymentEventStatus | null = null;
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+        // Delayed methods (bank debits) complete unpaid and settle with a later event
+        status = session.payment_status === 'paid' ? 'paid' : null;
+        break;
+      case 'checkout.session.async_payment_succeeded':
+        status = 'paid';
+        break;
+      case 'checkout.session.async_payment_failed':
+      case 'checkout.session.expired':
+        status = 'failed';
+        break;
+    }
+
+    if (!status) return null;
+
+    return {
+      eventId: event.id,
+      type: event.type,
+      reference: session.id ?? null,
+      paymentId: session.metadata?.payment_id ?? session.client_reference_id ?? null,
+      status,
+    };
+  },
+};
+
+const PROVIDERS: Record<string, PaymentProvider> = {
+  mock: mockProvider,
+  stripe: stripeProvider,
+};
+
+export const getPaymentProvider = () => {
+  const name = requireEnv('PAYMENT_PROVIDER');
+  const provider = PROVIDERS[name];
+  if (!provider) throw new Error(`Unknown payment provider: ${name}`);
+  if (provider === mockProvider && !mockPaymentsEnabled()) {
+    throw new Error('The mock payment provider is for local development; set MOCK_PAYMENTS_ENABLED=true to use it');
+  }
+  return provider;
+};
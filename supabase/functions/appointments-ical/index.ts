@@ -0,0 +1,114 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.78.0';
+import {
+  appointmentIcsStatus,
+  appointmentSequence,
+  appointmentUid,
+  buildCalendar,
+  type IcsEvent,
+} from '../_shared/ics.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// How far back the feed goes; future appointments are always included
+const HISTORY_DAYS = 90;
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get('token');
+    if (!token) {
+      return new Response('Missing token', { status: 401, headers: corsHeaders });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: feed } = await supabase
+      .from('calendar_feed_tokens')
+      .select('user_id')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (!feed) {
+      return new Response('Invalid token', { status: 404, headers: corsHeaders });
+    }
+
+    const since = new Date();
+    since.setDate(since.getDate() - HISTORY_DAYS);
+
+    const { data: appointments, error: fetchError } = await supabase
+      .from('appointments')
+      .select(`
+        id,
+        appointment_date,
+        duration_minutes,
+        status,
+        patient_id,
+        doctor_id,
+        created_at,
+        updated_at,
+        patient:profiles!appointments_patient_id_fkey(full_name),
+        doctor:profiles!appointments_doctor_id_fkey(full_name)
+      `)
+      .or(`patient_id.eq.${feed.user_id},doctor_id.eq.${feed.user_id}`)
+      .gte('appointment_date', since.toISOString())
+      .order('appointment_date', { ascending: true });
+
+    if (fetchError) {
+      console.error('Error fetching appointments:', fetchError);
+      throw fetchError;
+    }
+
+    const events: IcsEvent[] = (appointments || []).map((apt) => {
+      const start = new Date(apt.appointment_date);
+      const isDoctor = apt.doctor_id === feed.user_id;
+      const otherName = isDoctor ? apt.patient?.full_name : `Dr. ${apt.doctor?.full_name}`;
+
+      // The visit reason stays out of third-party calendars
+      return {
+        uid: appointmentUid(apt.id),
+        start,
+        end: new Date(start.getTime() + apt.duration_minutes * 60 * 1000),
+        summary: `Appointment with ${otherName}`,
+        description: 'View details in HealthCare Portal',
+        status: appointmentIcsStatus(apt.status),
+        sequence: appointmentSequence(apt.created_at, apt.updated_at),
+        lastModified: new Date(apt.updated_at),
+      };
+    });
+
+    console.log(`Served calendar feed with ${appointments?.length || 0} appointments for user ${feed.user_id}`);
+
+    const calendar = buildCalendar(events, 'HealthCare Portal Appointments', [
+      'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+      'X-PUBLISHED-TTL:PT1H',
+    ]);
+
+    return new Response(calendar, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="appointments.ics"',
+        'Cache-Control': 'no-cache',
+      },
+      status: 200,
+    });
+  } catch (error) {
+    console.error('Error in appointments-ical function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    );
+  }
+});
@@ -0,0 +1,92 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.78.0';
+import { getPaymentProvider } from '../_shared/payment-providers.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ error: 'Not signed in' }, 401);
+    }
+
+    const { paymentId, returnUrl } = await req.json();
+    if (!paymentId || !returnUrl) {
+      return jsonResponse({ error: 'paymentId and returnUrl are required' }, 400);
+    }
+
+    const { data: payment, error: fetchError } = await supabase
+      .from('payments')
+      .select(`
+        id,
+        amount,
+        status,
+        kind,
+        appointment:appointments(patient_id, doctor:profiles!appointments_doctor_id_fkey(full_name))
+      `)
+      .eq('id', paymentId)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+
+    // Only the patient who owes the payment can pay it
+    if (!payment || payment.appointment?.patient_id !== user.id) {
+      return jsonResponse({ error: 'Payment not found' }, 404);
+    }
+
+    if (payment.status !== 'pending' && payment.status !== 'failed') {
+      return jsonResponse({ error: 'This payment has already been completed' }, 409);
+    }
+
+    const provider = getPaymentProvider();
+    const label = payment.kind === 'late_cancellation_fee' ? 'Late cancellation fee' : payment.kind === 'copay' ? 'Co-pay for appointment' : 'Appointment';
+    const description = `${label} with Dr. ${payment.appointment.doctor?.full_name}`;
+
+    console.log(`Creating ${provider.name} checkout for payment ${payment.id}`);
+
+    const session = await provider.createCheckout({
+      paymentId: payment.id,
+      amount: Number(payment.amount),
+      description,
+      returnUrl,
+    });
+
+    // A failed payment goes back to pending while the patient retries
+    const { error: updateError } = await supabase
+      .from('payments')
+      .update({
+        status: 'pending',
+        payment_link: session.url,
+        provider: provider.name,
+        provider_reference: session.reference,
+      })
+      .eq('id', payment.id)
+      .in('status', ['pending', 'failed']);
+
+    if (updateError) throw updateError;
+
+    return jsonResponse({ url: session.url });
+  } catch (error) {
+    console.error('Error in create-checkout function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
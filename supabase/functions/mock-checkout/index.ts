@@ -0,0 +1,92 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.78.0';
+import { hmacSha256Hex, MOCK_SIGNATURE_HEADER, mockPaymentsEnabled } from '../_shared/payment-providers.ts';
+
+// Backs the app's /mock-checkout page during local development. Paying or failing there
+// sends a signed webhook to payment-webhook exactly like a real provider would.
+// Only enabled with PAYMENT_PROVIDER=mock and MOCK_PAYMENTS_ENABLED=true, and only for the
+// signed-in patient who owes the payment.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!mockPaymentsEnabled()) {
+    return jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ error: 'Not signed in' }, 401);
+    }
+
+    const { reference, paymentId, outcome } = await req.json();
+    if (!reference || !paymentId || (outcome !== 'succeeded' && outcome !== 'failed')) {
+      return jsonResponse({ error: 'reference, paymentId and outcome are required' }, 400);
+    }
+
+    const { data: payment, error: fetchError } = await supabase
+      .from('payments')
+      .select('id, provider, provider_reference, appointment:appointments(patient_id)')
+      .eq('id', paymentId)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+
+    // Only the checkout create-checkout started for this patient can be completed
+    if (
+      !payment ||
+      payment.appointment?.patient_id !== user.id ||
+      payment.provider !== 'mock' ||
+      payment.provider_reference !== reference
+    ) {
+      return jsonResponse({ error: 'Checkout not found' }, 404);
+    }
+
+    const event = {
+      id: `evt_${crypto.randomUUID()}`,
+      type: outcome === 'succeeded' ? 'payment.succeeded' : 'payment.failed',
+      reference,
+      payment_id: payment.id,
+    };
+    const body = JSON.stringify(event);
+
+    console.log(`Mock checkout sending ${event.type} for payment ${event.payment_id}`);
+
+    const response = await fetch(`${supabaseUrl}/functions/v1/payment-webhook`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [MOCK_SIGNATURE_HEADER]: await hmacSha256Hex(Deno.env.get('MOCK_PAYMENT_SECRET')!, body),
+      },
+      body,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook rejected the event: ${await response.text()}`);
+    }
+
+    return jsonResponse({ success: true });
+  } catch (error) {
+    console.error('Error in mock-checkout function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
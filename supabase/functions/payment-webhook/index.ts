@@ -0,0 +1,117 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.78.0';
+import { getPaymentProvider, WebhookSignatureError } from '../_shared/payment-providers.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const provider = getPaymentProvider();
+    // Signatures cover the raw body, so read it before parsing
+    const body = await req.text();
+    const event = await provider.parseWebhook(body, req.headers);
+
+    if (!event) {
+      return jsonResponse({ received: true, ignored: true });
+    }
+
+    console.log(`Received ${provider.name} event ${event.eventId} (${event.type})`);
+
+    // The payment id travels in the signed event metadata; the reference is only checked against it
+    if (!event.paymentId) {
+      console.log(`Event ${event.eventId} carries no payment id`);
+      return jsonResponse({ received: true, ignored: true });
+    }
+
+    const { data: payment, error: fetchError } = await supabase
+      .from('payments')
+      .select('id, amount, status, provider_reference, appointment:appointments(patient_id, doctor_id)')
+      .eq('id', event.paymentId)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+
+    if (!payment) {
+      console.log(`No payment matches event ${event.eventId}`);
+      return jsonResponse({ received: true, ignored: true });
+    }
+
+    // Providers retry deliveries, so each event is applied once
+    const { error: logError } = await supabase.from('payment_webhook_events').insert({
+      provider: provider.name,
+      event_id: event.eventId,
+      event_type: event.type,
+      payment_id: payment.id,
+      payload: JSON.parse(body),
+    });
+
+    if (logError?.code === '23505') {
+      console.log(`Event ${event.eventId} already processed`);
+      return jsonResponse({ received: true, duplicate: true });
+    }
+    if (logError) throw logError;
+
+    // A settled payment stays settled, and failures from superseded checkouts don't count.
+    // Money taken by an older checkout of the same payment still settles it.
+    const settled = !['pending', 'failed'].includes(payment.status);
+    const superseded = event.reference !== payment.provider_reference;
+    if (superseded) {
+      console.log(`Event ${event.eventId} is for checkout ${event.reference}, payment ${payment.id} is on ${payment.provider_reference}`);
+    }
+    const stale = event.status === 'failed' && superseded;
+    if (settled || stale) {
+      return jsonResponse({ received: true, ignored: true });
+    }
+
+    const { error: updateError } = await supabase
+      .from('payments')
+      .update({ status: event.status })
+      .eq('id', payment.id);
+
+    if (updateError) throw updateError;
+
+    console.log(`Payment ${payment.id} marked ${event.status}`);
+
+    // The patient's receipt notification comes from the invoice trigger
+    await supabase.from('notifications').insert(
+      event.status === 'paid'
+        ? {
+            user_id: payment.appointment.doctor_id,
+            title: 'Payment Received',
+            message: `A payment of $${Number(payment.amount).toFixed(2)} has been received`,
+          }
+        : {
+            user_id: payment.appointment.patient_id,
+            title: 'Payment Failed',
+            message: `Your payment of $${Number(payment.amount).toFixed(2)} did not go through. You can try again from your appointments.`,
+          }
+    );
+
+    return jsonResponse({ received: true });
+  } catch (error) {
+    if (error instanceof WebhookSignatureError) {
+      console.error('Rejected webhook:', error.message);
+      return jsonResponse({ error: error.message }, 400);
+    }
+
+    console.error('Error in payment-webhook function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
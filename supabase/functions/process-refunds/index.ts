@@ -0,0 +1,98 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.78.0';
+import { getPaymentProvider } from '../_shared/payment-providers.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const provider = getPaymentProvider();
+
+    console.log(`Starting ${provider.name} refund run`);
+
+    const { data: refunds, error: fetchError } = await supabase
+      .from('refunds')
+      .select('id, amount, payment:payments(provider, provider_reference)')
+      .eq('status', 'pending')
+      .order('created_at')
+      .limit(50);
+
+    if (fetchError) {
+      console.error('Error fetching pending refunds:', fetchError);
+      throw fetchError;
+    }
+
+    console.log(`Found ${refunds?.length || 0} pending refunds`);
+
+    let refundsSucceeded = 0;
+    let refundsFailed = 0;
+    for (const refund of refunds || []) {
+      // Payment status and notifications follow from the refund row via apply_refund_to_payment
+      let update: { status: 'succeeded' | 'failed'; provider_reference?: string; failure_reason?: string };
+
+      if (refund.payment?.provider !== provider.name || !refund.payment.provider_reference) {
+        update = { status: 'failed', failure_reason: 'The payment was not taken online' };
+      } else {
+        try {
+          const reference = await provider.refund({
+            refundId: refund.id,
+            paymentReference: refund.payment.provider_reference,
+            amount: Number(refund.amount),
+          });
+          update = { status: 'succeeded', provider_reference: reference };
+        } catch (error) {
+          update = { status: 'failed', failure_reason: error instanceof Error ? error.message : 'Unknown error' };
+        }
+      }
+
+      const { error: updateError } = await supabase
+        .from('refunds')
+        .update({ ...update, processed_at: new Date().toISOString() })
+        .eq('id', refund.id)
+        .eq('status', 'pending');
+
+      if (updateError) {
+        console.error(`Error updating refund ${refund.id}:`, updateError);
+      } else if (update.status === 'succeeded') {
+        refundsSucceeded++;
+        console.log(`Refund ${refund.id} succeeded`);
+      } else {
+        refundsFailed++;
+        console.log(`Refund ${refund.id} failed: ${update.failure_reason}`);
+      }
+    }
+
+    console.log(`Refund run complete. ${refundsSucceeded} succeeded, ${refundsFailed} failed.`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        refundsSucceeded,
+        refundsFailed
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+  } catch (error) {
+    console.error('Error in process-refunds function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    );
+  }
+});
@@ -0,0 +1,51 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.78.0';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    console.log('Starting waitlist offer expiry check');
+
+    // Expired offers are passed on to the next patient in the queue by the database
+    const { data: offersExpired, error } = await supabase.rpc('expire_waitlist_offers');
+
+    if (error) {
+      console.error('Error expiring waitlist offers:', error);
+      throw error;
+    }
+
+    console.log(`Waitlist check complete. Expired ${offersExpired} offers.`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        offersExpired
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+  } catch (error) {
+    console.error('Error in process-waitlist function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    );
+  }
+});
@@ -0,0 +1,164 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.78.0';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Minutes before the appointment; override with APPOINTMENT_REMINDER_OFFSETS (e.g. "1440,60").
+// The function is public, so offsets never come from the request.
+const DEFAULT_OFFSETS_MINUTES = [24 * 60, 60];
+
+const parseOffsets = (value: string | undefined): number[] | null => {
+  if (!value) return null;
+
+  const offsets = value.split(',').map((v) => Number(v)).filter((v) => Number.isInteger(v) && v > 0);
+  return offsets.length > 0 ? [...new Set(offsets)].sort((a, b) => b - a) : null;
+};
+
+// Rounded time left, so a run that fires late still tells the truth
+const describeTimeLeft = (minutes: number) => {
+  if (minutes >= 2880) return `${Math.round(minutes / 1440)} days`;
+  if (minutes >= 90) return `${Math.round(minutes / 60)} hours`;
+  if (minutes >= 60) return '1 hour';
+  const rounded = Math.max(1, Math.round(minutes));
+  return rounded === 1 ? '1 minute' : `${rounded} minutes`;
+};
+
+const formatAppointmentDate = (date: string, timeZone: string) =>
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(new Date(date));
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const offsets = parseOffsets(Deno.env.get('APPOINTMENT_REMINDER_OFFSETS')) ?? DEFAULT_OFFSETS_MINUTES;
+
+    console.log(`Starting appointment reminder check with offsets: ${offsets.join(', ')} minutes`);
+
+    const now = new Date();
+    const horizon = new Date(now.getTime() + offsets[0] * 60 * 1000);
+
+    // Confirmed appointments that fall inside the largest reminder window
+    const { data: appointments, error: fetchError } = await supabase
+      .from('appointments')
+      .select(`
+        id,
+        patient_id,
+        appointment_date,
+        patient:profiles!appointments_patient_id_fkey(time_zone),
+        doctor:profiles!appointments_doctor_id_fkey(full_name, time_zone),
+        appointment_reminders(offset_minutes)
+      `)
+      .eq('status', 'confirmed')
+      .gt('appointment_date', now.toISOString())
+      .lte('appointment_date', horizon.toISOString());
+
+    if (fetchError) {
+      console.error('Error fetching appointments:', fetchError);
+      throw fetchError;
+    }
+
+    console.log(`Found ${appointments?.length || 0} confirmed appointments in the reminder window`);
+
+    let remindersSent = 0;
+    for (const apt of appointments || []) {
+      const minutesUntil = (new Date(apt.appointment_date).getTime() - now.getTime()) / 60000;
+      const alreadyHandled = new Set((apt.appointment_reminders || []).map((r) => r.offset_minutes));
+      const due = offsets.filter((offset) => offset >= minutesUntil && !alreadyHandled.has(offset));
+
+      if (due.length === 0) continue;
+
+      // Only the closest due reminder is sent; earlier ones that were missed are skipped
+      const closest = Math.min(...due);
+
+      const { data: claimed, error: claimError } = await supabase
+        .from('appointment_reminders')
+        .upsert(
+          due.map((offset) => ({
+            appointment_id: apt.id,
+            offset_minutes: offset,
+            skipped: offset !== closest,
+          })),
+          { onConflict: 'appointment_id,offset_minutes', ignoreDuplicates: true }
+        )
+        .select('offset_minutes');
+
+      if (claimError) {
+        console.error(`Error recording reminder for appointment ${apt.id}:`, claimError);
+        continue;
+      }
+
+      // Another run already claimed this reminder
+      if (!claimed?.some((r) => r.offset_minutes === closest)) {
+        console.log(`Skipping appointment ${apt.id} - reminder already sent`);
+        continue;
+      }
+
+      // Shown in the patient's zone, plus the doctor's local time when it differs
+      const patientTime = formatAppointmentDate(apt.appointment_date, apt.patient?.time_zone || 'UTC');
+      const doctorTime = formatAppointmentDate(apt.appointment_date, apt.doctor?.time_zone || 'UTC');
+      const timeLeft = describeTimeLeft(minutesUntil);
+      const when = patientTime === doctorTime ? patientTime : `${patientTime}; ${doctorTime} for the doctor`;
+
+      const { error: notificationError } = await supabase
+        .from('notifications')
+        .insert({
+          user_id: apt.patient_id,
+          title: 'Appointment Reminder',
+          message: `Reminder: your appointment with Dr. ${apt.doctor?.full_name} is in ${timeLeft} (${when}).`,
+        });
+
+      if (notificationError) {
+        console.error(`Error sending reminder for appointment ${apt.id}:`, notificationError);
+        // Release the claim so the next run retries
+        await supabase
+          .from('appointment_reminders')
+          .delete()
+          .eq('appointment_id', apt.id)
+          .eq('offset_minutes', closest);
+      } else {
+        remindersSent++;
+        console.log(`Sent ${closest}-minute reminder for appointment ${apt.id}, ${timeLeft} before`);
+      }
+    }
+
+    console.log(`Appointment reminder check complete. Sent ${remindersSent} reminders.`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        remindersSent,
+        appointmentsChecked: appointments?.length || 0
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+  } catch (error) {
+    console.error('Error in send-appointment-reminders function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    );
+  }
+});
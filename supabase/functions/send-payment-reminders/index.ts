@@ -5,6 +5,41 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+interface ReminderPolicy {
+  enabled: boolean;
+  schedule_days: number[];
+  max_reminders: number;
+  templates: string[];
+}
+
+// Used for doctors who haven't set their own policy; matches the column defaults
+const DEFAULT_POLICY: ReminderPolicy = {
+  enabled: true,
+  schedule_days: [1, 3, 7],
+  max_reminders: 3,
+  templates: [
+    'Reminder: you have a pending payment of {amount} for your appointment with Dr. {doctor} on {appointment}.',
+    'Second reminder: your payment of {amount} to Dr. {doctor} is still outstanding. You can pay from your appointments.',
+    'Final notice: your payment of {amount} to Dr. {doctor} has been outstanding for {days} days and has been flagged as overdue.',
+  ],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatAppointmentDate = (date: string, timeZone: string) =>
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(new Date(date));
+
+const fillTemplate = (template: string, values: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match);
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -17,83 +52,176 @@ Deno.serve(async (req) => {
 
     console.log('Starting payment reminder check...');
 
-    // Calculate the timestamp for 24 hours ago
-    const twentyFourHoursAgo = new Date();
-    twentyFourHoursAgo.setHours(twentyFourHoursAgo.getHours() - 24);
+    const now = new Date();
 
-    // Find confirmed appointments with pending payments that were confirmed more than 24 hours ago
-    const { data: appointments, error: fetchError } = await supabase
-      .from('appointments')
+    // Unpaid payments that haven't run through their reminder schedule yet
+    const { data: payments, error: fetchError } = await supabase
+      .from('payments')
       .select(`
         id,
-        patient_id,
-        updated_at,
-        patient:profiles!appointments_patient_id_fkey(full_name),
-        payments(id, amount, status)
+        amount,
+        kind,
+        created_at,
+        appointment:appointments(
+          status,
+          confirmed_at,
+          patient_id,
+          doctor_id,
+          appointment_date,
+          patient:profiles!appointments_patient_id_fkey(full_name, time_zone),
+          doctor:profiles!appointments_doctor_id_fkey(full_name)
+        ),
+        payment_reminders(step)
       `)
-      .eq('status', 'confirmed')
-      .lt('updated_at', twentyFourHoursAgo.toISOString());
+      .in('status', ['pending', 'failed'])
+      .is('overdue_at', null)
+      .lt('created_at', new Date(now.getTime() - DAY_MS).toISOString());
 
     if (fetchError) {
-      console.error('Error fetching appointments:', fetchError);
+      console.error('Error fetching payments:', fetchError);
       throw fetchError;
     }
 
-    console.log(`Found ${appointments?.length || 0} confirmed appointments updated more than 24h ago`);
+    // Visit fees are owed once the doctor has confirmed; late cancellation fees straight away
+    const owed = (payments || []).filter(
+      (payment) =>
+        payment.appointment &&
+        (payment.kind === 'late_cancellation_fee' ||
+          ['confirmed', 'completed', 'no_show'].includes(payment.appointment.status))
+    );
+
+    console.log(`Found ${owed.length} unpaid payments to check`);
 
-    // Filter appointments with pending payments
-    const appointmentsWithPendingPayments = appointments?.filter(
-      apt => apt.payments && apt.payments.length > 0 && apt.payments[0].status === 'pending'
-    ) || [];
+    const doctorIds = [...new Set(owed.map((payment) => payment.appointment!.doctor_id))];
+    const { data: policyRows, error: policyError } = doctorIds.length > 0
+      ? await supabase
+          .from('payment_reminder_policies')
+          .select('doctor_id, enabled, schedule_days, max_reminders, templates')
+          .in('doctor_id', doctorIds)
+      : { data: [], error: null };
 
-    console.log(`${appointmentsWithPendingPayments.length} have pending payments`);
+    if (policyError) {
+      console.error('Error fetching reminder policies:', policyError);
+      throw policyError;
+    }
+
+    const policies = new Map<string, ReminderPolicy>((policyRows || []).map((row) => [row.doctor_id, row]));
 
-    // Send reminder notifications
     let remindersSent = 0;
-    for (const apt of appointmentsWithPendingPayments) {
-      const payment = apt.payments![0];
-      
-      // Check if we already sent a reminder recently (within last 23 hours to avoid spam)
-      const { data: recentNotifications } = await supabase
-        .from('notifications')
-        .select('created_at')
-        .eq('user_id', apt.patient_id)
-        .eq('title', 'Payment Reminder')
-        .gte('created_at', new Date(Date.now() - 23 * 60 * 60 * 1000).toISOString())
-        .limit(1);
-
-      if (recentNotifications && recentNotifications.length > 0) {
-        console.log(`Skipping reminder for patient ${apt.patient_id} - already sent recently`);
+    let paymentsFlagged = 0;
+    for (const payment of owed) {
+      const apt = payment.appointment!;
+      const policy = policies.get(apt.doctor_id) ?? DEFAULT_POLICY;
+      if (!policy.enabled) continue;
+
+      // Days count from when the fee became owed: confirmation for visit fees requested
+      // before it, the request itself for everything else
+      const owedSince = Math.max(
+        new Date(payment.created_at).getTime(),
+        payment.kind === 'late_cancellation_fee' || !apt.confirmed_at ? 0 : new Date(apt.confirmed_at).getTime()
+      );
+      const schedule = [...policy.schedule_days].sort((a, b) => a - b).slice(0, policy.max_reminders);
+      const daysOutstanding = (now.getTime() - owedSince) / DAY_MS;
+      const alreadyHandled = new Set((payment.payment_reminders || []).map((r) => r.step));
+      // Steps are 1-based and follow the sorted schedule
+      const due = schedule
+        .map((day, index) => ({ day, step: index + 1 }))
+        .filter(({ day, step }) => day <= daysOutstanding && !alreadyHandled.has(step))
+        .map(({ step }) => step);
+
+      if (due.length === 0) continue;
+
+      // Only the latest due reminder is sent; earlier ones that were missed are skipped
+      const latest = Math.max(...due);
+
+      const { data: claimed, error: claimError } = await supabase
+        .from('payment_reminders')
+        .upsert(
+          due.map((step) => ({
+            payment_id: payment.id,
+            step,
+            skipped: step !== latest,
+          })),
+          { onConflict: 'payment_id,step', ignoreDuplicates: true }
+        )
+        .select('step');
+
+      if (claimError) {
+        console.error(`Error recording reminder for payment ${payment.id}:`, claimError);
         continue;
       }
 
+      // Another run already claimed this reminder
+      if (!claimed?.some((r) => r.step === latest)) {
+        console.log(`Skipping payment ${payment.id} - reminder already sent`);
+        continue;
+      }
+
+      const template = policy.templates[Math.min(latest, policy.templates.length) - 1];
+      const message = fillTemplate(template, {
+        amount: `$${Number(payment.amount).toFixed(2)}`,
+        doctor: apt.doctor?.full_name ?? '',
+        appointment: formatAppointmentDate(apt.appointment_date, apt.patient?.time_zone || 'UTC'),
+        days: String(Math.floor(daysOutstanding)),
+      });
+
       const { error: notificationError } = await supabase
         .from('notifications')
         .insert({
           user_id: apt.patient_id,
-          title: 'Payment Reminder',
-          message: `Reminder: You have a pending payment of $${payment.amount.toFixed(2)} for your confirmed appointment. Please complete the payment at your earliest convenience.`,
+          title: latest === schedule.length ? 'Final Payment Reminder' : 'Payment Reminder',
+          message,
         });
 
       if (notificationError) {
-        console.error(`Error sending reminder to patient ${apt.patient_id}:`, notificationError);
-      } else {
-        remindersSent++;
-        console.log(`Sent payment reminder to patient ${apt.patient_id}`);
+        console.error(`Error sending reminder for payment ${payment.id}:`, notificationError);
+        // Release the claim so the next run retries
+        await supabase
+          .from('payment_reminders')
+          .delete()
+          .eq('payment_id', payment.id)
+          .eq('step', latest);
+        continue;
+      }
+
+      remindersSent++;
+      console.log(`Sent reminder ${latest}/${schedule.length} for payment ${payment.id}`);
+
+      // The schedule has run out: stop reminding and hand over to the doctor
+      if (latest === schedule.length) {
+        const { error: flagError } = await supabase
+          .from('payments')
+          .update({ overdue_at: now.toISOString() })
+          .eq('id', payment.id);
+
+        if (flagError) {
+          console.error(`Error flagging payment ${payment.id} as overdue:`, flagError);
+          continue;
+        }
+
+        await supabase.from('notifications').insert({
+          user_id: apt.doctor_id,
+          title: 'Payment Overdue',
+          message: `${apt.patient?.full_name}'s payment of $${Number(payment.amount).toFixed(2)} is still unpaid after ${schedule.length} reminder${schedule.length === 1 ? '' : 's'}.`,
+        });
+
+        paymentsFlagged++;
+        console.log(`Flagged payment ${payment.id} as overdue`);
       }
     }
 
-    console.log(`Payment reminder check complete. Sent ${remindersSent} reminders.`);
+    console.log(`Payment reminder check complete. Sent ${remindersSent} reminders, flagged ${paymentsFlagged} overdue.`);
 
     return new Response(
-      JSON.stringify({ 
-        success: true, 
+      JSON.stringify({
+        success: true,
         remindersSent,
-        appointmentsChecked: appointments?.length || 0
+        paymentsFlagged,
+        paymentsChecked: owed.length
       }),
-      { 
+      {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200 
+        status: 200
       }
     );
   } catch (error) {
@@ -101,9 +229,9 @@ Deno.serve(async (req) => {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     return new Response(
       JSON.stringify({ error: errorMessage }),
-      { 
+      {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500 
+        status: 500
       }
     );
   }
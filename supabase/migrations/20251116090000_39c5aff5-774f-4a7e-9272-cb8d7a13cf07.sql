@@ -0,0 +1,166 @@
+-- Slot length used when generating bookable times for a doctor
+ALTER TABLE public.user_roles
+ADD COLUMN slot_duration_minutes INTEGER NOT NULL DEFAULT 30
+  CHECK (slot_duration_minutes BETWEEN 5 AND 240);
+
+-- Track how long each appointment blocks the doctor's calendar
+ALTER TABLE public.appointments
+ADD COLUMN duration_minutes INTEGER NOT NULL DEFAULT 30
+  CHECK (duration_minutes > 0);
+
+-- Weekly working hours for doctors (weekday: 0 = Sunday ... 6 = Saturday)
+CREATE TABLE public.doctor_availability (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  doctor_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  break_start TIME,
+  break_end TIME,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_working_hours CHECK (start_time < end_time),
+  CONSTRAINT valid_break CHECK (
+    (break_start IS NULL AND break_end IS NULL)
+    OR (break_start < break_end AND break_start >= start_time AND break_end <= end_time)
+  ),
+  UNIQUE (doctor_id, weekday)
+);
+
+-- Holidays, days off and one-off changes to working hours.
+-- A row without start/end time means the doctor is unavailable all day.
+CREATE TABLE public.doctor_availability_exceptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  doctor_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  exception_date DATE NOT NULL,
+  start_time TIME,
+  end_time TIME,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_exception_hours CHECK (
+    (start_time IS NULL AND end_time IS NULL) OR start_time < end_time
+  ),
+  UNIQUE (doctor_id, exception_date)
+);
+
+-- Enable RLS
+ALTER TABLE public.doctor_availability ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.doctor_availability_exceptions ENABLE ROW LEVEL SECURITY;
+
+-- Any signed-in user can read schedules so patients can pick a slot
+CREATE POLICY "Authenticated users can view doctor availability"
+ON public.doctor_availability FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Doctors can manage their availability"
+ON public.doctor_availability FOR ALL
+USING (auth.uid() = doctor_id AND has_role(auth.uid(), 'doctor'::app_role))
+WITH CHECK (auth.uid() = doctor_id AND has_role(auth.uid(), 'doctor'::app_role));
+
+CREATE POLICY "Authenticated users can view availability exceptions"
+ON public.doctor_availability_exceptions FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Doctors can manage their availability exceptions"
+ON public.doctor_availability_exceptions FOR ALL
+USING (auth.uid() = doctor_id AND has_role(auth.uid(), 'doctor'::app_role))
+WITH CHECK (auth.uid() = doctor_id AND has_role(auth.uid(), 'doctor'::app_role));
+
+CREATE TRIGGER update_doctor_availability_updated_at
+  BEFORE UPDATE ON public.doctor_availability
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Doctors cannot update user_roles directly, so slot length goes through this function
+CREATE OR REPLACE FUNCTION public.set_slot_duration(_minutes INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.user_roles
+  SET slot_duration_minutes = _minutes
+  WHERE user_id = auth.uid() AND role = 'doctor';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only doctors can change their slot duration';
+  END IF;
+END;
+$$;
+
+-- Busy intervals for a doctor. Patients cannot read other patients' appointments,
+-- so this only exposes start/end times for slot calculation.
+CREATE OR REPLACE FUNCTION public.get_doctor_busy_slots(_doctor_id UUID, _from TIMESTAMPTZ, _to TIMESTAMPTZ)
+RETURNS TABLE (starts_at TIMESTAMPTZ, ends_at TIMESTAMPTZ)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    appointment_date,
+    appointment_date + make_interval(mins => duration_minutes)
+  FROM public.appointments
+  WHERE doctor_id = _doctor_id
+    AND status IN ('pending', 'confirmed')
+    AND appointment_date < _to
+    AND appointment_date + make_interval(mins => duration_minutes) > _from
+$$;
+
+-- Reject bookings in the past and overlapping visits for the doctor or the patient
+CREATE OR REPLACE FUNCTION public.prevent_double_booking()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ends_at TIMESTAMPTZ := NEW.appointment_date + make_interval(mins => NEW.duration_minutes);
+BEGIN
+  IF NEW.status NOT IN ('pending', 'confirmed') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.appointment_date < now() THEN
+    RAISE EXCEPTION 'Appointments cannot be booked in the past';
+  END IF;
+
+  -- Serialize bookings per doctor so concurrent requests cannot both pass the check
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.doctor_id::text));
+
+  IF EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE doctor_id = NEW.doctor_id
+      AND id <> NEW.id
+      AND status IN ('pending', 'confirmed')
+      AND appointment_date < _ends_at
+      AND appointment_date + make_interval(mins => duration_minutes) > NEW.appointment_date
+  ) THEN
+    RAISE EXCEPTION 'This time slot is no longer available'
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE patient_id = NEW.patient_id
+      AND id <> NEW.id
+      AND status IN ('pending', 'confirmed')
+      AND appointment_date < _ends_at
+      AND appointment_date + make_interval(mins => duration_minutes) > NEW.appointment_date
+  ) THEN
+    RAISE EXCEPTION 'The patient already has an appointment at this time'
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_appointment_double_booking
+  BEFORE INSERT OR UPDATE OF appointment_date, duration_minutes, status ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_double_booking();
+
+-- Add indexes for better performance
+CREATE INDEX idx_appointments_doctor_date ON public.appointments(doctor_id, appointment_date);
+CREATE INDEX idx_appointments_patient_date ON public.appointments(patient_id, appointment_date);
+CREATE INDEX idx_doctor_availability_exceptions_doctor ON public.doctor_availability_exceptions(doctor_id, exception_date);
@@ -0,0 +1,135 @@
+-- Create enum for reschedule proposal status
+CREATE TYPE public.reschedule_status AS ENUM ('pending', 'accepted', 'declined', 'countered', 'withdrawn');
+
+-- Proposals to move an appointment; rows are never deleted so the history is kept
+CREATE TABLE public.appointment_reschedule_proposals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  appointment_id UUID NOT NULL REFERENCES public.appointments(id) ON DELETE CASCADE,
+  proposed_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  previous_date TIMESTAMP WITH TIME ZONE NOT NULL,
+  proposed_date TIMESTAMP WITH TIME ZONE NOT NULL,
+  message TEXT,
+  status reschedule_status NOT NULL DEFAULT 'pending',
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only one open proposal per appointment at a time
+CREATE UNIQUE INDEX idx_reschedule_proposals_one_pending
+  ON public.appointment_reschedule_proposals(appointment_id)
+  WHERE status = 'pending';
+
+CREATE INDEX idx_reschedule_proposals_appointment
+  ON public.appointment_reschedule_proposals(appointment_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.appointment_reschedule_proposals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view reschedule proposals"
+ON public.appointment_reschedule_proposals FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE appointments.id = appointment_reschedule_proposals.appointment_id
+    AND (appointments.patient_id = auth.uid() OR appointments.doctor_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Participants can propose a new time"
+ON public.appointment_reschedule_proposals FOR INSERT
+WITH CHECK (
+  auth.uid() = proposed_by
+  AND status = 'pending'
+  AND proposed_date > now()
+  AND EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE appointments.id = appointment_reschedule_proposals.appointment_id
+    AND appointments.status IN ('pending', 'confirmed')
+    AND (appointments.patient_id = auth.uid() OR appointments.doctor_id = auth.uid())
+  )
+);
+
+-- A new proposal closes the open one: the other party's becomes a counter-proposal,
+-- a repeat from the same person withdraws their earlier one
+CREATE OR REPLACE FUNCTION public.close_open_reschedule_proposal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT appointment_date INTO NEW.previous_date
+  FROM public.appointments
+  WHERE id = NEW.appointment_id;
+
+  UPDATE public.appointment_reschedule_proposals
+  SET status = CASE WHEN proposed_by = NEW.proposed_by THEN 'withdrawn'::reschedule_status ELSE 'countered'::reschedule_status END,
+      responded_at = now()
+  WHERE appointment_id = NEW.appointment_id
+    AND status = 'pending';
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER close_open_reschedule_proposal
+  BEFORE INSERT ON public.appointment_reschedule_proposals
+  FOR EACH ROW EXECUTE FUNCTION public.close_open_reschedule_proposal();
+
+-- Accept or decline a proposal made by the other participant.
+-- Patients cannot update appointments directly, so the move happens here.
+CREATE OR REPLACE FUNCTION public.respond_to_reschedule_proposal(_proposal_id UUID, _accept BOOLEAN)
+RETURNS public.appointment_reschedule_proposals
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _proposal public.appointment_reschedule_proposals;
+  _appointment public.appointments;
+BEGIN
+  SELECT * INTO _proposal
+  FROM public.appointment_reschedule_proposals
+  WHERE id = _proposal_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _proposal.status <> 'pending' THEN
+    RAISE EXCEPTION 'This proposal is no longer open';
+  END IF;
+
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _proposal.appointment_id;
+
+  IF auth.uid() NOT IN (_appointment.patient_id, _appointment.doctor_id)
+     OR auth.uid() = _proposal.proposed_by THEN
+    RAISE EXCEPTION 'Only the other participant can respond to this proposal';
+  END IF;
+
+  IF _accept THEN
+    IF _appointment.status NOT IN ('pending', 'confirmed') THEN
+      RAISE EXCEPTION 'This appointment can no longer be rescheduled';
+    END IF;
+
+    IF _proposal.proposed_date < now() THEN
+      RAISE EXCEPTION 'The proposed time has already passed';
+    END IF;
+
+    -- The double-booking trigger rejects the move if the slot was taken meanwhile
+    UPDATE public.appointments
+    SET appointment_date = _proposal.proposed_date
+    WHERE id = _appointment.id;
+  END IF;
+
+  UPDATE public.appointment_reschedule_proposals
+  SET status = CASE WHEN _accept THEN 'accepted'::reschedule_status ELSE 'declined'::reschedule_status END,
+      responded_at = now()
+  WHERE id = _proposal_id
+  RETURNING * INTO _proposal;
+
+  RETURN _proposal;
+END;
+$$;
+
+-- Enable realtime for reschedule proposals
+ALTER PUBLICATION supabase_realtime ADD TABLE public.appointment_reschedule_proposals;
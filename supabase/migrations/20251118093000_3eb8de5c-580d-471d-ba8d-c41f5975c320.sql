@@ -0,0 +1,41 @@
+-- Secret tokens for per-user iCalendar subscription feeds.
+-- Calendar apps cannot send a JWT, so the token in the feed URL identifies the user.
+CREATE TABLE public.calendar_feed_tokens (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their calendar feed token"
+ON public.calendar_feed_tokens FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can revoke their calendar feed token"
+ON public.calendar_feed_tokens FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create or rotate the caller's feed token; rotating breaks old subscription URLs
+CREATE OR REPLACE FUNCTION public.regenerate_calendar_feed_token()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _token TEXT := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.calendar_feed_tokens (user_id, token)
+  VALUES (auth.uid(), _token)
+  ON CONFLICT (user_id) DO UPDATE
+  SET token = EXCLUDED.token, created_at = now();
+
+  RETURN _token;
+END;
+$$;
@@ -0,0 +1,44 @@
+-- One row per reminder offset per appointment; the unique key makes sending idempotent
+CREATE TABLE public.appointment_reminders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  appointment_id UUID NOT NULL REFERENCES public.appointments(id) ON DELETE CASCADE,
+  offset_minutes INTEGER NOT NULL CHECK (offset_minutes > 0),
+  -- Set when a closer reminder was sent instead (e.g. booked less than 24h ahead)
+  skipped BOOLEAN NOT NULL DEFAULT false,
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (appointment_id, offset_minutes)
+);
+
+-- Only the reminder function (service role) writes here
+ALTER TABLE public.appointment_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view appointment reminders"
+ON public.appointment_reminders FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE appointments.id = appointment_reminders.appointment_id
+    AND (appointments.patient_id = auth.uid() OR appointments.doctor_id = auth.uid())
+  )
+);
+
+-- Rescheduling moves the appointment, so reminders for the old time no longer count
+CREATE OR REPLACE FUNCTION public.reset_appointment_reminders()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.appointment_date IS DISTINCT FROM OLD.appointment_date THEN
+    DELETE FROM public.appointment_reminders WHERE appointment_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_appointment_reminders
+  AFTER UPDATE OF appointment_date ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.reset_appointment_reminders();
+
+CREATE INDEX idx_appointments_status_date ON public.appointments(status, appointment_date);
@@ -0,0 +1,4 @@
+-- Distinguish patients who never showed up or cancelled inside the policy window.
+-- Kept in its own migration: new enum values cannot be used in the transaction that adds them.
+ALTER TYPE public.appointment_status ADD VALUE IF NOT EXISTS 'no_show';
+ALTER TYPE public.appointment_status ADD VALUE IF NOT EXISTS 'late_cancelled';
@@ -0,0 +1,153 @@
+-- Per-doctor cancellation policy
+CREATE TABLE public.cancellation_policies (
+  doctor_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  cutoff_hours INTEGER NOT NULL DEFAULT 24 CHECK (cutoff_hours >= 0),
+  late_cancel_fee DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (late_cancel_fee >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.cancellation_policies ENABLE ROW LEVEL SECURITY;
+
+-- Patients see the policy before they book or cancel
+CREATE POLICY "Authenticated users can view cancellation policies"
+ON public.cancellation_policies FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Doctors can manage their cancellation policy"
+ON public.cancellation_policies FOR ALL
+USING (auth.uid() = doctor_id AND has_role(auth.uid(), 'doctor'::app_role))
+WITH CHECK (auth.uid() = doctor_id AND has_role(auth.uid(), 'doctor'::app_role));
+
+CREATE TRIGGER update_cancellation_policies_updated_at
+  BEFORE UPDATE ON public.cancellation_policies
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Who cancelled and why
+ALTER TABLE public.appointments
+ADD COLUMN cancelled_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+ADD COLUMN cancelled_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN cancellation_reason TEXT;
+
+-- Payments can now be the visit itself or a late cancellation fee
+ALTER TABLE public.payments
+ADD COLUMN kind TEXT NOT NULL DEFAULT 'visit'
+  CHECK (kind IN ('visit', 'late_cancellation_fee'));
+
+-- Cancel an appointment, applying the doctor's policy when the patient cancels late.
+-- Patients cannot update appointments directly, so both sides cancel through here.
+CREATE OR REPLACE FUNCTION public.cancel_appointment(_appointment_id UUID, _reason TEXT DEFAULT NULL)
+RETURNS appointment_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _appointment public.appointments;
+  _policy public.cancellation_policies;
+  _status appointment_status := 'cancelled';
+BEGIN
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _appointment_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR auth.uid() NOT IN (_appointment.patient_id, _appointment.doctor_id) THEN
+    RAISE EXCEPTION 'Appointment not found';
+  END IF;
+
+  IF _appointment.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'This appointment can no longer be cancelled';
+  END IF;
+
+  SELECT * INTO _policy
+  FROM public.cancellation_policies
+  WHERE doctor_id = _appointment.doctor_id;
+
+  IF auth.uid() = _appointment.patient_id
+     AND _appointment.status = 'confirmed'
+     AND FOUND
+     AND _appointment.appointment_date - make_interval(hours => _policy.cutoff_hours) < now() THEN
+    _status := 'late_cancelled';
+
+    IF _policy.late_cancel_fee > 0 THEN
+      INSERT INTO public.payments (appointment_id, amount, status, kind)
+      VALUES (_appointment.id, _policy.late_cancel_fee, 'pending', 'late_cancellation_fee');
+    END IF;
+  END IF;
+
+  UPDATE public.appointments
+  SET status = _status,
+      cancelled_by = auth.uid(),
+      cancelled_at = now(),
+      cancellation_reason = _reason
+  WHERE id = _appointment.id;
+
+  RETURN _status;
+END;
+$$;
+
+-- Doctors can record a no-show once the appointment slot has ended
+CREATE OR REPLACE FUNCTION public.mark_no_show(_appointment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _appointment public.appointments;
+BEGIN
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _appointment_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _appointment.doctor_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Appointment not found';
+  END IF;
+
+  IF _appointment.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Only confirmed appointments can be marked as no-show';
+  END IF;
+
+  IF _appointment.appointment_date + make_interval(mins => _appointment.duration_minutes) > now() THEN
+    RAISE EXCEPTION 'The appointment has not ended yet';
+  END IF;
+
+  UPDATE public.appointments
+  SET status = 'no_show'
+  WHERE id = _appointment.id;
+END;
+$$;
+
+-- Attendance history across all doctors, shown when a doctor reviews a new request
+CREATE OR REPLACE FUNCTION public.get_patient_reliability(_patient_id UUID)
+RETURNS TABLE (
+  total_appointments BIGINT,
+  completed BIGINT,
+  no_shows BIGINT,
+  late_cancellations BIGINT,
+  cancellations BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'doctor') THEN
+    RAISE EXCEPTION 'Only doctors can view patient reliability';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE status = 'completed'),
+    count(*) FILTER (WHERE status = 'no_show'),
+    count(*) FILTER (WHERE status = 'late_cancelled'),
+    count(*) FILTER (WHERE status = 'cancelled' AND cancelled_by = _patient_id)
+  FROM public.appointments
+  WHERE patient_id = _patient_id;
+END;
+$$;
@@ -0,0 +1,347 @@
+-- Create enums for waitlist entries and slot offers
+CREATE TYPE public.waitlist_status AS ENUM ('waiting', 'offered', 'booked', 'expired');
+CREATE TYPE public.waitlist_offer_status AS ENUM ('open', 'claimed', 'declined', 'expired');
+
+-- Patients waiting for a freed slot with a doctor within a date range
+CREATE TABLE public.waitlist_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  doctor_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  earliest_date DATE NOT NULL,
+  latest_date DATE NOT NULL,
+  note TEXT,
+  status waitlist_status NOT NULL DEFAULT 'waiting',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (latest_date >= earliest_date)
+);
+
+-- One active entry per patient and doctor
+CREATE UNIQUE INDEX idx_waitlist_entries_one_active
+  ON public.waitlist_entries(doctor_id, patient_id)
+  WHERE status IN ('waiting', 'offered');
+
+CREATE INDEX idx_waitlist_entries_queue
+  ON public.waitlist_entries(doctor_id, status, created_at);
+
+-- A freed slot held for one waitlisted patient until expires_at
+CREATE TABLE public.waitlist_offers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  entry_id UUID NOT NULL REFERENCES public.waitlist_entries(id) ON DELETE CASCADE,
+  doctor_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  slot_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  duration_minutes INTEGER NOT NULL,
+  status waitlist_offer_status NOT NULL DEFAULT 'open',
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(entry_id, slot_start)
+);
+
+CREATE INDEX idx_waitlist_offers_open
+  ON public.waitlist_offers(status, expires_at);
+
+-- Enable RLS
+ALTER TABLE public.waitlist_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.waitlist_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Patients can view their waitlist entries"
+ON public.waitlist_entries FOR SELECT
+USING (auth.uid() = patient_id);
+
+CREATE POLICY "Doctors can view their waitlist"
+ON public.waitlist_entries FOR SELECT
+USING (auth.uid() = doctor_id);
+
+CREATE POLICY "Patients can join a waitlist"
+ON public.waitlist_entries FOR INSERT
+WITH CHECK (
+  auth.uid() = patient_id
+  AND status = 'waiting'
+  AND latest_date >= CURRENT_DATE
+  AND has_role(doctor_id, 'doctor'::app_role)
+);
+
+CREATE POLICY "Patients can leave a waitlist"
+ON public.waitlist_entries FOR DELETE
+USING (auth.uid() = patient_id);
+
+-- Offers are only created and resolved by the functions below
+CREATE POLICY "Participants can view waitlist offers"
+ON public.waitlist_offers FOR SELECT
+USING (auth.uid() = patient_id OR auth.uid() = doctor_id);
+
+CREATE TRIGGER update_waitlist_entries_updated_at
+  BEFORE UPDATE ON public.waitlist_entries
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Offer a free slot to the next waiting patient whose date range covers it.
+-- Patients who already passed on this slot, or are busy at that time, are skipped.
+CREATE OR REPLACE FUNCTION public.offer_waitlist_slot(
+  _doctor_id UUID,
+  _slot_start TIMESTAMP WITH TIME ZONE,
+  _duration_minutes INTEGER
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _slot_end TIMESTAMPTZ := _slot_start + make_interval(mins => _duration_minutes);
+  _entry public.waitlist_entries;
+  _offer_id UUID;
+BEGIN
+  IF _slot_start <= now() THEN
+    RETURN NULL;
+  END IF;
+
+  -- The slot may have been rebooked in the meantime
+  IF EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE doctor_id = _doctor_id
+      AND status IN ('pending', 'confirmed')
+      AND appointment_date < _slot_end
+      AND appointment_date + make_interval(mins => duration_minutes) > _slot_start
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO _entry
+  FROM public.waitlist_entries e
+  WHERE e.doctor_id = _doctor_id
+    AND e.status = 'waiting'
+    AND _slot_start::date BETWEEN e.earliest_date AND e.latest_date
+    AND NOT EXISTS (
+      SELECT 1 FROM public.waitlist_offers o
+      WHERE o.entry_id = e.id AND o.slot_start = _slot_start
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.appointments a
+      WHERE a.patient_id = e.patient_id
+        AND a.status IN ('pending', 'confirmed')
+        AND a.appointment_date < _slot_end
+        AND a.appointment_date + make_interval(mins => a.duration_minutes) > _slot_start
+    )
+  ORDER BY e.created_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Hold the slot for two hours, but never past its start
+  INSERT INTO public.waitlist_offers (entry_id, doctor_id, patient_id, slot_start, duration_minutes, expires_at)
+  VALUES (_entry.id, _doctor_id, _entry.patient_id, _slot_start, _duration_minutes, LEAST(now() + interval '2 hours', _slot_start))
+  RETURNING id INTO _offer_id;
+
+  UPDATE public.waitlist_entries
+  SET status = 'offered'
+  WHERE id = _entry.id;
+
+  INSERT INTO public.notifications (user_id, title, message)
+  VALUES (
+    _entry.patient_id,
+    'Waitlist Slot Available',
+    'A slot on ' || to_char(_slot_start AT TIME ZONE 'UTC', 'Mon DD, YYYY HH24:MI') || ' UTC has opened up. Claim it from your appointments before the offer expires.'
+  );
+
+  RETURN _offer_id;
+END;
+$$;
+
+-- Offer the slot of a cancelled appointment to the waitlist
+CREATE OR REPLACE FUNCTION public.offer_cancelled_slot_to_waitlist()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.offer_waitlist_slot(NEW.doctor_id, NEW.appointment_date, NEW.duration_minutes);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER offer_cancelled_slot_to_waitlist
+  AFTER UPDATE OF status ON public.appointments
+  FOR EACH ROW
+  WHEN (OLD.status IN ('pending', 'confirmed') AND NEW.status IN ('cancelled', 'late_cancelled'))
+  EXECUTE FUNCTION public.offer_cancelled_slot_to_waitlist();
+
+-- Put an unanswered offer back in the queue and move on to the next patient
+CREATE OR REPLACE FUNCTION public.release_waitlist_offer(_offer public.waitlist_offers, _status waitlist_offer_status)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.waitlist_offers
+  SET status = _status,
+      responded_at = now()
+  WHERE id = _offer.id;
+
+  UPDATE public.waitlist_entries
+  SET status = CASE WHEN latest_date < CURRENT_DATE THEN 'expired'::waitlist_status ELSE 'waiting'::waitlist_status END
+  WHERE id = _offer.entry_id
+    AND status = 'offered';
+
+  PERFORM public.offer_waitlist_slot(_offer.doctor_id, _offer.slot_start, _offer.duration_minutes);
+END;
+$$;
+
+-- A patient leaving the waitlist with an open offer passes the slot on
+CREATE OR REPLACE FUNCTION public.pass_on_waitlist_offers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _offer public.waitlist_offers;
+BEGIN
+  FOR _offer IN
+    SELECT * FROM public.waitlist_offers
+    WHERE entry_id = OLD.id AND status = 'open'
+  LOOP
+    PERFORM public.offer_waitlist_slot(_offer.doctor_id, _offer.slot_start, _offer.duration_minutes);
+  END LOOP;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER pass_on_waitlist_offers
+  BEFORE DELETE ON public.waitlist_entries
+  FOR EACH ROW
+  WHEN (OLD.status = 'offered')
+  EXECUTE FUNCTION public.pass_on_waitlist_offers();
+
+-- Claim an open offer; the slot becomes a pending appointment for the patient.
+-- Returns NULL if the slot was taken by someone else in the meantime.
+CREATE OR REPLACE FUNCTION public.claim_waitlist_offer(_offer_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _offer public.waitlist_offers;
+  _note TEXT;
+  _appointment_id UUID;
+BEGIN
+  SELECT * INTO _offer
+  FROM public.waitlist_offers
+  WHERE id = _offer_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _offer.patient_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Waitlist offer not found';
+  END IF;
+
+  IF _offer.status <> 'open' OR _offer.expires_at <= now() THEN
+    RAISE EXCEPTION 'This offer has expired';
+  END IF;
+
+  SELECT note INTO _note
+  FROM public.waitlist_entries
+  WHERE id = _offer.entry_id;
+
+  BEGIN
+    INSERT INTO public.appointments (patient_id, doctor_id, appointment_date, duration_minutes, reason, status)
+    VALUES (_offer.patient_id, _offer.doctor_id, _offer.slot_start, _offer.duration_minutes, COALESCE(NULLIF(_note, ''), 'Booked from waitlist'), 'pending')
+    RETURNING id INTO _appointment_id;
+  EXCEPTION WHEN exclusion_violation THEN
+    PERFORM public.release_waitlist_offer(_offer, 'expired');
+    RETURN NULL;
+  END;
+
+  UPDATE public.waitlist_offers
+  SET status = 'claimed',
+      appointment_id = _appointment_id,
+      responded_at = now()
+  WHERE id = _offer.id;
+
+  UPDATE public.waitlist_entries
+  SET status = 'booked'
+  WHERE id = _offer.entry_id;
+
+  INSERT INTO public.notifications (user_id, title, message)
+  VALUES (
+    _offer.doctor_id,
+    'New Appointment Request',
+    'A waitlisted patient claimed the slot on ' || to_char(_offer.slot_start AT TIME ZONE 'UTC', 'Mon DD, YYYY HH24:MI') || ' UTC'
+  );
+
+  RETURN _appointment_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decline_waitlist_offer(_offer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _offer public.waitlist_offers;
+BEGIN
+  SELECT * INTO _offer
+  FROM public.waitlist_offers
+  WHERE id = _offer_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _offer.patient_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Waitlist offer not found';
+  END IF;
+
+  IF _offer.status <> 'open' THEN
+    RAISE EXCEPTION 'This offer is no longer open';
+  END IF;
+
+  PERFORM public.release_waitlist_offer(_offer, 'declined');
+END;
+$$;
+
+-- Called on a schedule by the process-waitlist function: expires lapsed offers,
+-- passes their slots on, and closes entries whose date range has passed
+CREATE OR REPLACE FUNCTION public.expire_waitlist_offers()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _offer public.waitlist_offers;
+  _expired INTEGER := 0;
+BEGIN
+  FOR _offer IN
+    SELECT * FROM public.waitlist_offers
+    WHERE status = 'open' AND expires_at <= now()
+    ORDER BY expires_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM public.release_waitlist_offer(_offer, 'expired');
+    _expired := _expired + 1;
+  END LOOP;
+
+  UPDATE public.waitlist_entries
+  SET status = 'expired'
+  WHERE status = 'waiting'
+    AND latest_date < CURRENT_DATE;
+
+  RETURN _expired;
+END;
+$$;
+
+-- Internal helpers; clients go through claim/decline
+REVOKE EXECUTE ON FUNCTION public.offer_waitlist_slot(UUID, TIMESTAMP WITH TIME ZONE, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_waitlist_offer(public.waitlist_offers, waitlist_offer_status) FROM PUBLIC, anon, authenticated;
+
+-- Enable realtime so patients see offers as they arrive
+ALTER PUBLICATION supabase_realtime ADD TABLE public.waitlist_entries;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.waitlist_offers;
@@ -0,0 +1,170 @@
+-- Create enum for how a visit takes place
+CREATE TYPE public.visit_mode AS ENUM ('in_person', 'video');
+
+-- Services a doctor offers, each with its own length, fee and mode
+CREATE TABLE public.appointment_types (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  doctor_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  duration_minutes INTEGER NOT NULL DEFAULT 30 CHECK (duration_minutes BETWEEN 5 AND 240),
+  price DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (price >= 0),
+  visit_mode visit_mode NOT NULL DEFAULT 'in_person',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_appointment_types_doctor ON public.appointment_types(doctor_id, is_active);
+
+-- Enable RLS
+ALTER TABLE public.appointment_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view appointment types"
+ON public.appointment_types FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Doctors can manage their appointment types"
+ON public.appointment_types FOR ALL
+USING (auth.uid() = doctor_id AND has_role(auth.uid(), 'doctor'::app_role))
+WITH CHECK (auth.uid() = doctor_id AND has_role(auth.uid(), 'doctor'::app_role));
+
+CREATE TRIGGER update_appointment_types_updated_at
+  BEFORE UPDATE ON public.appointment_types
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Link appointments (and waitlist requests) to the booked type
+ALTER TABLE public.appointments
+ADD COLUMN appointment_type_id UUID REFERENCES public.appointment_types(id) ON DELETE SET NULL,
+ADD COLUMN visit_mode visit_mode NOT NULL DEFAULT 'in_person';
+
+ALTER TABLE public.waitlist_entries
+ADD COLUMN appointment_type_id UUID REFERENCES public.appointment_types(id) ON DELETE SET NULL;
+
+-- Take duration and mode from the booked type; doctors with a fee schedule
+-- cannot be booked without one. Runs before prevent_appointment_double_booking.
+CREATE OR REPLACE FUNCTION public.apply_appointment_type()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _type public.appointment_types;
+BEGIN
+  IF NEW.appointment_type_id IS NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM public.appointment_types
+      WHERE doctor_id = NEW.doctor_id AND is_active
+    ) THEN
+      RAISE EXCEPTION 'Please choose an appointment type';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _type
+  FROM public.appointment_types
+  WHERE id = NEW.appointment_type_id;
+
+  IF NOT FOUND OR _type.doctor_id <> NEW.doctor_id OR NOT _type.is_active THEN
+    RAISE EXCEPTION 'This appointment type is not available';
+  END IF;
+
+  NEW.duration_minutes := _type.duration_minutes;
+  NEW.visit_mode := _type.visit_mode;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_appointment_type
+  BEFORE INSERT ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.apply_appointment_type();
+
+-- Bill the visit from the doctor's fee schedule rather than a client-supplied amount
+CREATE OR REPLACE FUNCTION public.create_appointment_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _price DECIMAL(10, 2);
+BEGIN
+  SELECT price INTO _price
+  FROM public.appointment_types
+  WHERE id = NEW.appointment_type_id;
+
+  IF _price > 0 THEN
+    INSERT INTO public.payments (appointment_id, amount, status, kind)
+    VALUES (NEW.id, _price, 'pending', 'visit');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_appointment_payment
+  AFTER INSERT ON public.appointments
+  FOR EACH ROW
+  WHEN (NEW.appointment_type_id IS NOT NULL)
+  EXECUTE FUNCTION public.create_appointment_payment();
+
+-- Claimed waitlist slots are booked as the type the patient asked for
+CREATE OR REPLACE FUNCTION public.claim_waitlist_offer(_offer_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _offer public.waitlist_offers;
+  _entry public.waitlist_entries;
+  _appointment_id UUID;
+BEGIN
+  SELECT * INTO _offer
+  FROM public.waitlist_offers
+  WHERE id = _offer_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _offer.patient_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Waitlist offer not found';
+  END IF;
+
+  IF _offer.status <> 'open' OR _offer.expires_at <= now() THEN
+    RAISE EXCEPTION 'This offer has expired';
+  END IF;
+
+  SELECT * INTO _entry
+  FROM public.waitlist_entries
+  WHERE id = _offer.entry_id;
+
+  BEGIN
+    INSERT INTO public.appointments (patient_id, doctor_id, appointment_type_id, appointment_date, duration_minutes, reason, status)
+    VALUES (_offer.patient_id, _offer.doctor_id, _entry.appointment_type_id, _offer.slot_start, _offer.duration_minutes, COALESCE(NULLIF(_entry.note, ''), 'Booked from waitlist'), 'pending')
+    RETURNING id INTO _appointment_id;
+  EXCEPTION WHEN exclusion_violation THEN
+    PERFORM public.release_waitlist_offer(_offer, 'expired');
+    RETURN NULL;
+  END;
+
+  UPDATE public.waitlist_offers
+  SET status = 'claimed',
+      appointment_id = _appointment_id,
+      responded_at = now()
+  WHERE id = _offer.id;
+
+  UPDATE public.waitlist_entries
+  SET status = 'booked'
+  WHERE id = _offer.entry_id;
+
+  INSERT INTO public.notifications (user_id, title, message)
+  VALUES (
+    _offer.doctor_id,
+    'New Appointment Request',
+    'A waitlisted patient claimed the slot on ' || to_char(_offer.slot_start AT TIME ZONE 'UTC', 'Mon DD, YYYY HH24:MI') || ' UTC'
+  );
+
+  RETURN _appointment_id;
+END;
+$$;
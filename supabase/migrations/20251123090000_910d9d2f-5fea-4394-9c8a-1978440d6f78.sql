@@ -0,0 +1,192 @@
+-- Each user's IANA time zone; doctor availability is read as wall-clock time in it
+ALTER TABLE public.profiles
+ADD COLUMN time_zone TEXT NOT NULL DEFAULT 'UTC';
+
+CREATE OR REPLACE FUNCTION public.validate_time_zone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.time_zone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.time_zone;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_profiles_time_zone
+  BEFORE INSERT OR UPDATE OF time_zone ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.validate_time_zone();
+
+-- Pick up the browser's zone sent at sign-up
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _time_zone TEXT := NEW.raw_user_meta_data->>'time_zone';
+BEGIN
+  IF _time_zone IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = _time_zone) THEN
+    _time_zone := 'UTC';
+  END IF;
+
+  INSERT INTO public.profiles (id, full_name, phone, time_zone)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', ''),
+    COALESCE(NEW.raw_user_meta_data->>'phone', ''),
+    _time_zone
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Render a timestamp in a user's own zone for notification text
+CREATE OR REPLACE FUNCTION public.format_for_user(_ts TIMESTAMP WITH TIME ZONE, _user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT to_char(_ts AT TIME ZONE p.time_zone, 'Mon DD, YYYY HH12:MI AM') || ' (' || p.time_zone || ')'
+  FROM public.profiles p
+  WHERE p.id = _user_id
+$$;
+
+-- Waitlist date ranges are days on the patient's calendar
+CREATE OR REPLACE FUNCTION public.offer_waitlist_slot(
+  _doctor_id UUID,
+  _slot_start TIMESTAMP WITH TIME ZONE,
+  _duration_minutes INTEGER
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _slot_end TIMESTAMPTZ := _slot_start + make_interval(mins => _duration_minutes);
+  _entry public.waitlist_entries;
+  _offer_id UUID;
+BEGIN
+  IF _slot_start <= now() THEN
+    RETURN NULL;
+  END IF;
+
+  -- The slot may have been rebooked in the meantime
+  IF EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE doctor_id = _doctor_id
+      AND status IN ('pending', 'confirmed')
+      AND appointment_date < _slot_end
+      AND appointment_date + make_interval(mins => duration_minutes) > _slot_start
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT e.* INTO _entry
+  FROM public.waitlist_entries e
+  JOIN public.profiles p ON p.id = e.patient_id
+  WHERE e.doctor_id = _doctor_id
+    AND e.status = 'waiting'
+    AND (_slot_start AT TIME ZONE p.time_zone)::date BETWEEN e.earliest_date AND e.latest_date
+    AND NOT EXISTS (
+      SELECT 1 FROM public.waitlist_offers o
+      WHERE o.entry_id = e.id AND o.slot_start = _slot_start
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.appointments a
+      WHERE a.patient_id = e.patient_id
+        AND a.status IN ('pending', 'confirmed')
+        AND a.appointment_date < _slot_end
+        AND a.appointment_date + make_interval(mins => a.duration_minutes) > _slot_start
+    )
+  ORDER BY e.created_at
+  LIMIT 1
+  FOR UPDATE OF e SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Hold the slot for two hours, but never past its start
+  INSERT INTO public.waitlist_offers (entry_id, doctor_id, patient_id, slot_start, duration_minutes, expires_at)
+  VALUES (_entry.id, _doctor_id, _entry.patient_id, _slot_start, _duration_minutes, LEAST(now() + interval '2 hours', _slot_start))
+  RETURNING id INTO _offer_id;
+
+  UPDATE public.waitlist_entries
+  SET status = 'offered'
+  WHERE id = _entry.id;
+
+  INSERT INTO public.notifications (user_id, title, message)
+  VALUES (
+    _entry.patient_id,
+    'Waitlist Slot Available',
+    'A slot on ' || public.format_for_user(_slot_start, _entry.patient_id) || ' has opened up. Claim it from your appointments before the offer expires.'
+  );
+
+  RETURN _offer_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.claim_waitlist_offer(_offer_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _offer public.waitlist_offers;
+  _entry public.waitlist_entries;
+  _appointment_id UUID;
+BEGIN
+  SELECT * INTO _offer
+  FROM public.waitlist_offers
+  WHERE id = _offer_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _offer.patient_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Waitlist offer not found';
+  END IF;
+
+  IF _offer.status <> 'open' OR _offer.expires_at <= now() THEN
+    RAISE EXCEPTION 'This offer has expired';
+  END IF;
+
+  SELECT * INTO _entry
+  FROM public.waitlist_entries
+  WHERE id = _offer.entry_id;
+
+  BEGIN
+    INSERT INTO public.appointments (patient_id, doctor_id, appointment_type_id, appointment_date, duration_minutes, reason, status)
+    VALUES (_offer.patient_id, _offer.doctor_id, _entry.appointment_type_id, _offer.slot_start, _offer.duration_minutes, COALESCE(NULLIF(_entry.note, ''), 'Booked from waitlist'), 'pending')
+    RETURNING id INTO _appointment_id;
+  EXCEPTION WHEN exclusion_violation THEN
+    PERFORM public.release_waitlist_offer(_offer, 'expired');
+    RETURN NULL;
+  END;
+
+  UPDATE public.waitlist_offers
+  SET status = 'claimed',
+      appointment_id = _appointment_id,
+      responded_at = now()
+  WHERE id = _offer.id;
+
+  UPDATE public.waitlist_entries
+  SET status = 'booked'
+  WHERE id = _offer.entry_id;
+
+  INSERT INTO public.notifications (user_id, title, message)
+  VALUES (
+    _offer.doctor_id,
+    'New Appointment Request',
+    'A waitlisted patient claimed the slot on ' || public.format_for_user(_offer.slot_start, _offer.doctor_id)
+  );
+
+  RETURN _appointment_id;
+END;
+$$;
@@ -0,0 +1,266 @@
+-- Create enum for how often a series repeats
+CREATE TYPE public.series_frequency AS ENUM ('weekly', 'monthly');
+
+-- A recurring booking; each occurrence is a regular appointment linked back here
+CREATE TABLE public.appointment_series (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  patient_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  doctor_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  appointment_type_id UUID REFERENCES public.appointment_types(id) ON DELETE SET NULL,
+  frequency series_frequency NOT NULL,
+  interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count BETWEEN 1 AND 12),
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  occurrence_count INTEGER CHECK (occurrence_count BETWEEN 2 AND 52),
+  until_date DATE,
+  excluded_dates DATE[] NOT NULL DEFAULT '{}',
+  -- Occurrences keep the same wall-clock time in this zone across DST changes
+  time_zone TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (occurrence_count IS NOT NULL OR until_date IS NOT NULL)
+);
+
+ALTER TABLE public.appointments
+ADD COLUMN series_id UUID REFERENCES public.appointment_series(id) ON DELETE SET NULL,
+ADD COLUMN series_index INTEGER;
+
+CREATE INDEX idx_appointments_series ON public.appointments(series_id, appointment_date);
+
+-- Reschedule proposals can move one occurrence or the rest of its series
+ALTER TABLE public.appointment_reschedule_proposals
+ADD COLUMN scope TEXT NOT NULL DEFAULT 'this'
+  CHECK (scope IN ('this', 'following', 'all'));
+
+-- Enable RLS
+ALTER TABLE public.appointment_series ENABLE ROW LEVEL SECURITY;
+
+-- Series are created through create_appointment_series only
+CREATE POLICY "Participants can view their appointment series"
+ON public.appointment_series FOR SELECT
+USING (auth.uid() = patient_id OR auth.uid() = doctor_id);
+
+CREATE TRIGGER update_appointment_series_updated_at
+  BEFORE UPDATE ON public.appointment_series
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Book every occurrence of a series for the calling patient. Each occurrence goes
+-- through the usual booking triggers, so it gets its own payment and conflict check.
+CREATE OR REPLACE FUNCTION public.create_appointment_series(
+  _doctor_id UUID,
+  _appointment_type_id UUID,
+  _starts_at TIMESTAMP WITH TIME ZONE,
+  _frequency series_frequency,
+  _interval_count INTEGER,
+  _occurrence_count INTEGER,
+  _until_date DATE,
+  _excluded_dates DATE[],
+  _reason TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _series_id UUID;
+  _time_zone TEXT;
+  _local_start TIMESTAMP;
+  _local TIMESTAMP;
+  _index INTEGER := 0;
+  _booked INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'patient') THEN
+    RAISE EXCEPTION 'Only patients can book an appointment series';
+  END IF;
+
+  IF _until_date IS NOT NULL AND _until_date > (_starts_at + interval '1 year')::date THEN
+    RAISE EXCEPTION 'A series can run for at most one year';
+  END IF;
+
+  SELECT time_zone INTO _time_zone
+  FROM public.profiles
+  WHERE id = _doctor_id;
+
+  INSERT INTO public.appointment_series (
+    patient_id, doctor_id, appointment_type_id, frequency, interval_count,
+    starts_at, occurrence_count, until_date, excluded_dates, time_zone, reason
+  )
+  VALUES (
+    auth.uid(), _doctor_id, _appointment_type_id, _frequency, _interval_count,
+    _starts_at, _occurrence_count, _until_date, COALESCE(_excluded_dates, '{}'), _time_zone, _reason
+  )
+  RETURNING id INTO _series_id;
+
+  _local_start := _starts_at AT TIME ZONE _time_zone;
+
+  LOOP
+    _local := _local_start + CASE _frequency
+      WHEN 'weekly' THEN make_interval(weeks => _index * _interval_count)
+      ELSE make_interval(months => _index * _interval_count)
+    END;
+
+    EXIT WHEN _occurrence_count IS NOT NULL AND _index >= _occurrence_count;
+    EXIT WHEN _until_date IS NOT NULL AND _local::date > _until_date;
+    EXIT WHEN _index >= 52;
+
+    IF NOT (_local::date = ANY(COALESCE(_excluded_dates, '{}'))) THEN
+      BEGIN
+        INSERT INTO public.appointments (
+          patient_id, doctor_id, appointment_type_id, appointment_date, reason, status, series_id, series_index
+        )
+        VALUES (
+          auth.uid(), _doctor_id, _appointment_type_id, _local AT TIME ZONE _time_zone, _reason, 'pending', _series_id, _index + 1
+        );
+      EXCEPTION WHEN exclusion_violation THEN
+        RAISE EXCEPTION 'The slot on % is not available. Skip that date or choose another time.',
+          to_char(_local, 'Mon DD, YYYY HH12:MI AM')
+          USING ERRCODE = 'exclusion_violation';
+      END;
+      _booked := _booked + 1;
+    END IF;
+
+    _index := _index + 1;
+  END LOOP;
+
+  IF _booked < 2 THEN
+    RAISE EXCEPTION 'A series needs at least two appointments';
+  END IF;
+
+  RETURN _series_id;
+END;
+$$;
+
+-- Cancel one occurrence, it and every later one, or all upcoming ones.
+-- Each goes through cancel_appointment so late-cancellation rules still apply.
+CREATE OR REPLACE FUNCTION public.cancel_appointment_series(
+  _appointment_id UUID,
+  _scope TEXT,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _appointment public.appointments;
+  _occurrence_id UUID;
+  _cancelled INTEGER := 0;
+BEGIN
+  IF _scope NOT IN ('this', 'following', 'all') THEN
+    RAISE EXCEPTION 'Unknown scope: %', _scope;
+  END IF;
+
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _appointment_id;
+
+  IF NOT FOUND OR auth.uid() NOT IN (_appointment.patient_id, _appointment.doctor_id) THEN
+    RAISE EXCEPTION 'Appointment not found';
+  END IF;
+
+  IF _scope = 'this' OR _appointment.series_id IS NULL THEN
+    PERFORM public.cancel_appointment(_appointment_id, _reason);
+    RETURN 1;
+  END IF;
+
+  FOR _occurrence_id IN
+    SELECT id FROM public.appointments
+    WHERE series_id = _appointment.series_id
+      AND status IN ('pending', 'confirmed')
+      AND appointment_date > now()
+      AND (_scope = 'all' OR series_index >= _appointment.series_index)
+    ORDER BY appointment_date
+  LOOP
+    PERFORM public.cancel_appointment(_occurrence_id, _reason);
+    _cancelled := _cancelled + 1;
+  END LOOP;
+
+  RETURN _cancelled;
+END;
+$$;
+
+-- Accepting a proposal now applies its scope: later occurrences of a series are
+-- shifted by the same wall-clock change in the series' time zone
+CREATE OR REPLACE FUNCTION public.respond_to_reschedule_proposal(_proposal_id UUID, _accept BOOLEAN)
+RETURNS public.appointment_reschedule_proposals
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _proposal public.appointment_reschedule_proposals;
+  _appointment public.appointments;
+  _time_zone TEXT;
+  _shift INTERVAL;
+  _occurrence public.appointments;
+BEGIN
+  SELECT * INTO _proposal
+  FROM public.appointment_reschedule_proposals
+  WHERE id = _proposal_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _proposal.status <> 'pending' THEN
+    RAISE EXCEPTION 'This proposal is no longer open';
+  END IF;
+
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _proposal.appointment_id;
+
+  IF auth.uid() NOT IN (_appointment.patient_id, _appointment.doctor_id)
+     OR auth.uid() = _proposal.proposed_by THEN
+    RAISE EXCEPTION 'Only the other participant can respond to this proposal';
+  END IF;
+
+  IF _accept THEN
+    IF _appointment.status NOT IN ('pending', 'confirmed') THEN
+      RAISE EXCEPTION 'This appointment can no longer be rescheduled';
+    END IF;
+
+    IF _proposal.proposed_date < now() THEN
+      RAISE EXCEPTION 'The proposed time has already passed';
+    END IF;
+
+    IF _proposal.scope = 'this' OR _appointment.series_id IS NULL THEN
+      -- The double-booking trigger rejects the move if the slot was taken meanwhile
+      UPDATE public.appointments
+      SET appointment_date = _proposal.proposed_date
+      WHERE id = _appointment.id;
+    ELSE
+      SELECT time_zone INTO _time_zone
+      FROM public.appointment_series
+      WHERE id = _appointment.series_id;
+
+      _shift := (_proposal.proposed_date AT TIME ZONE _time_zone) - (_proposal.previous_date AT TIME ZONE _time_zone);
+
+      -- Move in the direction of the shift so occurrences don't collide with each other
+      FOR _occurrence IN
+        SELECT * FROM public.appointments
+        WHERE series_id = _appointment.series_id
+          AND status IN ('pending', 'confirmed')
+          AND (
+            id = _appointment.id
+            OR (appointment_date > now() AND (_proposal.scope = 'all' OR series_index > _appointment.series_index))
+          )
+        ORDER BY
+          CASE WHEN _shift > interval '0' THEN appointment_date END DESC,
+          CASE WHEN _shift <= interval '0' THEN appointment_date END ASC
+      LOOP
+        UPDATE public.appointments
+        SET appointment_date = ((_occurrence.appointment_date AT TIME ZONE _time_zone) + _shift) AT TIME ZONE _time_zone
+        WHERE id = _occurrence.id;
+      END LOOP;
+    END IF;
+  END IF;
+
+  UPDATE public.appointment_reschedule_proposals
+  SET status = CASE WHEN _accept THEN 'accepted'::reschedule_status ELSE 'declined'::reschedule_status END,
+      responded_at = now()
+  WHERE id = _proposal_id
+  RETURNING * INTO _proposal;
+
+  RETURN _proposal;
+END;
+$$;
@@ -0,0 +1,260 @@
+-- Practice details printed on a doctor's invoices
+CREATE TABLE public.doctor_billing_settings (
+  doctor_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  practice_name TEXT,
+  practice_address TEXT,
+  tax_id TEXT,
+  -- Fees are tax-inclusive; the rate only splits the tax out on the invoice
+  tax_rate DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (tax_rate >= 0 AND tax_rate <= 100),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- When a payment was settled
+ALTER TABLE public.payments
+ADD COLUMN paid_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.payments
+SET paid_at = updated_at
+WHERE status = 'paid';
+
+CREATE SEQUENCE public.invoice_number_seq;
+CREATE SEQUENCE public.receipt_number_seq;
+
+-- One invoice per payment. Doctor, patient and line item details are copied in
+-- when the invoice is issued so later profile changes don't alter it.
+CREATE TABLE public.invoices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_number TEXT NOT NULL UNIQUE,
+  payment_id UUID NOT NULL UNIQUE REFERENCES public.payments(id) ON DELETE CASCADE,
+  appointment_id UUID NOT NULL REFERENCES public.appointments(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  doctor_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  patient_name TEXT NOT NULL,
+  doctor_name TEXT NOT NULL,
+  doctor_specialization TEXT,
+  doctor_license_number TEXT,
+  practice_name TEXT,
+  practice_address TEXT,
+  tax_id TEXT,
+  -- [{ "description": text, "quantity": int, "unit_price": numeric, "amount": numeric }]
+  line_items JSONB NOT NULL DEFAULT '[]',
+  subtotal DECIMAL(10, 2) NOT NULL,
+  tax_rate DECIMAL(5, 2) NOT NULL DEFAULT 0,
+  tax_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  total DECIMAL(10, 2) NOT NULL,
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  receipt_number TEXT UNIQUE,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_invoices_appointment ON public.invoices(appointment_id);
+
+-- Enable RLS
+ALTER TABLE public.doctor_billing_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Doctors can manage their billing settings"
+ON public.doctor_billing_settings FOR ALL
+USING (auth.uid() = doctor_id AND has_role(auth.uid(), 'doctor'::app_role))
+WITH CHECK (auth.uid() = doctor_id AND has_role(auth.uid(), 'doctor'::app_role));
+
+-- Invoices are issued by the database only
+CREATE POLICY "Participants can view their invoices"
+ON public.invoices FOR SELECT
+USING (auth.uid() = patient_id OR auth.uid() = doctor_id);
+
+CREATE TRIGGER update_doctor_billing_settings_updated_at
+  BEFORE UPDATE ON public.doctor_billing_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_invoices_updated_at
+  BEFORE UPDATE ON public.invoices
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Issue the invoice for a payment, numbered INV-000001, INV-000002, ...
+CREATE OR REPLACE FUNCTION public.issue_invoice(_payment_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments;
+  _appointment public.appointments;
+  _doctor_role public.user_roles;
+  _settings public.doctor_billing_settings;
+  _type_name TEXT;
+  _description TEXT;
+  _tax_rate DECIMAL(5, 2);
+  _tax_amount DECIMAL(10, 2);
+  _invoice_id UUID;
+BEGIN
+  SELECT * INTO _payment
+  FROM public.payments
+  WHERE id = _payment_id;
+
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _payment.appointment_id;
+
+  SELECT * INTO _doctor_role
+  FROM public.user_roles
+  WHERE user_id = _appointment.doctor_id AND role = 'doctor';
+
+  SELECT * INTO _settings
+  FROM public.doctor_billing_settings
+  WHERE doctor_id = _appointment.doctor_id;
+
+  SELECT name INTO _type_name
+  FROM public.appointment_types
+  WHERE id = _appointment.appointment_type_id;
+
+  _description := CASE _payment.kind
+    WHEN 'late_cancellation_fee' THEN 'Late cancellation fee'
+    ELSE COALESCE(_type_name, 'Consultation')
+  END || ' - appointment on ' || public.format_for_user(_appointment.appointment_date, _appointment.patient_id);
+
+  _tax_rate := COALESCE(_settings.tax_rate, 0);
+  _tax_amount := round(_payment.amount * _tax_rate / (100 + _tax_rate), 2);
+
+  INSERT INTO public.invoices (
+    invoice_number, payment_id, appointment_id, patient_id, doctor_id,
+    patient_name, doctor_name, doctor_specialization, doctor_license_number,
+    practice_name, practice_address, tax_id,
+    line_items, subtotal, tax_rate, tax_amount, total
+  )
+  SELECT
+    'INV-' || lpad(nextval('public.invoice_number_seq')::TEXT, 6, '0'),
+    _payment.id, _appointment.id, _appointment.patient_id, _appointment.doctor_id,
+    patient.full_name, doctor.full_name, _doctor_role.specialization, _doctor_role.license_number,
+    _settings.practice_name, _settings.practice_address, _settings.tax_id,
+    jsonb_build_array(jsonb_build_object(
+      'description', _description,
+      'quantity', 1,
+      'unit_price', _payment.amount,
+      'amount', _payment.amount
+    )),
+    _payment.amount - _tax_amount, _tax_rate, _tax_amount, _payment.amount
+  FROM public.profiles patient, public.profiles doctor
+  WHERE patient.id = _appointment.patient_id
+    AND doctor.id = _appointment.doctor_id
+  RETURNING id INTO _invoice_id;
+
+  RETURN _invoice_id;
+END;
+$$;
+
+-- Turn the invoice into a receipt once its payment is settled
+CREATE OR REPLACE FUNCTION public.issue_receipt(_payment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invoice public.invoices;
+BEGIN
+  UPDATE public.invoices
+  SET receipt_number = 'RCT-' || lpad(nextval('public.receipt_number_seq')::TEXT, 6, '0'),
+      paid_at = COALESCE((SELECT paid_at FROM public.payments WHERE id = _payment_id), now())
+  WHERE payment_id = _payment_id
+    AND receipt_number IS NULL
+  RETURNING * INTO _invoice;
+
+  IF FOUND THEN
+    INSERT INTO public.notifications (user_id, title, message)
+    VALUES (
+      _invoice.patient_id,
+      'Receipt Available',
+      'Your payment of $' || to_char(_invoice.total, 'FM999999990.00') || ' was received. Receipt ' || _invoice.receipt_number || ' is available from your appointments.'
+    );
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_payment_invoice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.issue_invoice(NEW.id);
+
+  IF NEW.status = 'paid' THEN
+    PERFORM public.issue_receipt(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_payment_invoice
+  AFTER INSERT ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.create_payment_invoice();
+
+CREATE OR REPLACE FUNCTION public.set_payment_paid_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid' THEN
+    NEW.paid_at := now();
+  ELSIF NEW.status <> 'paid' THEN
+    NEW.paid_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_payment_paid_at
+  BEFORE INSERT OR UPDATE OF status ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.set_payment_paid_at();
+
+CREATE OR REPLACE FUNCTION public.issue_payment_receipt()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.issue_receipt(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER issue_payment_receipt
+  AFTER UPDATE OF status ON public.payments
+  FOR EACH ROW
+  WHEN (NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid')
+  EXECUTE FUNCTION public.issue_payment_receipt();
+
+-- Only the payment triggers issue invoices and receipts
+REVOKE EXECUTE ON FUNCTION public.issue_invoice(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.issue_receipt(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Invoice the payments that already exist, oldest first
+DO $$
+DECLARE
+  _payment public.payments;
+BEGIN
+  FOR _payment IN
+    SELECT * FROM public.payments ORDER BY created_at
+  LOOP
+    PERFORM public.issue_invoice(_payment.id);
+  END LOOP;
+
+  -- Backfilled receipts don't notify anyone
+  UPDATE public.invoices i
+  SET receipt_number = 'RCT-' || lpad(nextval('public.receipt_number_seq')::TEXT, 6, '0'),
+      paid_at = p.paid_at
+  FROM public.payments p
+  WHERE p.id = i.payment_id
+    AND p.status = 'paid';
+END;
+$$;
@@ -0,0 +1,40 @@
+-- Which provider checkout a payment link belongs to
+ALTER TABLE public.payments
+ADD COLUMN provider TEXT,
+ADD COLUMN provider_reference TEXT UNIQUE;
+
+-- Webhook deliveries, kept for auditing and so retried events are applied once
+CREATE TABLE public.payment_webhook_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  payment_id UUID REFERENCES public.payments(id) ON DELETE SET NULL,
+  payload JSONB NOT NULL,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (provider, event_id)
+);
+
+-- Enable RLS; only the payment-webhook function (service role) reads and writes events
+ALTER TABLE public.payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Payment status now only changes through provider webhooks, so neither
+-- the doctor nor the patient can mark a payment as paid themselves
+DROP POLICY "Doctors can update payments" ON public.payments;
+
+DROP POLICY "Doctors can create payment links" ON public.payments;
+
+CREATE POLICY "Doctors can create payment requests"
+  ON public.payments FOR INSERT
+  WITH CHECK (
+    status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM public.appointments
+      WHERE appointments.id = appointment_id
+      AND appointments.doctor_id = auth.uid()
+      AND public.has_role(auth.uid(), 'doctor')
+    )
+  );
+
+-- Let both dashboards see webhook updates as they land
+ALTER PUBLICATION supabase_realtime ADD TABLE public.payments;
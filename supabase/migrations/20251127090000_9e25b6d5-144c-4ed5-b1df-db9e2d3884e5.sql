@@ -0,0 +1,4 @@
+-- Payments can be given back in full or in part.
+-- Kept in its own migration: new enum values cannot be used in the transaction that adds them.
+ALTER TYPE public.payment_status ADD VALUE IF NOT EXISTS 'refunded';
+ALTER TYPE public.payment_status ADD VALUE IF NOT EXISTS 'partially_refunded';
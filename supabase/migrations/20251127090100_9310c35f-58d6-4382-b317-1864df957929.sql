@@ -0,0 +1,276 @@
+-- Create enum for refund progress with the payment provider
+CREATE TYPE public.refund_status AS ENUM ('pending', 'succeeded', 'failed');
+
+-- Share of a paid visit fee returned when a patient cancels late.
+-- On-time and doctor cancellations are always refunded in full.
+ALTER TABLE public.cancellation_policies
+ADD COLUMN late_refund_percent INTEGER NOT NULL DEFAULT 0
+  CHECK (late_refund_percent BETWEEN 0 AND 100);
+
+CREATE TABLE public.refunds (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  payment_id UUID NOT NULL REFERENCES public.payments(id) ON DELETE CASCADE,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL,
+  initiated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  status refund_status NOT NULL DEFAULT 'pending',
+  provider_reference TEXT,
+  failure_reason TEXT,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_refunds_payment ON public.refunds(payment_id);
+CREATE INDEX idx_refunds_pending ON public.refunds(created_at) WHERE status = 'pending';
+
+-- Enable RLS
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+
+-- Refunds are created through cancel_appointment and issue_refund only
+CREATE POLICY "Participants can view refunds on their payments"
+ON public.refunds FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.payments
+    JOIN public.appointments ON appointments.id = payments.appointment_id
+    WHERE payments.id = refunds.payment_id
+    AND (appointments.patient_id = auth.uid() OR appointments.doctor_id = auth.uid())
+  )
+);
+
+CREATE TRIGGER update_refunds_updated_at
+  BEFORE UPDATE ON public.refunds
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Refunded payments keep the time they were originally paid
+CREATE OR REPLACE FUNCTION public.set_payment_paid_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid' AND NEW.paid_at IS NULL THEN
+    NEW.paid_at := now();
+  ELSIF NEW.status IN ('pending', 'failed') THEN
+    NEW.paid_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Queue a refund for the provider, capped at what hasn't been refunded yet.
+-- Returns NULL when nothing is left to refund.
+CREATE OR REPLACE FUNCTION public.request_refund(
+  _payment_id UUID,
+  _amount DECIMAL(10, 2),
+  _reason TEXT,
+  _initiated_by UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments;
+  _refundable DECIMAL(10, 2);
+  _refund_id UUID;
+BEGIN
+  SELECT * INTO _payment
+  FROM public.payments
+  WHERE id = _payment_id
+  FOR UPDATE;
+
+  IF _payment.status NOT IN ('paid', 'partially_refunded') THEN
+    RAISE EXCEPTION 'Only paid payments can be refunded';
+  END IF;
+
+  SELECT _payment.amount - COALESCE(SUM(amount), 0) INTO _refundable
+  FROM public.refunds
+  WHERE payment_id = _payment_id
+    AND status IN ('pending', 'succeeded');
+
+  IF _refundable <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.refunds (payment_id, amount, reason, initiated_by)
+  VALUES (_payment_id, LEAST(_amount, _refundable), _reason, _initiated_by)
+  RETURNING id INTO _refund_id;
+
+  RETURN _refund_id;
+END;
+$$;
+
+-- Doctors can refund any part of a paid payment, e.g. as a goodwill gesture
+CREATE OR REPLACE FUNCTION public.issue_refund(_payment_id UUID, _amount DECIMAL(10, 2), _reason TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _doctor_id UUID;
+  _refund_id UUID;
+BEGIN
+  SELECT appointments.doctor_id INTO _doctor_id
+  FROM public.payments
+  JOIN public.appointments ON appointments.id = payments.appointment_id
+  WHERE payments.id = _payment_id;
+
+  IF _doctor_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Refund amount must be greater than zero';
+  END IF;
+
+  _refund_id := public.request_refund(_payment_id, _amount, COALESCE(NULLIF(_reason, ''), 'Refund from your doctor'), auth.uid());
+
+  IF _refund_id IS NULL THEN
+    RAISE EXCEPTION 'This payment has already been fully refunded';
+  END IF;
+
+  RETURN _refund_id;
+END;
+$$;
+
+-- Cancelling now refunds paid visit fees according to the doctor's policy
+CREATE OR REPLACE FUNCTION public.cancel_appointment(_appointment_id UUID, _reason TEXT DEFAULT NULL)
+RETURNS appointment_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _appointment public.appointments;
+  _policy public.cancellation_policies;
+  _status appointment_status := 'cancelled';
+  _refund_percent INTEGER := 100;
+  _payment public.payments;
+BEGIN
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _appointment_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR auth.uid() NOT IN (_appointment.patient_id, _appointment.doctor_id) THEN
+    RAISE EXCEPTION 'Appointment not found';
+  END IF;
+
+  IF _appointment.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'This appointment can no longer be cancelled';
+  END IF;
+
+  SELECT * INTO _policy
+  FROM public.cancellation_policies
+  WHERE doctor_id = _appointment.doctor_id;
+
+  IF auth.uid() = _appointment.patient_id
+     AND _appointment.status = 'confirmed'
+     AND FOUND
+     AND _appointment.appointment_date - make_interval(hours => _policy.cutoff_hours) < now() THEN
+    _status := 'late_cancelled';
+    _refund_percent := _policy.late_refund_percent;
+
+    IF _policy.late_cancel_fee > 0 THEN
+      INSERT INTO public.payments (appointment_id, amount, status, kind)
+      VALUES (_appointment.id, _policy.late_cancel_fee, 'pending', 'late_cancellation_fee');
+    END IF;
+  END IF;
+
+  UPDATE public.appointments
+  SET status = _status,
+      cancelled_by = auth.uid(),
+      cancelled_at = now(),
+      cancellation_reason = _reason
+  WHERE id = _appointment.id;
+
+  IF _refund_percent > 0 THEN
+    FOR _payment IN
+      SELECT * FROM public.payments
+      WHERE appointment_id = _appointment.id
+        AND kind = 'visit'
+        AND status IN ('paid', 'partially_refunded')
+    LOOP
+      PERFORM public.request_refund(
+        _payment.id,
+        round(_payment.amount * _refund_percent / 100, 2),
+        CASE WHEN _status = 'late_cancelled'
+          THEN 'Late cancellation (' || _refund_percent || '% refund)'
+          ELSE 'Appointment cancelled'
+        END,
+        auth.uid()
+      );
+    END LOOP;
+  END IF;
+
+  RETURN _status;
+END;
+$$;
+
+-- Settle a payment's status from its successful refunds once the provider confirms one
+CREATE OR REPLACE FUNCTION public.apply_refund_to_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments;
+  _appointment public.appointments;
+  _refunded DECIMAL(10, 2);
+BEGIN
+  SELECT * INTO _payment
+  FROM public.payments
+  WHERE id = NEW.payment_id;
+
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _payment.appointment_id;
+
+  IF NEW.status = 'succeeded' THEN
+    SELECT COALESCE(SUM(amount), 0) INTO _refunded
+    FROM public.refunds
+    WHERE payment_id = NEW.payment_id
+      AND status = 'succeeded';
+
+    UPDATE public.payments
+    SET status = CASE WHEN _refunded >= amount THEN 'refunded'::payment_status ELSE 'partially_refunded'::payment_status END
+    WHERE id = NEW.payment_id;
+
+    INSERT INTO public.notifications (user_id, title, message)
+    VALUES (
+      _appointment.patient_id,
+      'Refund Issued',
+      'A refund of $' || to_char(NEW.amount, 'FM999999990.00') || ' for your appointment on ' ||
+        public.format_for_user(_appointment.appointment_date, _appointment.patient_id) || ' is on its way.'
+    );
+  ELSE
+    INSERT INTO public.notifications (user_id, title, message)
+    VALUES (
+      _appointment.doctor_id,
+      'Refund Failed',
+      'A refund of $' || to_char(NEW.amount, 'FM999999990.00') || ' could not be processed' ||
+        COALESCE(': ' || NEW.failure_reason, '') || '. Please refund the patient directly.'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_refund_to_payment
+  AFTER UPDATE OF status ON public.refunds
+  FOR EACH ROW
+  WHEN (OLD.status = 'pending' AND NEW.status IN ('succeeded', 'failed'))
+  EXECUTE FUNCTION public.apply_refund_to_payment();
+
+-- Only cancel_appointment and issue_refund queue refunds
+REVOKE EXECUTE ON FUNCTION public.request_refund(UUID, DECIMAL, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Let both dashboards follow refunds as the provider settles them
+ALTER PUBLICATION supabase_realtime ADD TABLE public.refunds;
@@ -0,0 +1,65 @@
+-- Per-doctor payment reminder schedule. Doctors without a row get the defaults
+-- built into send-payment-reminders.
+CREATE TABLE public.payment_reminder_policies (
+  doctor_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  -- Days after the payment was requested, one per reminder
+  schedule_days INTEGER[] NOT NULL DEFAULT '{1,3,7}',
+  -- The payment is flagged overdue to the doctor once this many reminders went out
+  max_reminders INTEGER NOT NULL DEFAULT 3 CHECK (max_reminders BETWEEN 1 AND 10),
+  -- Message per reminder; the last one is reused if there are fewer templates than reminders.
+  -- Placeholders: {amount}, {doctor}, {appointment}, {days}
+  templates TEXT[] NOT NULL DEFAULT ARRAY[
+    'Reminder: you have a pending payment of {amount} for your appointment with Dr. {doctor} on {appointment}.',
+    'Second reminder: your payment of {amount} to Dr. {doctor} is still outstanding. You can pay from your appointments.',
+    'Final notice: your payment of {amount} to Dr. {doctor} has been outstanding for {days} days and has been flagged as overdue.'
+  ],
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (cardinality(schedule_days) BETWEEN 1 AND 10),
+  CHECK (max_reminders <= cardinality(schedule_days)),
+  CHECK (0 < ALL(schedule_days) AND 365 >= ALL(schedule_days)),
+  CHECK (cardinality(templates) >= 1)
+);
+
+-- One row per reminder step per payment; the unique key makes sending idempotent
+CREATE TABLE public.payment_reminders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  payment_id UUID NOT NULL REFERENCES public.payments(id) ON DELETE CASCADE,
+  step INTEGER NOT NULL CHECK (step >= 1),
+  -- Set when a later step was due by the time the payment was first checked
+  skipped BOOLEAN NOT NULL DEFAULT false,
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (payment_id, step)
+);
+
+-- Set when the reminder schedule ran out without the payment being made
+ALTER TABLE public.payments
+ADD COLUMN overdue_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_payments_unpaid ON public.payments(created_at) WHERE status IN ('pending', 'failed');
+
+-- Enable RLS
+ALTER TABLE public.payment_reminder_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Doctors can manage their payment reminder policy"
+ON public.payment_reminder_policies FOR ALL
+USING (auth.uid() = doctor_id AND has_role(auth.uid(), 'doctor'::app_role))
+WITH CHECK (auth.uid() = doctor_id AND has_role(auth.uid(), 'doctor'::app_role));
+
+-- Only the reminder function (service role) writes here
+CREATE POLICY "Participants can view payment reminders"
+ON public.payment_reminders FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.payments
+    JOIN public.appointments ON appointments.id = payments.appointment_id
+    WHERE payments.id = payment_reminders.payment_id
+    AND (appointments.patient_id = auth.uid() OR appointments.doctor_id = auth.uid())
+  )
+);
+
+CREATE TRIGGER update_payment_reminder_policies_updated_at
+  BEFORE UPDATE ON public.payment_reminder_policies
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,587 @@
+-- How an appointment is paid for, and where its insurance claim stands
+CREATE TYPE public.billing_method AS ENUM ('self_pay', 'insurance', 'split');
+CREATE TYPE public.claim_status AS ENUM ('submitted', 'approved', 'denied', 'paid');
+
+-- Insurance policies on file for a patient. Policies used for billing are
+-- deactivated rather than deleted so past claims keep their details.
+CREATE TABLE public.insurance_policies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  patient_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  payer_name TEXT NOT NULL,
+  plan_name TEXT,
+  member_id TEXT NOT NULL,
+  group_number TEXT,
+  -- Share of the fee the insurer covers when a visit is billed as split
+  coverage_percent INTEGER NOT NULL DEFAULT 80 CHECK (coverage_percent BETWEEN 0 AND 100),
+  -- Fixed amount the patient pays when a visit is billed fully to insurance
+  copay_amount DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (copay_amount >= 0),
+  -- Object path in the insurance-cards bucket, under the patient's folder
+  card_image_path TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_insurance_policies_patient ON public.insurance_policies(patient_id);
+
+ALTER TABLE public.appointments
+ADD COLUMN billing_method billing_method NOT NULL DEFAULT 'self_pay',
+ADD COLUMN insurance_policy_id UUID REFERENCES public.insurance_policies(id),
+-- Part of the fee billed to the insurer; the rest is the patient's co-pay payment
+ADD COLUMN insurance_amount DECIMAL(10, 2);
+
+-- The patient's share of an insured visit is its own payment line
+ALTER TABLE public.payments DROP CONSTRAINT payments_kind_check;
+ALTER TABLE public.payments
+ADD CONSTRAINT payments_kind_check CHECK (kind IN ('visit', 'copay', 'late_cancellation_fee'));
+
+-- One claim per appointment; a denied claim can be corrected and resubmitted
+CREATE TABLE public.insurance_claims (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  appointment_id UUID NOT NULL UNIQUE REFERENCES public.appointments(id) ON DELETE CASCADE,
+  insurance_policy_id UUID NOT NULL REFERENCES public.insurance_policies(id),
+  status claim_status NOT NULL DEFAULT 'submitted',
+  -- The payer's reference for the claim
+  claim_reference TEXT,
+  amount_claimed DECIMAL(10, 2) NOT NULL CHECK (amount_claimed > 0),
+  amount_approved DECIMAL(10, 2),
+  amount_paid DECIMAL(10, 2),
+  denial_reason TEXT,
+  submitted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  decided_at TIMESTAMP WITH TIME ZONE,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.insurance_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.insurance_claims ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Patients can view their insurance policies"
+ON public.insurance_policies FOR SELECT
+USING (auth.uid() = patient_id);
+
+CREATE POLICY "Patients can add insurance policies"
+ON public.insurance_policies FOR INSERT
+WITH CHECK (auth.uid() = patient_id AND has_role(auth.uid(), 'patient'::app_role));
+
+CREATE POLICY "Patients can update their insurance policies"
+ON public.insurance_policies FOR UPDATE
+USING (auth.uid() = patient_id)
+WITH CHECK (auth.uid() = patient_id);
+
+CREATE POLICY "Doctors can view their patients' insurance policies"
+ON public.insurance_policies FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE appointments.patient_id = insurance_policies.patient_id
+    AND appointments.doctor_id = auth.uid()
+  )
+);
+
+-- Claims change through submit_insurance_claim and update_insurance_claim only
+CREATE POLICY "Participants can view insurance claims"
+ON public.insurance_claims FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE appointments.id = insurance_claims.appointment_id
+    AND (appointments.patient_id = auth.uid() OR appointments.doctor_id = auth.uid())
+  )
+);
+
+CREATE TRIGGER update_insurance_policies_updated_at
+  BEFORE UPDATE ON public.insurance_policies
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_insurance_claims_updated_at
+  BEFORE UPDATE ON public.insurance_claims
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Card images are private; each patient uploads into a folder named after their id
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('insurance-cards', 'insurance-cards', false);
+
+CREATE POLICY "Patients can upload their insurance cards"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'insurance-cards' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Patients can view their insurance cards"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'insurance-cards' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Patients can delete their insurance cards"
+ON storage.objects FOR DELETE
+USING (bucket_id = 'insurance-cards' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Doctors can view their patients' insurance cards"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'insurance-cards'
+  AND EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE appointments.doctor_id = auth.uid()
+    AND appointments.patient_id::text = (storage.foldername(name))[1]
+  )
+);
+
+-- Split the fee between insurer and patient when the visit is booked.
+-- Insurance: the patient pays the policy's co-pay. Split: the patient pays
+-- whatever share the policy doesn't cover.
+CREATE OR REPLACE FUNCTION public.apply_appointment_billing()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.insurance_policies;
+  _price DECIMAL(10, 2);
+BEGIN
+  IF NEW.billing_method = 'self_pay' THEN
+    NEW.insurance_policy_id := NULL;
+    NEW.insurance_amount := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _policy
+  FROM public.insurance_policies
+  WHERE id = NEW.insurance_policy_id;
+
+  IF NOT FOUND OR _policy.patient_id <> NEW.patient_id OR NOT _policy.is_active THEN
+    RAISE EXCEPTION 'Please choose one of your active insurance policies';
+  END IF;
+
+  SELECT price INTO _price
+  FROM public.appointment_types
+  WHERE id = NEW.appointment_type_id;
+
+  _price := COALESCE(_price, 0);
+
+  NEW.insurance_amount := _price - CASE NEW.billing_method
+    WHEN 'insurance' THEN LEAST(_policy.copay_amount, _price)
+    ELSE round(_price * (100 - _policy.coverage_percent) / 100, 2)
+  END;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_appointment_billing
+  BEFORE INSERT ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.apply_appointment_billing();
+
+-- Bill the patient's share of the fee: all of it when self-paying, otherwise the co-pay
+CREATE OR REPLACE FUNCTION public.create_appointment_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _price DECIMAL(10, 2);
+  _amount DECIMAL(10, 2);
+BEGIN
+  SELECT price INTO _price
+  FROM public.appointment_types
+  WHERE id = NEW.appointment_type_id;
+
+  _amount := _price - COALESCE(NEW.insurance_amount, 0);
+
+  IF _amount > 0 THEN
+    INSERT INTO public.payments (appointment_id, amount, status, kind)
+    VALUES (
+      NEW.id,
+      _amount,
+      'pending',
+      CASE WHEN NEW.billing_method = 'self_pay' THEN 'visit' ELSE 'copay' END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Series occurrences are billed the same way as the first booking
+DROP FUNCTION public.create_appointment_series(UUID, UUID, TIMESTAMP WITH TIME ZONE, series_frequency, INTEGER, INTEGER, DATE, DATE[], TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_appointment_series(
+  _doctor_id UUID,
+  _appointment_type_id UUID,
+  _starts_at TIMESTAMP WITH TIME ZONE,
+  _frequency series_frequency,
+  _interval_count INTEGER,
+  _occurrence_count INTEGER,
+  _until_date DATE,
+  _excluded_dates DATE[],
+  _reason TEXT,
+  _billing_method billing_method DEFAULT 'self_pay',
+  _insurance_policy_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _series_id UUID;
+  _time_zone TEXT;
+  _local_start TIMESTAMP;
+  _local TIMESTAMP;
+  _index INTEGER := 0;
+  _booked INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'patient') THEN
+    RAISE EXCEPTION 'Only patients can book an appointment series';
+  END IF;
+
+  IF _until_date IS NOT NULL AND _until_date > (_starts_at + interval '1 year')::date THEN
+    RAISE EXCEPTION 'A series can run for at most one year';
+  END IF;
+
+  SELECT time_zone INTO _time_zone
+  FROM public.profiles
+  WHERE id = _doctor_id;
+
+  INSERT INTO public.appointment_series (
+    patient_id, doctor_id, appointment_type_id, frequency, interval_count,
+    starts_at, occurrence_count, until_date, excluded_dates, time_zone, reason
+  )
+  VALUES (
+    auth.uid(), _doctor_id, _appointment_type_id, _frequency, _interval_count,
+    _starts_at, _occurrence_count, _until_date, COALESCE(_excluded_dates, '{}'), _time_zone, _reason
+  )
+  RETURNING id INTO _series_id;
+
+  _local_start := _starts_at AT TIME ZONE _time_zone;
+
+  LOOP
+    _local := _local_start + CASE _frequency
+      WHEN 'weekly' THEN make_interval(weeks => _index * _interval_count)
+      ELSE make_interval(months => _index * _interval_count)
+    END;
+
+    EXIT WHEN _occurrence_count IS NOT NULL AND _index >= _occurrence_count;
+    EXIT WHEN _until_date IS NOT NULL AND _local::date > _until_date;
+    EXIT WHEN _index >= 52;
+
+    IF NOT (_local::date = ANY(COALESCE(_excluded_dates, '{}'))) THEN
+      BEGIN
+        INSERT INTO public.appointments (
+          patient_id, doctor_id, appointment_type_id, appointment_date, reason, status, series_id, series_index,
+          billing_method, insurance_policy_id
+        )
+        VALUES (
+          auth.uid(), _doctor_id, _appointment_type_id, _local AT TIME ZONE _time_zone, _reason, 'pending', _series_id, _index + 1,
+          _billing_method, _insurance_policy_id
+        );
+      EXCEPTION WHEN exclusion_violation THEN
+        RAISE EXCEPTION 'The slot on % is not available. Skip that date or choose another time.',
+          to_char(_local, 'Mon DD, YYYY HH12:MI AM')
+          USING ERRCODE = 'exclusion_violation';
+      END;
+      _booked := _booked + 1;
+    END IF;
+
+    _index := _index + 1;
+  END LOOP;
+
+  IF _booked < 2 THEN
+    RAISE EXCEPTION 'A series needs at least two appointments';
+  END IF;
+
+  RETURN _series_id;
+END;
+$$;
+
+-- Doctors file the insurer's share once the visit is confirmed, or resubmit a denied claim
+CREATE OR REPLACE FUNCTION public.submit_insurance_claim(_appointment_id UUID, _claim_reference TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _appointment public.appointments;
+  _claim_id UUID;
+BEGIN
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _appointment_id;
+
+  IF NOT FOUND OR _appointment.doctor_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Appointment not found';
+  END IF;
+
+  IF _appointment.billing_method = 'self_pay' OR COALESCE(_appointment.insurance_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'This appointment is not billed to insurance';
+  END IF;
+
+  IF _appointment.status NOT IN ('confirmed', 'completed') THEN
+    RAISE EXCEPTION 'Claims can only be submitted for confirmed or completed appointments';
+  END IF;
+
+  INSERT INTO public.insurance_claims (appointment_id, insurance_policy_id, amount_claimed, claim_reference)
+  VALUES (_appointment.id, _appointment.insurance_policy_id, _appointment.insurance_amount, NULLIF(_claim_reference, ''))
+  ON CONFLICT (appointment_id) DO UPDATE
+  SET status = 'submitted',
+      claim_reference = COALESCE(EXCLUDED.claim_reference, insurance_claims.claim_reference),
+      amount_approved = NULL,
+      denial_reason = NULL,
+      submitted_at = now(),
+      decided_at = NULL
+  WHERE insurance_claims.status = 'denied'
+  RETURNING id INTO _claim_id;
+
+  IF _claim_id IS NULL THEN
+    RAISE EXCEPTION 'A claim is already in progress for this appointment';
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message)
+  VALUES (
+    _appointment.patient_id,
+    'Insurance Claim Submitted',
+    'A claim of $' || to_char(_appointment.insurance_amount, 'FM999999990.00') || ' for your appointment on ' ||
+      public.format_for_user(_appointment.appointment_date, _appointment.patient_id) || ' was sent to your insurer.'
+  );
+
+  RETURN _claim_id;
+END;
+$$;
+
+-- Record the insurer's decision or payment: submitted -> approved | denied, approved -> paid
+CREATE OR REPLACE FUNCTION public.update_insurance_claim(
+  _claim_id UUID,
+  _status claim_status,
+  _amount DECIMAL(10, 2) DEFAULT NULL,
+  _denial_reason TEXT DEFAULT NULL
+)
+RETURNS claim_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _claim public.insurance_claims;
+  _appointment public.appointments;
+  _message TEXT;
+BEGIN
+  SELECT * INTO _claim
+  FROM public.insurance_claims
+  WHERE id = _claim_id
+  FOR UPDATE;
+
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _claim.appointment_id;
+
+  IF NOT FOUND OR _appointment.doctor_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Claim not found';
+  END IF;
+
+  IF _status = 'approved' AND _claim.status = 'submitted' THEN
+    IF _amount IS NOT NULL AND (_amount <= 0 OR _amount > _claim.amount_claimed) THEN
+      RAISE EXCEPTION 'The approved amount must be between $0.01 and the amount claimed';
+    END IF;
+
+    UPDATE public.insurance_claims
+    SET status = 'approved',
+        amount_approved = COALESCE(_amount, amount_claimed),
+        decided_at = now()
+    WHERE id = _claim.id
+    RETURNING * INTO _claim;
+
+    _message := 'Your insurer approved $' || to_char(_claim.amount_approved, 'FM999999990.00') ||
+      ' of the $' || to_char(_claim.amount_claimed, 'FM999999990.00') || ' claimed';
+  ELSIF _status = 'denied' AND _claim.status = 'submitted' THEN
+    IF NULLIF(trim(_denial_reason), '') IS NULL THEN
+      RAISE EXCEPTION 'Please give the reason the claim was denied';
+    END IF;
+
+    UPDATE public.insurance_claims
+    SET status = 'denied',
+        denial_reason = trim(_denial_reason),
+        decided_at = now()
+    WHERE id = _claim.id;
+
+    _message := 'Your insurer denied the claim (' || trim(_denial_reason) || '). Your doctor will be in touch about the balance';
+  ELSIF _status = 'paid' AND _claim.status = 'approved' THEN
+    IF _amount IS NOT NULL AND (_amount <= 0 OR _amount > _claim.amount_approved) THEN
+      RAISE EXCEPTION 'The paid amount must be between $0.01 and the amount approved';
+    END IF;
+
+    UPDATE public.insurance_claims
+    SET status = 'paid',
+        amount_paid = COALESCE(_amount, amount_approved),
+        paid_at = now()
+    WHERE id = _claim.id
+    RETURNING * INTO _claim;
+
+    _message := 'Your insurer paid $' || to_char(_claim.amount_paid, 'FM999999990.00');
+  ELSE
+    RAISE EXCEPTION 'A % claim cannot be marked as %', _claim.status, _status;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message)
+  VALUES (
+    _appointment.patient_id,
+    'Insurance Claim ' || initcap(_status::TEXT),
+    _message || ' for your appointment on ' || public.format_for_user(_appointment.appointment_date, _appointment.patient_id) || '.'
+  );
+
+  RETURN _status;
+END;
+$$;
+
+-- Co-pays are refunded on cancellation just like self-paid visit fees
+CREATE OR REPLACE FUNCTION public.cancel_appointment(_appointment_id UUID, _reason TEXT DEFAULT NULL)
+RETURNS appointment_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _appointment public.appointments;
+  _policy public.cancellation_policies;
+  _status appointment_status := 'cancelled';
+  _refund_percent INTEGER := 100;
+  _payment public.payments;
+BEGIN
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _appointment_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR auth.uid() NOT IN (_appointment.patient_id, _appointment.doctor_id) THEN
+    RAISE EXCEPTION 'Appointment not found';
+  END IF;
+
+  IF _appointment.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'This appointment can no longer be cancelled';
+  END IF;
+
+  SELECT * INTO _policy
+  FROM public.cancellation_policies
+  WHERE doctor_id = _appointment.doctor_id;
+
+  IF auth.uid() = _appointment.patient_id
+     AND _appointment.status = 'confirmed'
+     AND FOUND
+     AND _appointment.appointment_date - make_interval(hours => _policy.cutoff_hours) < now() THEN
+    _status := 'late_cancelled';
+    _refund_percent := _policy.late_refund_percent;
+
+    IF _policy.late_cancel_fee > 0 THEN
+      INSERT INTO public.payments (appointment_id, amount, status, kind)
+      VALUES (_appointment.id, _policy.late_cancel_fee, 'pending', 'late_cancellation_fee');
+    END IF;
+  END IF;
+
+  UPDATE public.appointments
+  SET status = _status,
+      cancelled_by = auth.uid(),
+      cancelled_at = now(),
+      cancellation_reason = _reason
+  WHERE id = _appointment.id;
+
+  IF _refund_percent > 0 THEN
+    FOR _payment IN
+      SELECT * FROM public.payments
+      WHERE appointment_id = _appointment.id
+        AND kind IN ('visit', 'copay')
+        AND status IN ('paid', 'partially_refunded')
+    LOOP
+      PERFORM public.request_refund(
+        _payment.id,
+        round(_payment.amount * _refund_percent / 100, 2),
+        CASE WHEN _status = 'late_cancelled'
+          THEN 'Late cancellation (' || _refund_percent || '% refund)'
+          ELSE 'Appointment cancelled'
+        END,
+        auth.uid()
+      );
+    END LOOP;
+  END IF;
+
+  RETURN _status;
+END;
+$$;
+
+-- Co-pay invoices say what the patient's share is for
+CREATE OR REPLACE FUNCTION public.issue_invoice(_payment_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments;
+  _appointment public.appointments;
+  _doctor_role public.user_roles;
+  _settings public.doctor_billing_settings;
+  _type_name TEXT;
+  _description TEXT;
+  _tax_rate DECIMAL(5, 2);
+  _tax_amount DECIMAL(10, 2);
+  _invoice_id UUID;
+BEGIN
+  SELECT * INTO _payment
+  FROM public.payments
+  WHERE id = _payment_id;
+
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _payment.appointment_id;
+
+  SELECT * INTO _doctor_role
+  FROM public.user_roles
+  WHERE user_id = _appointment.doctor_id AND role = 'doctor';
+
+  SELECT * INTO _settings
+  FROM public.doctor_billing_settings
+  WHERE doctor_id = _appointment.doctor_id;
+
+  SELECT name INTO _type_name
+  FROM public.appointment_types
+  WHERE id = _appointment.appointment_type_id;
+
+  _description := CASE _payment.kind
+    WHEN 'late_cancellation_fee' THEN 'Late cancellation fee'
+    WHEN 'copay' THEN 'Co-pay: ' || COALESCE(_type_name, 'Consultation')
+    ELSE COALESCE(_type_name, 'Consultation')
+  END || ' - appointment on ' || public.format_for_user(_appointment.appointment_date, _appointment.patient_id);
+
+  _tax_rate := COALESCE(_settings.tax_rate, 0);
+  _tax_amount := round(_payment.amount * _tax_rate / (100 + _tax_rate), 2);
+
+  INSERT INTO public.invoices (
+    invoice_number, payment_id, appointment_id, patient_id, doctor_id,
+    patient_name, doctor_name, doctor_specialization, doctor_license_number,
+    practice_name, practice_address, tax_id,
+    line_items, subtotal, tax_rate, tax_amount, total
+  )
+  SELECT
+    'INV-' || lpad(nextval('public.invoice_number_seq')::TEXT, 6, '0'),
+    _payment.id, _appointment.id, _appointment.patient_id, _appointment.doctor_id,
+    patient.full_name, doctor.full_name, _doctor_role.specialization, _doctor_role.license_number,
+    _settings.practice_name, _settings.practice_address, _settings.tax_id,
+    jsonb_build_array(jsonb_build_object(
+      'description', _description,
+      'quantity', 1,
+      'unit_price', _payment.amount,
+      'amount', _payment.amount
+    )),
+    _payment.amount - _tax_amount, _tax_rate, _tax_amount, _payment.amount
+  FROM public.profiles patient, public.profiles doctor
+  WHERE patient.id = _appointment.patient_id
+    AND doctor.id = _appointment.doctor_id
+  RETURNING id INTO _invoice_id;
+
+  RETURN _invoice_id;
+END;
+$$;
+
+-- Claim updates show up on the appointment card as they happen
+ALTER PUBLICATION supabase_realtime ADD TABLE public.insurance_claims;
@@ -0,0 +1,353 @@
+-- Discount codes for free-screening campaigns and sliding-scale fees. Doctors
+-- manage codes for their own visits; codes without a doctor are clinic-wide and
+-- are managed by clinic staff outside the app.
+CREATE TABLE public.discount_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  doctor_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  code TEXT NOT NULL UNIQUE CHECK (code ~ '^[A-Z0-9_-]{3,32}$'),
+  description TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value DECIMAL(10, 2) NOT NULL CHECK (discount_value > 0),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  -- Every appointment booked with the code counts as a use
+  max_uses INTEGER CHECK (max_uses > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (discount_type = 'fixed' OR discount_value <= 100)
+);
+
+-- Patients enter the code when booking; the booking trigger resolves it
+ALTER TABLE public.appointments
+ADD COLUMN discount_code TEXT,
+ADD COLUMN discount_code_id UUID REFERENCES public.discount_codes(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_appointments_discount_code ON public.appointments(discount_code_id) WHERE discount_code_id IS NOT NULL;
+
+-- The payment keeps the discount it was billed with, so it can be shown on the invoice
+ALTER TABLE public.payments
+ADD COLUMN discount_code TEXT,
+ADD COLUMN discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0);
+
+-- Enable RLS
+ALTER TABLE public.discount_codes ENABLE ROW LEVEL SECURITY;
+
+-- Patients look codes up through check_discount_code only
+CREATE POLICY "Doctors can manage their discount codes"
+ON public.discount_codes FOR ALL
+USING (auth.uid() = doctor_id AND has_role(auth.uid(), 'doctor'::app_role))
+WITH CHECK (auth.uid() = doctor_id AND has_role(auth.uid(), 'doctor'::app_role));
+
+CREATE TRIGGER update_discount_codes_updated_at
+  BEFORE UPDATE ON public.discount_codes
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Find a code that can be used for a visit with the doctor, or explain why not.
+-- Locks the code so concurrent bookings can't go over its usage limit.
+CREATE OR REPLACE FUNCTION public.find_discount_code(_code TEXT, _doctor_id UUID)
+RETURNS public.discount_codes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _discount public.discount_codes;
+  _uses INTEGER;
+BEGIN
+  SELECT * INTO _discount
+  FROM public.discount_codes
+  WHERE code = upper(trim(_code))
+    AND (doctor_id IS NULL OR doctor_id = _doctor_id)
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT _discount.is_active THEN
+    RAISE EXCEPTION 'This discount code is not valid for this doctor';
+  END IF;
+
+  IF _discount.expires_at IS NOT NULL AND _discount.expires_at < now() THEN
+    RAISE EXCEPTION 'This discount code has expired';
+  END IF;
+
+  IF _discount.max_uses IS NOT NULL THEN
+    SELECT count(*) INTO _uses
+    FROM public.appointments
+    WHERE discount_code_id = _discount.id;
+
+    IF _uses >= _discount.max_uses THEN
+      RAISE EXCEPTION 'This discount code has been used up';
+    END IF;
+  END IF;
+
+  RETURN _discount;
+END;
+$$;
+
+-- Let the booking form show a code's discount before the patient books
+CREATE OR REPLACE FUNCTION public.check_discount_code(_code TEXT, _doctor_id UUID)
+RETURNS TABLE (code TEXT, description TEXT, discount_type TEXT, discount_value DECIMAL(10, 2))
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _discount public.discount_codes;
+BEGIN
+  _discount := public.find_discount_code(_code, _doctor_id);
+  RETURN QUERY SELECT _discount.code, _discount.description, _discount.discount_type, _discount.discount_value;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_appointment_discount()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _discount public.discount_codes;
+BEGIN
+  IF NULLIF(trim(NEW.discount_code), '') IS NULL THEN
+    NEW.discount_code := NULL;
+    NEW.discount_code_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  _discount := public.find_discount_code(NEW.discount_code, NEW.doctor_id);
+  NEW.discount_code := _discount.code;
+  NEW.discount_code_id := _discount.id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_appointment_discount
+  BEFORE INSERT ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.apply_appointment_discount();
+
+-- Discounts come off the patient's share. A fully discounted visit is recorded
+-- as paid so its invoice still shows the discount.
+CREATE OR REPLACE FUNCTION public.create_appointment_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _price DECIMAL(10, 2);
+  _amount DECIMAL(10, 2);
+  _discount public.discount_codes;
+  _discount_amount DECIMAL(10, 2) := 0;
+BEGIN
+  SELECT price INTO _price
+  FROM public.appointment_types
+  WHERE id = NEW.appointment_type_id;
+
+  _amount := _price - COALESCE(NEW.insurance_amount, 0);
+
+  IF _amount > 0 THEN
+    IF NEW.discount_code_id IS NOT NULL THEN
+      SELECT * INTO _discount
+      FROM public.discount_codes
+      WHERE id = NEW.discount_code_id;
+
+      _discount_amount := CASE _discount.discount_type
+        WHEN 'percent' THEN round(_amount * _discount.discount_value / 100, 2)
+        ELSE LEAST(_discount.discount_value, _amount)
+      END;
+    END IF;
+
+    INSERT INTO public.payments (appointment_id, amount, status, kind, discount_code, discount_amount)
+    VALUES (
+      NEW.id,
+      _amount - _discount_amount,
+      CASE WHEN _amount > _discount_amount THEN 'pending'::payment_status ELSE 'paid'::payment_status END,
+      CASE WHEN NEW.billing_method = 'self_pay' THEN 'visit' ELSE 'copay' END,
+      CASE WHEN _discount_amount > 0 THEN NEW.discount_code END,
+      _discount_amount
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Series occurrences can be booked with a discount code too
+DROP FUNCTION public.create_appointment_series(UUID, UUID, TIMESTAMP WITH TIME ZONE, series_frequency, INTEGER, INTEGER, DATE, DATE[], TEXT, billing_method, UUID);
+
+CREATE OR REPLACE FUNCTION public.create_appointment_series(
+  _doctor_id UUID,
+  _appointment_type_id UUID,
+  _starts_at TIMESTAMP WITH TIME ZONE,
+  _frequency series_frequency,
+  _interval_count INTEGER,
+  _occurrence_count INTEGER,
+  _until_date DATE,
+  _excluded_dates DATE[],
+  _reason TEXT,
+  _billing_method billing_method DEFAULT 'self_pay',
+  _insurance_policy_id UUID DEFAULT NULL,
+  _discount_code TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _series_id UUID;
+  _time_zone TEXT;
+  _local_start TIMESTAMP;
+  _local TIMESTAMP;
+  _index INTEGER := 0;
+  _booked INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'patient') THEN
+    RAISE EXCEPTION 'Only patients can book an appointment series';
+  END IF;
+
+  IF _until_date IS NOT NULL AND _until_date > (_starts_at + interval '1 year')::date THEN
+    RAISE EXCEPTION 'A series can run for at most one year';
+  END IF;
+
+  SELECT time_zone INTO _time_zone
+  FROM public.profiles
+  WHERE id = _doctor_id;
+
+  INSERT INTO public.appointment_series (
+    patient_id, doctor_id, appointment_type_id, frequency, interval_count,
+    starts_at, occurrence_count, until_date, excluded_dates, time_zone, reason
+  )
+  VALUES (
+    auth.uid(), _doctor_id, _appointment_type_id, _frequency, _interval_count,
+    _starts_at, _occurrence_count, _until_date, COALESCE(_excluded_dates, '{}'), _time_zone, _reason
+  )
+  RETURNING id INTO _series_id;
+
+  _local_start := _starts_at AT TIME ZONE _time_zone;
+
+  LOOP
+    _local := _local_start + CASE _frequency
+      WHEN 'weekly' THEN make_interval(weeks => _index * _interval_count)
+      ELSE make_interval(months => _index * _interval_count)
+    END;
+
+    EXIT WHEN _occurrence_count IS NOT NULL AND _index >= _occurrence_count;
+    EXIT WHEN _until_date IS NOT NULL AND _local::date > _until_date;
+    EXIT WHEN _index >= 52;
+
+    IF NOT (_local::date = ANY(COALESCE(_excluded_dates, '{}'))) THEN
+      BEGIN
+        INSERT INTO public.appointments (
+          patient_id, doctor_id, appointment_type_id, appointment_date, reason, status, series_id, series_index,
+          billing_method, insurance_policy_id, discount_code
+        )
+        VALUES (
+          auth.uid(), _doctor_id, _appointment_type_id, _local AT TIME ZONE _time_zone, _reason, 'pending', _series_id, _index + 1,
+          _billing_method, _insurance_policy_id, _discount_code
+        );
+      EXCEPTION WHEN exclusion_violation THEN
+        RAISE EXCEPTION 'The slot on % is not available. Skip that date or choose another time.',
+          to_char(_local, 'Mon DD, YYYY HH12:MI AM')
+          USING ERRCODE = 'exclusion_violation';
+      END;
+      _booked := _booked + 1;
+    END IF;
+
+    _index := _index + 1;
+  END LOOP;
+
+  IF _booked < 2 THEN
+    RAISE EXCEPTION 'A series needs at least two appointments';
+  END IF;
+
+  RETURN _series_id;
+END;
+$$;
+
+-- Discounted invoices list the full fee and the discount as separate lines
+CREATE OR REPLACE FUNCTION public.issue_invoice(_payment_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments;
+  _appointment public.appointments;
+  _doctor_role public.user_roles;
+  _settings public.doctor_billing_settings;
+  _type_name TEXT;
+  _description TEXT;
+  _line_items JSONB;
+  _tax_rate DECIMAL(5, 2);
+  _tax_amount DECIMAL(10, 2);
+  _invoice_id UUID;
+BEGIN
+  SELECT * INTO _payment
+  FROM public.payments
+  WHERE id = _payment_id;
+
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _payment.appointment_id;
+
+  SELECT * INTO _doctor_role
+  FROM public.user_roles
+  WHERE user_id = _appointment.doctor_id AND role = 'doctor';
+
+  SELECT * INTO _settings
+  FROM public.doctor_billing_settings
+  WHERE doctor_id = _appointment.doctor_id;
+
+  SELECT name INTO _type_name
+  FROM public.appointment_types
+  WHERE id = _appointment.appointment_type_id;
+
+  _description := CASE _payment.kind
+    WHEN 'late_cancellation_fee' THEN 'Late cancellation fee'
+    WHEN 'copay' THEN 'Co-pay: ' || COALESCE(_type_name, 'Consultation')
+    ELSE COALESCE(_type_name, 'Consultation')
+  END || ' - appointment on ' || public.format_for_user(_appointment.appointment_date, _appointment.patient_id);
+
+  _line_items := jsonb_build_array(jsonb_build_object(
+    'description', _description,
+    'quantity', 1,
+    'unit_price', _payment.amount + _payment.discount_amount,
+    'amount', _payment.amount + _payment.discount_amount
+  ));
+
+  IF _payment.discount_amount > 0 THEN
+    _line_items := _line_items || jsonb_build_array(jsonb_build_object(
+      'description', 'Discount (' || COALESCE(_payment.discount_code, 'promotion') || ')',
+      'quantity', 1,
+      'unit_price', -_payment.discount_amount,
+      'amount', -_payment.discount_amount
+    ));
+  END IF;
+
+  _tax_rate := COALESCE(_settings.tax_rate, 0);
+  _tax_amount := round(_payment.amount * _tax_rate / (100 + _tax_rate), 2);
+
+  INSERT INTO public.invoices (
+    invoice_number, payment_id, appointment_id, patient_id, doctor_id,
+    patient_name, doctor_name, doctor_specialization, doctor_license_number,
+    practice_name, practice_address, tax_id,
+    line_items, subtotal, tax_rate, tax_amount, total
+  )
+  SELECT
+    'INV-' || lpad(nextval('public.invoice_number_seq')::TEXT, 6, '0'),
+    _payment.id, _appointment.id, _appointment.patient_id, _appointment.doctor_id,
+    patient.full_name, doctor.full_name, _doctor_role.specialization, _doctor_role.license_number,
+    _settings.practice_name, _settings.practice_address, _settings.tax_id,
+    _line_items,
+    _payment.amount - _tax_amount, _tax_rate, _tax_amount, _payment.amount
+  FROM public.profiles patient, public.profiles doctor
+  WHERE patient.id = _appointment.patient_id
+    AND doctor.id = _appointment.doctor_id
+  RETURNING id INTO _invoice_id;
+
+  RETURN _invoice_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_discount_code(TEXT, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,23 @@
+-- Chat history is read newest first, one page at a time
+CREATE INDEX idx_messages_room_created ON public.messages(chat_room_id, created_at DESC, id DESC);
+
+-- One page of a room's messages older than the (created_at, id) cursor, newest
+-- first. Runs as the caller so the usual message policies apply.
+CREATE OR REPLACE FUNCTION public.get_chat_messages(
+  _chat_room_id UUID,
+  _before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _before_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 30
+)
+RETURNS SETOF public.messages
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM public.messages
+  WHERE chat_room_id = _chat_room_id
+    AND (_before_created_at IS NULL OR (created_at, id) < (_before_created_at, _before_id))
+  ORDER BY created_at DESC, id DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 100);
+$$;
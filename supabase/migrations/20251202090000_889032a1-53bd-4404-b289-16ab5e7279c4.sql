@@ -0,0 +1,96 @@
+-- File and image attachments in chat, stored in a private bucket under the chat room's folder
+ALTER TABLE public.messages
+  ADD COLUMN attachment_path TEXT,
+  ADD COLUMN attachment_name TEXT,
+  ADD COLUMN attachment_type TEXT,
+  ADD COLUMN attachment_size INTEGER CHECK (attachment_size BETWEEN 0 AND 10485760),
+  -- An attachment can only point at a file in its own room's folder
+  ADD CONSTRAINT messages_attachment_in_room
+    CHECK (attachment_path IS NULL OR split_part(attachment_path, '/', 1) = chat_room_id::text);
+
+-- Attachments a doctor has filed into the patient's medical records
+ALTER TABLE public.medical_records
+  ADD COLUMN file_path TEXT,
+  ADD COLUMN file_type TEXT,
+  ADD COLUMN source_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL;
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'chat-attachments',
+  'chat-attachments',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'application/pdf']
+);
+
+CREATE POLICY "Chat members can upload attachments"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'chat-attachments'
+  AND EXISTS (
+    SELECT 1 FROM public.chat_rooms
+    WHERE chat_rooms.id::text = (storage.foldername(name))[1]
+    AND (chat_rooms.patient_id = auth.uid() OR chat_rooms.doctor_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Chat members can view attachments"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'chat-attachments'
+  AND EXISTS (
+    SELECT 1 FROM public.chat_rooms
+    WHERE chat_rooms.id::text = (storage.foldername(name))[1]
+    AND (chat_rooms.patient_id = auth.uid() OR chat_rooms.doctor_id = auth.uid())
+  )
+);
+
+-- Filed attachments follow the medical_records policies, so other doctors treating the patient can open them
+CREATE POLICY "Users can view attachments filed to medical records"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'chat-attachments'
+  AND EXISTS (
+    SELECT 1 FROM public.medical_records
+    WHERE medical_records.file_path = storage.objects.name
+  )
+);
+
+-- A record may only file an attachment the uploading doctor received or sent in a chat with that patient
+CREATE OR REPLACE FUNCTION public.validate_medical_record_file()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _message_id UUID;
+  _attachment_type TEXT;
+BEGIN
+  IF NEW.file_path IS NULL THEN
+    NEW.source_message_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT m.id, m.attachment_type INTO _message_id, _attachment_type
+  FROM messages m
+  JOIN chat_rooms r ON r.id = m.chat_room_id
+  WHERE m.attachment_path = NEW.file_path
+    AND r.patient_id = NEW.patient_id
+    AND r.doctor_id = NEW.uploaded_by
+  ORDER BY m.created_at
+  LIMIT 1;
+
+  IF _message_id IS NULL THEN
+    RAISE EXCEPTION 'Attachment not found in a chat with this patient';
+  END IF;
+
+  NEW.source_message_id := _message_id;
+  NEW.file_type := _attachment_type;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_medical_record_file
+  BEFORE INSERT OR UPDATE OF file_path, patient_id, uploaded_by ON public.medical_records
+  FOR EACH ROW EXECUTE FUNCTION public.validate_medical_record_file();
@@ -0,0 +1,64 @@
+-- Per-participant read positions: everything sent up to this time has been seen
+ALTER TABLE public.chat_rooms
+  ADD COLUMN patient_last_read_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN doctor_last_read_at TIMESTAMP WITH TIME ZONE;
+
+-- Participants can't update chat_rooms directly, so reading goes through this function
+CREATE OR REPLACE FUNCTION public.mark_chat_room_read(_chat_room_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _room chat_rooms%ROWTYPE;
+  _read_at TIMESTAMP WITH TIME ZONE := now();
+BEGIN
+  SELECT * INTO _room FROM chat_rooms WHERE id = _chat_room_id;
+
+  IF _room.id IS NULL OR auth.uid() NOT IN (_room.patient_id, _room.doctor_id) THEN
+    RAISE EXCEPTION 'Chat room not found';
+  END IF;
+
+  -- Positions only move forward, so a stale tab can't un-read messages
+  IF auth.uid() = _room.patient_id THEN
+    UPDATE chat_rooms
+    SET patient_last_read_at = GREATEST(COALESCE(patient_last_read_at, _read_at), _read_at)
+    WHERE id = _chat_room_id;
+  ELSE
+    UPDATE chat_rooms
+    SET doctor_last_read_at = GREATEST(COALESCE(doctor_last_read_at, _read_at), _read_at)
+    WHERE id = _chat_room_id;
+  END IF;
+
+  RETURN _read_at;
+END;
+$$;
+
+-- Unread messages from the other participant in each of the caller's rooms
+CREATE OR REPLACE FUNCTION public.get_unread_chat_counts()
+RETURNS TABLE (
+  chat_room_id UUID,
+  appointment_id UUID,
+  patient_id UUID,
+  doctor_id UUID,
+  unread_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT r.id, r.appointment_id, r.patient_id, r.doctor_id, count(m.id)
+  FROM chat_rooms r
+  JOIN messages m ON m.chat_room_id = r.id
+  WHERE auth.uid() IN (r.patient_id, r.doctor_id)
+    AND m.sender_id <> auth.uid()
+    AND m.created_at > COALESCE(
+      CASE WHEN auth.uid() = r.patient_id THEN r.patient_last_read_at ELSE r.doctor_last_read_at END,
+      '-infinity'::TIMESTAMP WITH TIME ZONE
+    )
+  GROUP BY r.id;
+$$;
+
+-- Senders see read ticks update live when the other side reads
+ALTER PUBLICATION supabase_realtime ADD TABLE public.chat_rooms;
@@ -0,0 +1,12 @@
+-- Shown as "last seen" once a user is no longer present in realtime
+ALTER TABLE public.profiles ADD COLUMN last_seen_at TIMESTAMP WITH TIME ZONE;
+
+-- Stamped with the server clock so last-seen times don't depend on the user's device
+CREATE OR REPLACE FUNCTION public.touch_last_seen()
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE profiles SET last_seen_at = now() WHERE id = auth.uid();
+$$;
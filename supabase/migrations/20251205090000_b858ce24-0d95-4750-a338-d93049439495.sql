@@ -0,0 +1,61 @@
+-- Full-text search over chat messages, including attachment file names
+ALTER TABLE public.messages
+  ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    to_tsvector('english'::regconfig, message || ' ' || COALESCE(attachment_name, ''))
+  ) STORED;
+
+CREATE INDEX idx_messages_search_vector ON public.messages USING GIN (search_vector);
+
+-- Best matches first, in one room or across all of the caller's rooms. Runs as the
+-- caller so the message policies limit hits to rooms they belong to. Headlines mark
+-- matched words with [[hl]]...[[/hl]] for the client to highlight as text.
+CREATE OR REPLACE FUNCTION public.search_chat_messages(
+  _query TEXT,
+  _chat_room_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  chat_room_id UUID,
+  sender_id UUID,
+  message TEXT,
+  attachment_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  headline TEXT,
+  appointment_id UUID,
+  patient_id UUID,
+  doctor_id UUID,
+  patient_name TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english'::regconfig, _query) AS query
+  )
+  SELECT
+    m.id,
+    m.chat_room_id,
+    m.sender_id,
+    m.message,
+    m.attachment_name,
+    m.created_at,
+    ts_headline(
+      'english'::regconfig,
+      m.message || ' ' || COALESCE(m.attachment_name, ''),
+      q.query,
+      'StartSel=[[hl]], StopSel=[[/hl]], MaxWords=30, MinWords=10, MaxFragments=2'
+    ),
+    r.appointment_id,
+    r.patient_id,
+    r.doctor_id,
+    p.full_name
+  FROM q
+  JOIN messages m ON m.search_vector @@ q.query
+  JOIN chat_rooms r ON r.id = m.chat_room_id
+  LEFT JOIN profiles p ON p.id = r.patient_id
+  WHERE _chat_room_id IS NULL OR m.chat_room_id = _chat_room_id
+  ORDER BY ts_rank(m.search_vector, q.query) DESC, m.created_at DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 100);
+$$;
@@ -0,0 +1,137 @@
+-- Editing, soft-deleting and replying to chat messages
+ALTER TABLE public.messages
+  ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN reply_to_id UUID REFERENCES public.messages(id) ON DELETE SET NULL;
+
+-- Every earlier version of an edited or deleted message, kept for the clinical record
+CREATE TABLE public.message_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  -- 'edit' or 'delete'; the content is what the message said before the change
+  action TEXT NOT NULL CHECK (action IN ('edit', 'delete')),
+  message TEXT NOT NULL,
+  attachment_path TEXT,
+  attachment_name TEXT,
+  revised_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_message_revisions_message ON public.message_revisions(message_id, created_at);
+
+ALTER TABLE public.message_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Both participants can see a message's history; revisions are only written by the functions below
+CREATE POLICY "Chat members can view message revisions"
+ON public.message_revisions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.messages m
+    JOIN public.chat_rooms r ON r.id = m.chat_room_id
+    WHERE m.id = message_revisions.message_id
+    AND (auth.uid() = r.patient_id OR auth.uid() = r.doctor_id)
+  )
+);
+
+-- Senders can correct a message for 15 minutes after sending it
+CREATE OR REPLACE FUNCTION public.edit_chat_message(_message_id UUID, _message TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _msg messages%ROWTYPE;
+BEGIN
+  SELECT * INTO _msg FROM messages WHERE id = _message_id FOR UPDATE;
+
+  IF _msg.id IS NULL OR _msg.sender_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF _msg.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be edited';
+  END IF;
+
+  IF _msg.created_at < now() - INTERVAL '15 minutes' THEN
+    RAISE EXCEPTION 'Messages can only be edited within 15 minutes of sending';
+  END IF;
+
+  IF btrim(COALESCE(_message, '')) = '' AND _msg.attachment_path IS NULL THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  IF _message = _msg.message THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO message_revisions (message_id, action, message, attachment_path, attachment_name, revised_by)
+  VALUES (_msg.id, 'edit', _msg.message, _msg.attachment_path, _msg.attachment_name, auth.uid());
+
+  UPDATE messages
+  SET message = _message, edited_at = now()
+  WHERE id = _msg.id;
+END;
+$$;
+
+-- Leaves a tombstone in the conversation; the content moves to message_revisions
+CREATE OR REPLACE FUNCTION public.delete_chat_message(_message_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _msg messages%ROWTYPE;
+BEGIN
+  SELECT * INTO _msg FROM messages WHERE id = _message_id FOR UPDATE;
+
+  IF _msg.id IS NULL OR _msg.sender_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF _msg.deleted_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO message_revisions (message_id, action, message, attachment_path, attachment_name, revised_by)
+  VALUES (_msg.id, 'delete', _msg.message, _msg.attachment_path, _msg.attachment_name, auth.uid());
+
+  -- The stored file stays, so attachments already filed to medical records keep working
+  UPDATE messages
+  SET message = '',
+    attachment_path = NULL,
+    attachment_name = NULL,
+    attachment_type = NULL,
+    attachment_size = NULL,
+    deleted_at = now()
+  WHERE id = _msg.id;
+END;
+$$;
+
+-- Deleted messages no longer count as unread
+CREATE OR REPLACE FUNCTION public.get_unread_chat_counts()
+RETURNS TABLE (
+  chat_room_id UUID,
+  appointment_id UUID,
+  patient_id UUID,
+  doctor_id UUID,
+  unread_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT r.id, r.appointment_id, r.patient_id, r.doctor_id, count(m.id)
+  FROM chat_rooms r
+  JOIN messages m ON m.chat_room_id = r.id
+  WHERE auth.uid() IN (r.patient_id, r.doctor_id)
+    AND m.sender_id <> auth.uid()
+    AND m.deleted_at IS NULL
+    AND m.created_at > COALESCE(
+      CASE WHEN auth.uid() = r.patient_id THEN r.patient_last_read_at ELSE r.doctor_last_read_at END,
+      '-infinity'::TIMESTAMP WITH TIME ZONE
+    )
+  GROUP BY r.id;
+$$;
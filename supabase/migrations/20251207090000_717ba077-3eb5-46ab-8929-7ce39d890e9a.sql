@@ -0,0 +1,33 @@
+-- Reusable chat replies. Doctors manage their own templates; templates without a
+-- doctor are shared across the clinic and are managed by clinic staff outside the app.
+CREATE TABLE public.message_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  doctor_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  -- Typed after "/" in the chat input to pick the template
+  shortcut TEXT NOT NULL CHECK (shortcut ~ '^[a-z0-9_-]{2,32}$'),
+  title TEXT NOT NULL,
+  -- May contain {{patient_name}}, {{doctor_name}} and {{appointment_date}}
+  body TEXT NOT NULL CHECK (btrim(body) <> ''),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Shortcuts are unique per doctor, and among clinic templates
+CREATE UNIQUE INDEX idx_message_templates_shortcut
+  ON public.message_templates(COALESCE(doctor_id, '00000000-0000-0000-0000-000000000000'::uuid), shortcut);
+
+-- Enable RLS
+ALTER TABLE public.message_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Doctors can view their and clinic templates"
+ON public.message_templates FOR SELECT
+USING (has_role(auth.uid(), 'doctor'::app_role) AND (doctor_id IS NULL OR doctor_id = auth.uid()));
+
+CREATE POLICY "Doctors can manage their templates"
+ON public.message_templates FOR ALL
+USING (auth.uid() = doctor_id AND has_role(auth.uid(), 'doctor'::app_role))
+WITH CHECK (auth.uid() = doctor_id AND has_role(auth.uid(), 'doctor'::app_role));
+
+CREATE TRIGGER update_message_templates_updated_at
+  BEFORE UPDATE ON public.message_templates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
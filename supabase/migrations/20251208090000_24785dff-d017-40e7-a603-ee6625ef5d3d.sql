@@ -0,0 +1,120 @@
+-- Whether a visit fits inside the doctor's working hours on its day, after
+-- exceptions and breaks. Hours are wall-clock times in the doctor's zone and
+-- never cross midnight. Mirrors getWorkingRanges in src/lib/scheduling.ts.
+CREATE OR REPLACE FUNCTION public.is_within_doctor_availability(
+  _doctor_id UUID,
+  _starts_at TIMESTAMPTZ,
+  _ends_at TIMESTAMPTZ
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _time_zone TEXT;
+  _local_start TIMESTAMP;
+  _local_end TIMESTAMP;
+  _exception public.doctor_availability_exceptions;
+  _hours public.doctor_availability;
+BEGIN
+  SELECT time_zone INTO _time_zone
+  FROM public.profiles
+  WHERE id = _doctor_id;
+
+  _local_start := _starts_at AT TIME ZONE COALESCE(_time_zone, 'UTC');
+  _local_end := _ends_at AT TIME ZONE COALESCE(_time_zone, 'UTC');
+
+  SELECT * INTO _exception
+  FROM public.doctor_availability_exceptions
+  WHERE doctor_id = _doctor_id
+    AND exception_date = _local_start::date;
+
+  IF FOUND THEN
+    RETURN _exception.start_time IS NOT NULL
+      AND _local_start::time >= _exception.start_time
+      AND _local_end <= _local_start::date + _exception.end_time;
+  END IF;
+
+  SELECT * INTO _hours
+  FROM public.doctor_availability
+  WHERE doctor_id = _doctor_id
+    AND weekday = EXTRACT(DOW FROM _local_start);
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  IF _local_start::time < _hours.start_time
+    OR _local_end > _local_start::date + _hours.end_time THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN _hours.break_start IS NULL
+    OR _local_end <= _local_start::date + _hours.break_start
+    OR _local_start >= _local_start::date + _hours.break_end;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_within_doctor_availability(UUID, TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- Reject bookings in the past, outside the doctor's working hours and overlapping
+-- visits for the doctor or the patient. Series occurrences come through here too.
+CREATE OR REPLACE FUNCTION public.prevent_double_booking()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ends_at TIMESTAMPTZ := NEW.appointment_date + make_interval(mins => NEW.duration_minutes);
+BEGIN
+  IF NEW.status NOT IN ('pending', 'confirmed') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.appointment_date < now() THEN
+    RAISE EXCEPTION 'Appointments cannot be booked in the past';
+  END IF;
+
+  -- Only when the time changes, so status updates on older bookings keep working
+  -- after the doctor edits their schedule
+  IF (TG_OP = 'INSERT'
+      OR NEW.appointment_date IS DISTINCT FROM OLD.appointment_date
+      OR NEW.duration_minutes IS DISTINCT FROM OLD.duration_minutes)
+    AND NOT public.is_within_doctor_availability(NEW.doctor_id, NEW.appointment_date, _ends_at) THEN
+    RAISE EXCEPTION 'This time is outside the doctor''s working hours'
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  -- Serialize bookings per doctor so concurrent requests cannot both pass the check
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.doctor_id::text));
+
+  IF EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE doctor_id = NEW.doctor_id
+      AND id <> NEW.id
+      AND status IN ('pending', 'confirmed')
+      AND appointment_date < _ends_at
+      AND appointment_date + make_interval(mins => duration_minutes) > NEW.appointment_date
+  ) THEN
+    RAISE EXCEPTION 'This time slot is no longer available'
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE patient_id = NEW.patient_id
+      AND id <> NEW.id
+      AND status IN ('pending', 'confirmed')
+      AND appointment_date < _ends_at
+      AND appointment_date + make_interval(mins => duration_minutes) > NEW.appointment_date
+  ) THEN
+    RAISE EXCEPTION 'The patient already has an appointment at this time'
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
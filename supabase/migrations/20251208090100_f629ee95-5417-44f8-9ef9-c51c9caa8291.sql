@@ -0,0 +1,181 @@
+-- An open waitlist offer holds its slot until it is claimed, declined or expires,
+-- so it counts as busy for everyone except the patient it was offered to
+CREATE OR REPLACE FUNCTION public.get_doctor_busy_slots(_doctor_id UUID, _from TIMESTAMPTZ, _to TIMESTAMPTZ)
+RETURNS TABLE (starts_at TIMESTAMPTZ, ends_at TIMESTAMPTZ)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    appointment_date,
+    appointment_date + make_interval(mins => duration_minutes)
+  FROM public.appointments
+  WHERE doctor_id = _doctor_id
+    AND status IN ('pending', 'confirmed')
+    AND appointment_date < _to
+    AND appointment_date + make_interval(mins => duration_minutes) > _from
+  UNION ALL
+  SELECT
+    slot_start,
+    slot_start + make_interval(mins => duration_minutes)
+  FROM public.waitlist_offers
+  WHERE doctor_id = _doctor_id
+    AND status = 'open'
+    AND expires_at > now()
+    AND slot_start < _to
+    AND slot_start + make_interval(mins => duration_minutes) > _from
+$$;
+
+-- Reject bookings in the past, outside the doctor's working hours, on a slot held
+-- for a waitlisted patient and overlapping visits for the doctor or the patient
+CREATE OR REPLACE FUNCTION public.prevent_double_booking()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ends_at TIMESTAMPTZ := NEW.appointment_date + make_interval(mins => NEW.duration_minutes);
+BEGIN
+  IF NEW.status NOT IN ('pending', 'confirmed') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.appointment_date < now() THEN
+    RAISE EXCEPTION 'Appointments cannot be booked in the past';
+  END IF;
+
+  -- Only when the time changes, so status updates on older bookings keep working
+  -- after the doctor edits their schedule
+  IF (TG_OP = 'INSERT'
+      OR NEW.appointment_date IS DISTINCT FROM OLD.appointment_date
+      OR NEW.duration_minutes IS DISTINCT FROM OLD.duration_minutes)
+    AND NOT public.is_within_doctor_availability(NEW.doctor_id, NEW.appointment_date, _ends_at) THEN
+    RAISE EXCEPTION 'This time is outside the doctor''s working hours'
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  -- Serialize bookings per doctor so concurrent requests cannot both pass the check
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.doctor_id::text));
+
+  IF EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE doctor_id = NEW.doctor_id
+      AND id <> NEW.id
+      AND status IN ('pending', 'confirmed')
+      AND appointment_date < _ends_at
+      AND appointment_date + make_interval(mins => duration_minutes) > NEW.appointment_date
+  ) THEN
+    RAISE EXCEPTION 'This time slot is no longer available'
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  -- claim_waitlist_offer books the held slot for the offered patient
+  IF EXISTS (
+    SELECT 1 FROM public.waitlist_offers
+    WHERE doctor_id = NEW.doctor_id
+      AND patient_id <> NEW.patient_id
+      AND status = 'open'
+      AND expires_at > now()
+      AND slot_start < _ends_at
+      AND slot_start + make_interval(mins => duration_minutes) > NEW.appointment_date
+  ) THEN
+    RAISE EXCEPTION 'This time slot is no longer available'
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE patient_id = NEW.patient_id
+      AND id <> NEW.id
+      AND status IN ('pending', 'confirmed')
+      AND appointment_date < _ends_at
+      AND appointment_date + make_interval(mins => duration_minutes) > NEW.appointment_date
+  ) THEN
+    RAISE EXCEPTION 'The patient already has an appointment at this time'
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Claim now checks the entry's visit type up front instead of surfacing the
+-- booking trigger's error
+CREATE OR REPLACE FUNCTION public.claim_waitlist_offer(_offer_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _offer public.waitlist_offers;
+  _entry public.waitlist_entries;
+  _appointment_id UUID;
+BEGIN
+  SELECT * INTO _offer
+  FROM public.waitlist_offers
+  WHERE id = _offer_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _offer.patient_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Waitlist offer not found';
+  END IF;
+
+  IF _offer.status <> 'open' OR _offer.expires_at <= now() THEN
+    RAISE EXCEPTION 'This offer has expired';
+  END IF;
+
+  SELECT * INTO _entry
+  FROM public.waitlist_entries
+  WHERE id = _offer.entry_id;
+
+  IF _entry.appointment_type_id IS NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM public.appointment_types
+      WHERE doctor_id = _offer.doctor_id AND is_active
+    ) THEN
+      RAISE EXCEPTION 'Your waitlist request has no visit type. Decline this offer and join the waitlist again with a visit type.';
+    END IF;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.appointment_types
+    WHERE id = _entry.appointment_type_id
+      AND doctor_id = _offer.doctor_id
+      AND is_active
+  ) THEN
+    RAISE EXCEPTION 'The doctor no longer offers the visit type on your waitlist request. Decline this offer and join the waitlist again.';
+  END IF;
+
+  BEGIN
+    INSERT INTO public.appointments (patient_id, doctor_id, appointment_type_id, appointment_date, duration_minutes, reason, status)
+    VALUES (_offer.patient_id, _offer.doctor_id, _entry.appointment_type_id, _offer.slot_start, _offer.duration_minutes, COALESCE(NULLIF(_entry.note, ''), 'Booked from waitlist'), 'pending')
+    RETURNING id INTO _appointment_id;
+  EXCEPTION WHEN exclusion_violation THEN
+    PERFORM public.release_waitlist_offer(_offer, 'expired');
+    RETURN NULL;
+  END;
+
+  UPDATE public.waitlist_offers
+  SET status = 'claimed',
+      appointment_id = _appointment_id,
+      responded_at = now()
+  WHERE id = _offer.id;
+
+  UPDATE public.waitlist_entries
+  SET status = 'booked'
+  WHERE id = _offer.entry_id;
+
+  INSERT INTO public.notifications (user_id, title, message)
+  VALUES (
+    _offer.doctor_id,
+    'New Appointment Request',
+    'A waitlisted patient claimed the slot on ' || public.format_for_user(_offer.slot_start, _offer.doctor_id)
+  );
+
+  RETURN _appointment_id;
+END;
+$$;
+
+-- Only the process-waitlist function (service role) moves the queue along
+REVOKE EXECUTE ON FUNCTION public.expire_waitlist_offers() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,119 @@
+-- Clinic staff who manage clinic-wide settings such as discount codes. Rows are
+-- added by the service role; nobody can grant themselves admin from the app.
+CREATE TABLE public.clinic_admins (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.clinic_admins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see whether they are a clinic admin"
+ON public.clinic_admins FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.is_clinic_admin(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.clinic_admins
+    WHERE user_id = _user_id
+  )
+$$;
+
+CREATE POLICY "Clinic admins can manage clinic-wide discount codes"
+ON public.discount_codes FOR ALL
+USING (doctor_id IS NULL AND is_clinic_admin(auth.uid()))
+WITH CHECK (doctor_id IS NULL AND is_clinic_admin(auth.uid()));
+
+-- Cancelled bookings give their use of a code back. The code row stays locked
+-- until the booking commits, so concurrent bookings can't both take the last use.
+CREATE OR REPLACE FUNCTION public.find_discount_code(_code TEXT, _doctor_id UUID)
+RETURNS public.discount_codes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _discount public.discount_codes;
+  _uses INTEGER;
+BEGIN
+  SELECT * INTO _discount
+  FROM public.discount_codes
+  WHERE code = upper(trim(_code))
+    AND (doctor_id IS NULL OR doctor_id = _doctor_id)
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT _discount.is_active THEN
+    RAISE EXCEPTION 'This discount code is not valid for this doctor';
+  END IF;
+
+  IF _discount.expires_at IS NOT NULL AND _discount.expires_at < now() THEN
+    RAISE EXCEPTION 'This discount code has expired';
+  END IF;
+
+  IF _discount.max_uses IS NOT NULL THEN
+    SELECT count(*) INTO _uses
+    FROM public.appointments
+    WHERE discount_code_id = _discount.id
+      AND status NOT IN ('cancelled', 'late_cancelled');
+
+    IF _uses >= _discount.max_uses THEN
+      RAISE EXCEPTION 'This discount code has been used up';
+    END IF;
+  END IF;
+
+  RETURN _discount;
+END;
+$$;
+
+-- Discounts come off the patient's share. A fully discounted visit owes nothing,
+-- so like a visit without a fee it gets no payment (and no receipt).
+CREATE OR REPLACE FUNCTION public.create_appointment_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _price DECIMAL(10, 2);
+  _amount DECIMAL(10, 2);
+  _discount public.discount_codes;
+  _discount_amount DECIMAL(10, 2) := 0;
+BEGIN
+  SELECT price INTO _price
+  FROM public.appointment_types
+  WHERE id = NEW.appointment_type_id;
+
+  _amount := _price - COALESCE(NEW.insurance_amount, 0);
+
+  IF NEW.discount_code_id IS NOT NULL AND _amount > 0 THEN
+    SELECT * INTO _discount
+    FROM public.discount_codes
+    WHERE id = NEW.discount_code_id;
+
+    _discount_amount := CASE _discount.discount_type
+      WHEN 'percent' THEN round(_amount * _discount.discount_value / 100, 2)
+      ELSE LEAST(_discount.discount_value, _amount)
+    END;
+  END IF;
+
+  IF _amount > _discount_amount THEN
+    INSERT INTO public.payments (appointment_id, amount, status, kind, discount_code, discount_amount)
+    VALUES (
+      NEW.id,
+      _amount - _discount_amount,
+      'pending',
+      CASE WHEN NEW.billing_method = 'self_pay' THEN 'visit' ELSE 'copay' END,
+      CASE WHEN _discount_amount > 0 THEN NEW.discount_code END,
+      _discount_amount
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,5 @@
+-- Clinic-wide templates (no doctor) are managed in the app by clinic admins
+CREATE POLICY "Clinic admins can manage clinic templates"
+ON public.message_templates FOR ALL
+USING (doctor_id IS NULL AND is_clinic_admin(auth.uid()))
+WITH CHECK (doctor_id IS NULL AND is_clinic_admin(auth.uid()));
@@ -0,0 +1,61 @@
+-- Doctors who have not saved a weekly schedule yet are not restricted to working
+-- hours, so enforcing availability doesn't lock out every existing doctor.
+-- Exceptions still apply to the days they cover.
+CREATE OR REPLACE FUNCTION public.is_within_doctor_availability(
+  _doctor_id UUID,
+  _starts_at TIMESTAMPTZ,
+  _ends_at TIMESTAMPTZ
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _time_zone TEXT;
+  _local_start TIMESTAMP;
+  _local_end TIMESTAMP;
+  _exception public.doctor_availability_exceptions;
+  _hours public.doctor_availability;
+BEGIN
+  SELECT time_zone INTO _time_zone
+  FROM public.profiles
+  WHERE id = _doctor_id;
+
+  _local_start := _starts_at AT TIME ZONE COALESCE(_time_zone, 'UTC');
+  _local_end := _ends_at AT TIME ZONE COALESCE(_time_zone, 'UTC');
+
+  SELECT * INTO _exception
+  FROM public.doctor_availability_exceptions
+  WHERE doctor_id = _doctor_id
+    AND exception_date = _local_start::date;
+
+  IF FOUND THEN
+    RETURN _exception.start_time IS NOT NULL
+      AND _local_start::time >= _exception.start_time
+      AND _local_end <= _local_start::date + _exception.end_time;
+  END IF;
+
+  SELECT * INTO _hours
+  FROM public.doctor_availability
+  WHERE doctor_id = _doctor_id
+    AND weekday = EXTRACT(DOW FROM _local_start);
+
+  IF NOT FOUND THEN
+    RETURN NOT EXISTS (
+      SELECT 1 FROM public.doctor_availability
+      WHERE doctor_id = _doctor_id
+    );
+  END IF;
+
+  IF _local_start::time < _hours.start_time
+    OR _local_end > _local_start::date + _hours.end_time THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN _hours.break_start IS NULL
+    OR _local_end <= _local_start::date + _hours.break_start
+    OR _local_start >= _local_start::date + _hours.break_end;
+END;
+$$;
@@ -0,0 +1,88 @@
+-- A cancelled visit no longer owes its fee: unpaid visit fees and co-pays are
+-- withdrawn (with their invoices) instead of being left pending. Paid ones are
+-- refunded as before.
+CREATE OR REPLACE FUNCTION public.cancel_appointment(_appointment_id UUID, _reason TEXT DEFAULT NULL)
+RETURNS appointment_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _appointment public.appointments;
+  _policy public.cancellation_policies;
+  _status appointment_status := 'cancelled';
+  _refund_percent INTEGER := 100;
+  _payment public.payments;
+BEGIN
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _appointment_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR auth.uid() NOT IN (_appointment.patient_id, _appointment.doctor_id) THEN
+    RAISE EXCEPTION 'Appointment not found';
+  END IF;
+
+  IF _appointment.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'This appointment can no longer be cancelled';
+  END IF;
+
+  SELECT * INTO _policy
+  FROM public.cancellation_policies
+  WHERE doctor_id = _appointment.doctor_id;
+
+  IF auth.uid() = _appointment.patient_id
+     AND _appointment.status = 'confirmed'
+     AND FOUND
+     AND _appointment.appointment_date - make_interval(hours => _policy.cutoff_hours) < now() THEN
+    _status := 'late_cancelled';
+    _refund_percent := _policy.late_refund_percent;
+
+    IF _policy.late_cancel_fee > 0 THEN
+      INSERT INTO public.payments (appointment_id, amount, status, kind)
+      VALUES (_appointment.id, _policy.late_cancel_fee, 'pending', 'late_cancellation_fee');
+    END IF;
+  END IF;
+
+  UPDATE public.appointments
+  SET status = _status,
+      cancelled_by = auth.uid(),
+      cancelled_at = now(),
+      cancellation_reason = _reason
+  WHERE id = _appointment.id;
+
+  DELETE FROM public.payments
+  WHERE appointment_id = _appointment.id
+    AND kind IN ('visit', 'copay')
+    AND status IN ('pending', 'failed');
+
+  IF _refund_percent > 0 THEN
+    FOR _payment IN
+      SELECT * FROM public.payments
+      WHERE appointment_id = _appointment.id
+        AND kind IN ('visit', 'copay')
+        AND status IN ('paid', 'partially_refunded')
+    LOOP
+      PERFORM public.request_refund(
+        _payment.id,
+        round(_payment.amount * _refund_percent / 100, 2),
+        CASE WHEN _status = 'late_cancelled'
+          THEN 'Late cancellation (' || _refund_percent || '% refund)'
+          ELSE 'Appointment cancelled'
+        END,
+        auth.uid()
+      );
+    END LOOP;
+  END IF;
+
+  RETURN _status;
+END;
+$$;
+
+-- Withdraw the fees already stranded on cancelled visits
+DELETE FROM public.payments p
+USING public.appointments a
+WHERE a.id = p.appointment_id
+  AND a.status IN ('cancelled', 'late_cancelled')
+  AND p.kind IN ('visit', 'copay')
+  AND p.status IN ('pending', 'failed');
@@ -0,0 +1,29 @@
+-- When the doctor confirmed the visit; its fee is owed from then on
+ALTER TABLE public.appointments
+ADD COLUMN confirmed_at TIMESTAMP WITH TIME ZONE;
+
+-- The last change to an already confirmed visit is the closest record of when
+-- that happened, and never earlier than it
+UPDATE public.appointments
+SET confirmed_at = updated_at
+WHERE status IN ('confirmed', 'completed', 'no_show');
+
+CREATE OR REPLACE FUNCTION public.set_appointment_confirmed_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'confirmed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'confirmed') THEN
+    NEW.confirmed_at := now();
+  ELSIF NEW.status = 'pending' THEN
+    NEW.confirmed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_appointment_confirmed_at
+  BEFORE INSERT OR UPDATE OF status ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.set_appointment_confirmed_at();
@@ -0,0 +1,403 @@
+-- Coverage and co-pay are what the patient read off their card until a doctor
+-- checks them with the insurer. Claims are only filed on verified terms.
+ALTER TABLE public.insurance_policies
+ADD COLUMN verified_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN verified_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+-- Patients can't verify their own terms, and changing them needs a fresh check
+CREATE OR REPLACE FUNCTION public.protect_insurance_policy_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM NEW.patient_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+     OR NEW.coverage_percent IS DISTINCT FROM OLD.coverage_percent
+     OR NEW.copay_amount IS DISTINCT FROM OLD.copay_amount THEN
+    NEW.verified_at := NULL;
+    NEW.verified_by := NULL;
+  ELSE
+    NEW.verified_at := OLD.verified_at;
+    NEW.verified_by := OLD.verified_by;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_insurance_policy_verification
+  BEFORE INSERT OR UPDATE ON public.insurance_policies
+  FOR EACH ROW EXECUTE FUNCTION public.protect_insurance_policy_verification();
+
+-- Bring what the patient is billed for a visit in line with what the insurer
+-- covers. A shortfall becomes a new co-pay; an excess comes off unpaid visit fees
+-- and co-pays first (reissued so their invoices match) and is refunded from paid
+-- ones after that. Returns the change to the patient's share.
+CREATE OR REPLACE FUNCTION public.rebill_patient_share(_appointment_id UUID, _insurer_share DECIMAL(10, 2), _reason TEXT)
+RETURNS DECIMAL(10, 2)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _appointment public.appointments;
+  _price DECIMAL(10, 2);
+  _discounts DECIMAL(10, 2);
+  _billed DECIMAL(10, 2);
+  _change DECIMAL(10, 2);
+  _remaining DECIMAL(10, 2);
+  _take DECIMAL(10, 2);
+  _payment public.payments;
+  _refund_id UUID;
+BEGIN
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _appointment_id;
+
+  SELECT price INTO _price
+  FROM public.appointment_types
+  WHERE id = _appointment.appointment_type_id;
+
+  _price := COALESCE(_price, 0);
+
+  SELECT COALESCE(SUM(discount_amount), 0), COALESCE(SUM(amount - refunded), 0)
+  INTO _discounts, _billed
+  FROM (
+    SELECT
+      payments.discount_amount,
+      payments.amount,
+      (
+        SELECT COALESCE(SUM(refunds.amount), 0)
+        FROM public.refunds
+        WHERE refunds.payment_id = payments.id
+          AND refunds.status IN ('pending', 'succeeded')
+      ) AS refunded
+    FROM public.payments
+    WHERE payments.appointment_id = _appointment_id
+      AND payments.kind IN ('visit', 'copay')
+  ) billed;
+
+  _change := GREATEST(_price - _insurer_share - _discounts, 0) - _billed;
+
+  IF _change > 0 THEN
+    INSERT INTO public.payments (appointment_id, amount, status, kind)
+    VALUES (_appointment_id, _change, 'pending', 'copay');
+  ELSIF _change < 0 THEN
+    _remaining := -_change;
+
+    FOR _payment IN
+      SELECT * FROM public.payments
+      WHERE appointment_id = _appointment_id
+        AND kind IN ('visit', 'copay')
+        AND status IN ('pending', 'failed')
+      ORDER BY created_at DESC
+    LOOP
+      EXIT WHEN _remaining <= 0;
+      _take := LEAST(_payment.amount, _remaining);
+
+      DELETE FROM public.payments WHERE id = _payment.id;
+
+      -- A discounted fee that drops to nothing stays on file as a settled zero payment
+      IF _payment.amount > _take OR _payment.discount_amount > 0 THEN
+        INSERT INTO public.payments (appointment_id, amount, status, kind, discount_code, discount_amount)
+        VALUES (
+          _appointment_id,
+          _payment.amount - _take,
+          CASE WHEN _payment.amount > _take THEN 'pending' ELSE 'paid' END::payment_status,
+          _payment.kind,
+          _payment.discount_code,
+          _payment.discount_amount
+        );
+      END IF;
+
+      _remaining := _remaining - _take;
+    END LOOP;
+
+    FOR _payment IN
+      SELECT * FROM public.payments
+      WHERE appointment_id = _appointment_id
+        AND kind IN ('visit', 'copay')
+        AND status IN ('paid', 'partially_refunded')
+      ORDER BY created_at DESC
+    LOOP
+      EXIT WHEN _remaining <= 0;
+      _refund_id := public.request_refund(_payment.id, _remaining, _reason, auth.uid());
+
+      _remaining := _remaining - COALESCE((SELECT amount FROM public.refunds WHERE id = _refund_id), 0);
+    END LOOP;
+  END IF;
+
+  RETURN _change;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rebill_patient_share(UUID, DECIMAL, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- The visit's doctor records the terms the insurer confirmed. Their visits on the
+-- policy that haven't been claimed yet are re-priced to match.
+CREATE OR REPLACE FUNCTION public.verify_insurance_policy(
+  _appointment_id UUID,
+  _coverage_percent INTEGER,
+  _copay_amount DECIMAL(10, 2)
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _appointment public.appointments;
+  _policy public.insurance_policies;
+  _visit public.appointments;
+  _price DECIMAL(10, 2);
+  _insurer_share DECIMAL(10, 2);
+BEGIN
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _appointment_id;
+
+  IF NOT FOUND OR _appointment.doctor_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Appointment not found';
+  END IF;
+
+  IF _appointment.insurance_policy_id IS NULL THEN
+    RAISE EXCEPTION 'This appointment is not billed to insurance';
+  END IF;
+
+  UPDATE public.insurance_policies
+  SET coverage_percent = _coverage_percent,
+      copay_amount = _copay_amount,
+      verified_at = now(),
+      verified_by = auth.uid()
+  WHERE id = _appointment.insurance_policy_id
+  RETURNING * INTO _policy;
+
+  FOR _visit IN
+    SELECT * FROM public.appointments
+    WHERE insurance_policy_id = _policy.id
+      AND doctor_id = auth.uid()
+      AND status IN ('pending', 'confirmed', 'completed')
+      AND NOT EXISTS (
+        SELECT 1 FROM public.insurance_claims
+        WHERE insurance_claims.appointment_id = appointments.id
+      )
+    FOR UPDATE
+  LOOP
+    SELECT price INTO _price
+    FROM public.appointment_types
+    WHERE id = _visit.appointment_type_id;
+
+    _price := COALESCE(_price, 0);
+
+    -- Same split as apply_appointment_billing
+    _insurer_share := _price - CASE _visit.billing_method
+      WHEN 'insurance' THEN LEAST(_policy.copay_amount, _price)
+      ELSE round(_price * (100 - _policy.coverage_percent) / 100, 2)
+    END;
+
+    UPDATE public.appointments
+    SET insurance_amount = _insurer_share
+    WHERE id = _visit.id;
+
+    PERFORM public.rebill_patient_share(_visit.id, _insurer_share, 'Insurance coverage verified');
+  END LOOP;
+
+  INSERT INTO public.notifications (user_id, title, message)
+  VALUES (
+    _policy.patient_id,
+    'Insurance Verified',
+    'Your doctor checked the coverage on your ' || _policy.payer_name || ' policy with your insurer. Your appointments show what you owe.'
+  );
+END;
+$$;
+
+-- Claims are only filed on terms a doctor has verified
+CREATE OR REPLACE FUNCTION public.submit_insurance_claim(_appointment_id UUID, _claim_reference TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _appointment public.appointments;
+  _claim_id UUID;
+BEGIN
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _appointment_id;
+
+  IF NOT FOUND OR _appointment.doctor_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Appointment not found';
+  END IF;
+
+  IF _appointment.billing_method = 'self_pay' OR COALESCE(_appointment.insurance_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'This appointment is not billed to insurance';
+  END IF;
+
+  IF _appointment.status NOT IN ('confirmed', 'completed') THEN
+    RAISE EXCEPTION 'Claims can only be submitted for confirmed or completed appointments';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.insurance_policies
+    WHERE id = _appointment.insurance_policy_id
+      AND verified_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Verify the patient''s coverage with their insurer before submitting a claim';
+  END IF;
+
+  INSERT INTO public.insurance_claims (appointment_id, insurance_policy_id, amount_claimed, claim_reference)
+  VALUES (_appointment.id, _appointment.insurance_policy_id, _appointment.insurance_amount, NULLIF(_claim_reference, ''))
+  ON CONFLICT (appointment_id) DO UPDATE
+  SET status = 'submitted',
+      claim_reference = COALESCE(EXCLUDED.claim_reference, insurance_claims.claim_reference),
+      amount_approved = NULL,
+      denial_reason = NULL,
+      submitted_at = now(),
+      decided_at = NULL
+  WHERE insurance_claims.status = 'denied'
+  RETURNING id INTO _claim_id;
+
+  IF _claim_id IS NULL THEN
+    RAISE EXCEPTION 'A claim is already in progress for this appointment';
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message)
+  VALUES (
+    _appointment.patient_id,
+    'Insurance Claim Submitted',
+    'A claim of $' || to_char(_appointment.insurance_amount, 'FM999999990.00') || ' for your appointment on ' ||
+      public.format_for_user(_appointment.appointment_date, _appointment.patient_id) || ' was sent to your insurer.'
+  );
+
+  RETURN _claim_id;
+END;
+$$;
+
+-- Whatever the insurer doesn't cover goes back to the patient when the claim is
+-- decided or paid; approving a resubmitted claim credits a balance already billed
+CREATE OR REPLACE FUNCTION public.update_insurance_claim(
+  _claim_id UUID,
+  _status claim_status,
+  _amount DECIMAL(10, 2) DEFAULT NULL,
+  _denial_reason TEXT DEFAULT NULL
+)
+RETURNS claim_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _claim public.insurance_claims;
+  _appointment public.appointments;
+  _message TEXT;
+  _change DECIMAL(10, 2);
+BEGIN
+  SELECT * INTO _claim
+  FROM public.insurance_claims
+  WHERE id = _claim_id
+  FOR UPDATE;
+
+  SELECT * INTO _appointment
+  FROM public.appointments
+  WHERE id = _claim.appointment_id;
+
+  IF NOT FOUND OR _appointment.doctor_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Claim not found';
+  END IF;
+
+  IF _status = 'approved' AND _claim.status = 'submitted' THEN
+    IF _amount IS NOT NULL AND (_amount <= 0 OR _amount > _claim.amount_claimed) THEN
+      RAISE EXCEPTION 'The approved amount must be between $0.01 and the amount claimed';
+    END IF;
+
+    UPDATE public.insurance_claims
+    SET status = 'approved',
+        amount_approved = COALESCE(_amount, amount_claimed),
+        decided_at = now()
+    WHERE id = _claim.id
+    RETURNING * INTO _claim;
+
+    _change := public.rebill_patient_share(_appointment.id, _claim.amount_approved, 'Insurance claim approved');
+
+    _message := 'Your insurer approved $' || to_char(_claim.amount_approved, 'FM999999990.00') ||
+      ' of the $' || to_char(_claim.amount_claimed, 'FM999999990.00') || ' claimed';
+  ELSIF _status = 'denied' AND _claim.status = 'submitted' THEN
+    IF NULLIF(trim(_denial_reason), '') IS NULL THEN
+      RAISE EXCEPTION 'Please give the reason the claim was denied';
+    END IF;
+
+    UPDATE public.insurance_claims
+    SET status = 'denied',
+        denial_reason = trim(_denial_reason),
+        decided_at = now()
+    WHERE id = _claim.id;
+
+    _change := public.rebill_patient_share(_appointment.id, 0, 'Insurance claim denied');
+
+    _message := 'Your insurer denied the claim (' || trim(_denial_reason) || ')';
+  ELSIF _status = 'paid' AND _claim.status = 'approved' THEN
+    IF _amount IS NOT NULL AND (_amount <= 0 OR _amount > _claim.amount_approved) THEN
+      RAISE EXCEPTION 'The paid amount must be between $0.01 and the amount approved';
+    END IF;
+
+    UPDATE public.insurance_claims
+    SET status = 'paid',
+        amount_paid = COALESCE(_amount, amount_approved),
+        paid_at = now()
+    WHERE id = _claim.id
+    RETURNING * INTO _claim;
+
+    _change := public.rebill_patient_share(_appointment.id, _claim.amount_paid, 'Insurance claim paid');
+
+    _message := 'Your insurer paid $' || to_char(_claim.amount_paid, 'FM999999990.00');
+  ELSE
+    RAISE EXCEPTION 'A % claim cannot be marked as %', _claim.status, _status;
+  END IF;
+
+  _message := _message || ' for your appointment on ' || public.format_for_user(_appointment.appointment_date, _appointment.patient_id) || '.';
+
+  IF _change > 0 THEN
+    _message := _message || ' The $' || to_char(_change, 'FM999999990.00') || ' it doesn''t cover has been added to what you owe.';
+  ELSIF _change < 0 THEN
+    _message := _message || ' $' || to_char(-_change, 'FM999999990.00') || ' has come off what you owe.';
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message)
+  VALUES (
+    _appointment.patient_id,
+    'Insurance Claim ' || initcap(_status::TEXT),
+    _message
+  );
+
+  RETURN _status;
+END;
+$$;
+
+-- Bill the balance on claims the insurer already decided
+DO $$
+DECLARE
+  _claim public.insurance_claims;
+BEGIN
+  FOR _claim IN
+    SELECT insurance_claims.* FROM public.insurance_claims
+    JOIN public.appointments ON appointments.id = insurance_claims.appointment_id
+    WHERE insurance_claims.status <> 'submitted'
+      AND appointments.status NOT IN ('cancelled', 'late_cancelled')
+  LOOP
+    PERFORM public.rebill_patient_share(
+      _claim.appointment_id,
+      CASE _claim.status
+        WHEN 'denied' THEN 0
+        WHEN 'approved' THEN _claim.amount_approved
+        ELSE _claim.amount_paid
+      END,
+      'Insurance claim ' || _claim.status::TEXT
+    );
+  END LOOP;
+END;
+$$;
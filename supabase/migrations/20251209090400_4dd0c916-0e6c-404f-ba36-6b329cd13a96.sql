@@ -0,0 +1,136 @@
+-- Discounts come off the patient's share. A fully discounted visit is recorded
+-- as a settled zero payment so its invoice and receipt still show the discount.
+CREATE OR REPLACE FUNCTION public.create_appointment_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _price DECIMAL(10, 2);
+  _amount DECIMAL(10, 2);
+  _discount public.discount_codes;
+  _discount_amount DECIMAL(10, 2) := 0;
+BEGIN
+  SELECT price INTO _price
+  FROM public.appointment_types
+  WHERE id = NEW.appointment_type_id;
+
+  _amount := _price - COALESCE(NEW.insurance_amount, 0);
+
+  IF _amount > 0 THEN
+    IF NEW.discount_code_id IS NOT NULL THEN
+      SELECT * INTO _discount
+      FROM public.discount_codes
+      WHERE id = NEW.discount_code_id;
+
+      _discount_amount := CASE _discount.discount_type
+        WHEN 'percent' THEN round(_amount * _discount.discount_value / 100, 2)
+        ELSE LEAST(_discount.discount_value, _amount)
+      END;
+    END IF;
+
+    INSERT INTO public.payments (appointment_id, amount, status, kind, discount_code, discount_amount)
+    VALUES (
+      NEW.id,
+      _amount - _discount_amount,
+      CASE WHEN _amount > _discount_amount THEN 'pending'::payment_status ELSE 'paid'::payment_status END,
+      CASE WHEN NEW.billing_method = 'self_pay' THEN 'visit' ELSE 'copay' END,
+      CASE WHEN _discount_amount > 0 THEN NEW.discount_code END,
+      _discount_amount
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Every code a patient tries in the booking form, so guessing codes is throttled
+CREATE TABLE public.discount_code_checks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  -- The code it matched, when it was valid
+  discount_code_id UUID REFERENCES public.discount_codes(id) ON DELETE CASCADE,
+  checked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_discount_code_checks_user ON public.discount_code_checks(user_id, checked_at);
+
+-- Enable RLS; only check_discount_code and the booking trigger read and write checks
+ALTER TABLE public.discount_code_checks ENABLE ROW LEVEL SECURITY;
+
+-- Patients get 10 tries every 15 minutes. A code that doesn't check out is
+-- returned with an error rather than raised, so the try still counts.
+DROP FUNCTION public.check_discount_code(TEXT, UUID);
+
+CREATE FUNCTION public.check_discount_code(_code TEXT, _doctor_id UUID)
+RETURNS TABLE (code TEXT, description TEXT, discount_type TEXT, discount_value DECIMAL(10, 2), error TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _discount public.discount_codes;
+  _recent INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'patient') THEN
+    RAISE EXCEPTION 'Only patients can use discount codes';
+  END IF;
+
+  SELECT count(*) INTO _recent
+  FROM public.discount_code_checks
+  WHERE user_id = auth.uid()
+    AND checked_at > now() - interval '15 minutes';
+
+  IF _recent >= 10 THEN
+    RAISE EXCEPTION 'Too many discount codes tried. Please wait a few minutes and try again.';
+  END IF;
+
+  BEGIN
+    _discount := public.find_discount_code(_code, _doctor_id);
+  EXCEPTION WHEN raise_exception THEN
+    INSERT INTO public.discount_code_checks (user_id) VALUES (auth.uid());
+    RETURN QUERY SELECT NULL::TEXT, NULL::TEXT, NULL::TEXT, NULL::DECIMAL(10, 2), SQLERRM;
+    RETURN;
+  END;
+
+  INSERT INTO public.discount_code_checks (user_id, discount_code_id) VALUES (auth.uid(), _discount.id);
+  RETURN QUERY SELECT _discount.code, _discount.description, _discount.discount_type, _discount.discount_value, NULL::TEXT;
+END;
+$$;
+
+-- Bookings only take codes the patient applied through check_discount_code in the
+-- last day, so the booking itself can't be used to guess codes
+CREATE OR REPLACE FUNCTION public.apply_appointment_discount()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _discount public.discount_codes;
+BEGIN
+  IF NULLIF(trim(NEW.discount_code), '') IS NULL THEN
+    NEW.discount_code := NULL;
+    NEW.discount_code_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.discount_code_checks
+    JOIN public.discount_codes ON discount_codes.id = discount_code_checks.discount_code_id
+    WHERE discount_code_checks.user_id = NEW.patient_id
+      AND discount_code_checks.checked_at > now() - interval '1 day'
+      AND discount_codes.code = upper(trim(NEW.discount_code))
+  ) THEN
+    RAISE EXCEPTION 'Please apply the discount code before booking';
+  END IF;
+
+  _discount := public.find_discount_code(NEW.discount_code, NEW.doctor_id);
+  NEW.discount_code := _discount.code;
+  NEW.discount_code_id := _discount.id;
+
+  RETURN NEW;
+END;
+$$;